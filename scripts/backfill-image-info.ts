@@ -0,0 +1,49 @@
+/**
+ * Reads dimensions, MIME type, color space, hashes and embedded generation settings
+ * from stored image files and writes them to records that lack them
+ * Usage: npm run backfill:images -- [--session <id>] [--force] [--dry-run]
+ * @filepath scripts/backfill-image-info.ts
+ */
+
+import { storage } from '@/lib/storage';
+import { ImageInfoBackfillService } from '@/lib/services/image-info-backfill-service';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const sessionId = getArg('session');
+  const force = process.argv.includes('--force');
+  const dryRun = process.argv.includes('--dry-run');
+  
+  console.log(
+    `🔍 Backfilling image info${sessionId ? ` for session ${sessionId}` : ''}` +
+    `${force ? ' (all images)' : ''}${dryRun ? ' (dry run)' : ''}`
+  );
+  
+  const report = await new ImageInfoBackfillService(storage).run({ dryRun, force, sessionId });
+  
+  if (report.issues.length > 0) {
+    console.log(`\n⚠️  ${report.issues.length} issues:`);
+    report.issues.forEach(issue => {
+      console.log(`  - ${issue.sessionId}/${issue.imageId}: ${issue.message}`);
+    });
+  }
+  
+  console.log(
+    `\n📊 ${report.sessions} sessions, ${report.scanned} images scanned, ` +
+    `${report.updated} ${dryRun ? 'to update' : 'updated'}, ${report.upToDate} up to date, ` +
+    `${report.missingFiles} missing files`
+  );
+  
+  if (dryRun) {
+    console.log('ℹ️  Dry run - nothing was written');
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Backfill failed:', error);
+  process.exit(1);
+});
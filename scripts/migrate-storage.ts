@@ -0,0 +1,75 @@
+/**
+ * Migrates all sessions and images from one storage backend to another
+ * Usage: npm run migrate:storage -- --to sqlite [--from json] [--dry-run]
+ * Running json -> json repairs stale file paths in place
+ * @filepath scripts/migrate-storage.ts
+ */
+
+import { createStorage } from '@/lib/storage';
+import { DATA_DIR } from '@/lib/storage/paths';
+import { MigrationService } from '@/lib/services/migration-service';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const from = getArg('from') || 'json';
+  const to = getArg('to');
+  const dryRun = process.argv.includes('--dry-run');
+  
+  if (!to) {
+    console.error('Usage: npm run migrate:storage -- --to <json|sqlite> [--from <json|sqlite>] [--dry-run]');
+    process.exit(1);
+  }
+  
+  console.log(`🔄 Migrating storage: ${from} -> ${to}${dryRun ? ' (dry run)' : ''}`);
+  
+  const service = new MigrationService(
+    createStorage(from),
+    createStorage(to),
+    DATA_DIR
+  );
+  const report = await service.run({ dryRun });
+  
+  for (const session of report.sessions) {
+    console.log(
+      `  📂 ${session.name} (${session.sessionId}): ${session.images} images, ` +
+      `${session.exportHistory} exports, ${session.repairedPaths} repaired, ` +
+      `${session.missingFiles} missing${session.existsInTarget ? ' [overwrites target]' : ''}`
+    );
+  }
+  
+  if (report.issues.length > 0) {
+    console.log(`\n⚠️  ${report.issues.length} issues:`);
+    report.issues.forEach(issue => {
+      console.log(`  - ${issue.sessionId}${issue.imageId ? `/${issue.imageId}` : ''}: ${issue.message}`);
+    });
+  }
+  
+  console.log(
+    `\n📊 ${report.totals.sessions} sessions, ${report.totals.images} images, ` +
+    `${report.totals.repairedPaths} repaired paths, ${report.totals.missingFiles} missing files`
+  );
+  
+  if (dryRun) {
+    console.log('ℹ️  Dry run - nothing was written');
+    return;
+  }
+  
+  if (!report.verified) {
+    console.error(`\n❌ Verification failed with ${report.verificationErrors.length} errors:`);
+    report.verificationErrors.forEach(error => {
+      console.error(`  - ${error.sessionId}${error.imageId ? `/${error.imageId}` : ''}: ${error.message}`);
+    });
+    process.exit(1);
+  }
+  
+  console.log('✅ Migration verified: counts, IDs, scores and files match');
+}
+
+main().catch(error => {
+  console.error('❌ Migration failed:', error);
+  process.exit(1);
+});
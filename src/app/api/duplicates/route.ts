@@ -0,0 +1,116 @@
+/**
+ * Duplicate image report and resolution
+ * @filepath src/app/api/duplicates/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { storage } from '@/lib/storage';
+import { DuplicateService } from '@/lib/services/duplicate-service';
+import { ApiResponse, DuplicateReport, DuplicateResolution, ImageRecord } from '@/lib/types';
+import { DuplicateQuerySchema, DuplicateResolveSchema } from '@/lib/validations';
+
+// GET /api/duplicates?session_id=&threshold= - Groups of exact and near duplicate images
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { searchParams } = new URL(request.url);
+    const { session_id, threshold } = DuplicateQuerySchema.parse(Object.fromEntries(searchParams));
+    
+    let sessions = await storage.listSessions(session.user.id);
+    if (session_id) {
+      sessions = sessions.filter(s => s.id === session_id);
+      if (sessions.length === 0) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Session not found or access denied',
+        }, { status: 404 });
+      }
+    }
+    
+    const report = await new DuplicateService().buildReport(sessions, threshold, session_id);
+    
+    return NextResponse.json<ApiResponse<DuplicateReport>>({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid duplicate query',
+      }, { status: 400 });
+    }
+    
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to find duplicates',
+    }, { status: 500 });
+  }
+}
+
+// POST /api/duplicates - Keep one image, delete the others (merge folds their metadata in first)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { action, keep_id, image_ids } = DuplicateResolveSchema.parse(await request.json());
+    
+    // Every image involved must belong to one of the user's sessions
+    const ownedSessionIds = new Set((await storage.listSessions(session.user.id)).map(s => s.id));
+    const images: ImageRecord[] = [];
+    
+    for (const id of Array.from(new Set([keep_id, ...image_ids]))) {
+      const image = await storage.getImage(id);
+      if (!image || !ownedSessionIds.has(image.session_id)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: `Image not found or access denied: ${id}`,
+        }, { status: 404 });
+      }
+      images.push(image);
+    }
+    
+    const [keeper, ...duplicates] = images;
+    if (duplicates.length === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Nothing to resolve besides the kept image',
+      }, { status: 400 });
+    }
+    
+    const resolution = await new DuplicateService().resolve(keeper, duplicates, action);
+    
+    return NextResponse.json<ApiResponse<DuplicateResolution>>({
+      success: true,
+      data: resolution,
+      message: `${action === 'merge' ? 'Merged and deleted' : 'Deleted'} ${resolution.deleted.length} duplicates`,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid duplicate resolution',
+      }, { status: 400 });
+    }
+    
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to resolve duplicates',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Export job status, for clients that can't use the SSE stream at /api/progress/[jobId]
+ * @filepath src/app/api/exports/[jobId]/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { ExportJobService } from '@/lib/services/export-job-service';
+import { ApiResponse } from '@/lib/types';
+import { ExportJob } from '@/lib/types/export';
+
+interface RouteParams {
+  params: Promise<{
+    jobId: string;
+  }>;
+}
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/exports/[jobId] - Current state of an export job
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { jobId } = await params;
+    const job = await new ExportJobService().getJob(jobId);
+    
+    if (!job || job.user_id !== session.user.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Export job not found',
+      }, { status: 404 });
+    }
+    
+    return NextResponse.json<ApiResponse<ExportJob>>(
+      { success: true, data: job },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load export job',
+    }, { status: 500 });
+  }
+}
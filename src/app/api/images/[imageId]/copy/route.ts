@@ -0,0 +1,78 @@
+/**
+ * Copy an image into another session under a new ID
+ * @filepath src/app/api/images/[imageId]/copy/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { storage } from '@/lib/storage';
+import { ApiResponse, ImageRecord } from '@/lib/types';
+import { ImageTransferSchema } from '@/lib/validations';
+
+interface RouteParams {
+  params: Promise<{
+    imageId: string;
+  }>;
+}
+
+// POST /api/images/[imageId]/copy - Copy image (file, prompt, scores, tags) to a session
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { imageId } = await params;
+    const { target_session_id } = ImageTransferSchema.parse(await request.json());
+    
+    const image = await storage.getImage(imageId);
+    if (!image) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Image not found',
+      }, { status: 404 });
+    }
+    
+    // Verify ownership of both sessions
+    const sourceSession = await storage.getSession(image.session_id);
+    if (!sourceSession || sourceSession.created_by !== session.user.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Access denied',
+      }, { status: 403 });
+    }
+    
+    const targetSession = await storage.getSession(target_session_id);
+    if (!targetSession || targetSession.created_by !== session.user.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Target session not found or access denied',
+      }, { status: 404 });
+    }
+    
+    const [copy] = await storage.copyImages(image.session_id, [imageId], target_session_id);
+    
+    return NextResponse.json<ApiResponse<ImageRecord>>({
+      success: true,
+      data: copy,
+      message: `Image copied to ${targetSession.name}`,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid target session',
+      }, { status: 400 });
+    }
+    
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to copy image',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Move an image to another session (same ID, file relocated)
+ * @filepath src/app/api/images/[imageId]/move/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { storage } from '@/lib/storage';
+import { ApiResponse, ImageRecord } from '@/lib/types';
+import { ImageTransferSchema } from '@/lib/validations';
+import { clearThumbnailCache } from '@/lib/utils/thumbnail-cache';
+
+interface RouteParams {
+  params: Promise<{
+    imageId: string;
+  }>;
+}
+
+// POST /api/images/[imageId]/move - Move image to another session
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { imageId } = await params;
+    const { target_session_id } = ImageTransferSchema.parse(await request.json());
+    
+    const image = await storage.getImage(imageId);
+    if (!image) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Image not found',
+      }, { status: 404 });
+    }
+    
+    // Verify ownership of both sessions
+    const sourceSession = await storage.getSession(image.session_id);
+    if (!sourceSession || sourceSession.created_by !== session.user.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Access denied',
+      }, { status: 403 });
+    }
+    
+    const targetSession = await storage.getSession(target_session_id);
+    if (!targetSession || targetSession.created_by !== session.user.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Target session not found or access denied',
+      }, { status: 404 });
+    }
+    
+    if (target_session_id === image.session_id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Image is already in this session',
+      }, { status: 400 });
+    }
+    
+    const [moved] = await storage.moveImages(image.session_id, [imageId], target_session_id);
+    
+    // Cached thumbnails are dropped along with the old file location
+    await clearThumbnailCache(imageId);
+    
+    return NextResponse.json<ApiResponse<ImageRecord>>({
+      success: true,
+      data: moved,
+      message: `Image moved to ${targetSession.name}`,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid target session',
+      }, { status: 400 });
+    }
+    
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to move image',
+    }, { status: 500 });
+  }
+}
@@ -6,7 +6,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
-import { storage } from '@/lib/storage/json-storage';
+import { storage } from '@/lib/storage';
+import { dataPath } from '@/lib/storage/paths';
+import { ImageVersionService } from '@/lib/services/image-version-service';
+import { ImageInfo, readImageInfo } from '@/lib/utils/image-info';
+import { ImageHashes, computeImageHashes } from '@/lib/utils/image-hash';
+import appConfig from '@/lib/config/app-config.json';
 import { readFile, access } from 'fs/promises';
 import path from 'path';
 
@@ -47,14 +52,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       console.warn(`❌ File not found at stored path: ${filePath}`);
 
       // Second try: Construct expected path based on session structure
-      const expectedPath = path.join(
-        process.cwd(),
-        'data',
-        'sessions',
-        image.session_id,
-        'images',
-        image.filename
-      );
+      const expectedPath = dataPath('sessions', image.session_id, 'images', image.filename);
 
       try {
         await access(expectedPath);
@@ -70,8 +68,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
         // Third try: Search for the file in common locations
         const searchPaths = [
-          path.join(process.cwd(), 'data', 'sessions', image.session_id, image.filename),
-          path.join(process.cwd(), 'data', image.filename),
+          dataPath('sessions', image.session_id, image.filename),
+          dataPath(image.filename),
           path.join(process.cwd(), image.file_path.replace(/^\/+/, '')),
         ];
 
@@ -190,6 +188,96 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   }
 }
 
+// POST /api/images/[imageId] - Replace the image file, keeping the record and the previous file as a version
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { imageId } = await params;
+    
+    // Get image to verify ownership
+    const image = await storage.getImage(imageId);
+    if (!image) {
+      return NextResponse.json({
+        success: false,
+        error: 'Image not found',
+      }, { status: 404 });
+    }
+    
+    // Verify session ownership
+    const sessionData = await storage.getSession(image.session_id);
+    if (!sessionData || sessionData.created_by !== session.user.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Access denied',
+      }, { status: 403 });
+    }
+    
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    
+    if (!file) {
+      return NextResponse.json({
+        success: false,
+        error: 'No file provided',
+      }, { status: 400 });
+    }
+    
+    const ext = path.extname(file.name).slice(1).toLowerCase();
+    if (!appConfig.storage.allowedFormats.includes(ext)) {
+      return NextResponse.json({
+        success: false,
+        error: `Unsupported file type. Allowed: ${appConfig.storage.allowedFormats.join(', ')}`,
+      }, { status: 400 });
+    }
+    
+    if (file.size > appConfig.storage.maxFileSize) {
+      return NextResponse.json({
+        success: false,
+        error: 'File is too large',
+      }, { status: 413 });
+    }
+    
+    const buffer = Buffer.from(await file.arrayBuffer());
+    
+    // Reject non-images before touching the current file
+    let info: ImageInfo;
+    let hashes: ImageHashes;
+    try {
+      info = await readImageInfo(buffer);
+      hashes = await computeImageHashes(buffer);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unsupported or corrupt image file',
+      }, { status: 400 });
+    }
+    
+    const updatedImage = await new ImageVersionService().replace(
+      image,
+      { buffer, name: file.name, info, hashes },
+      session.user.id!
+    );
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedImage,
+    });
+  } catch (error) {
+    console.error('Replace error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to replace image',
+    }, { status: 500 });
+  }
+}
+
 // DELETE /api/images/[imageId] - Delete image
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
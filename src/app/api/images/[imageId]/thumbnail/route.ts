@@ -7,7 +7,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
-import { storage } from '@/lib/storage/json-storage';
+import { storage } from '@/lib/storage';
+import { THUMBNAIL_CACHE_DIR, clearThumbnailCache } from '@/lib/utils/thumbnail-cache';
 import sharp from 'sharp';
 import { readFile, writeFile, mkdir, access } from 'fs/promises';
 import path from 'path';
@@ -25,7 +26,7 @@ const THUMBNAIL_CONFIG = {
   QUALITY: 80,      // JPEG quality (80 is optimal balance)
   FORMAT: 'jpeg' as const, // Always use JPEG for thumbnails
   FIT: 'cover' as const,   // Cover the entire area
-  CACHE_DIR: './data/thumbnails',
+  CACHE_DIR: THUMBNAIL_CACHE_DIR,
   MAX_AGE: 7 * 24 * 60 * 60, // 7 days cache
 };
 
@@ -176,32 +177,14 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     const { imageId } = await params;
+    const cleared = await clearThumbnailCache(imageId);
     
-    // Find all cached thumbnails for this image
-    const cacheDir = THUMBNAIL_CONFIG.CACHE_DIR;
-    try {
-      const { readdir, unlink } = await import('fs/promises');
-      const files = await readdir(cacheDir);
-      const imageThumbnails = files.filter(file => file.startsWith(`${imageId}-`));
-      
-      await Promise.all(
-        imageThumbnails.map(file => 
-          unlink(path.join(cacheDir, file)).catch(error => 
-            console.warn(`⚠️ Failed to delete ${file}:`, error)
-          )
-        )
-      );
-
-      console.log(`🗑️ Cleared ${imageThumbnails.length} thumbnails for image ${imageId}`);
-      
-      return NextResponse.json({
-        success: true,
-        cleared: imageThumbnails.length,
-      });
-    } catch (error) {
-      console.warn('⚠️ Cache clear error:', error);
-      return NextResponse.json({ success: true, cleared: 0 });
-    }
+    console.log(`🗑️ Cleared ${cleared} thumbnails for image ${imageId}`);
+    
+    return NextResponse.json({
+      success: true,
+      cleared,
+    });
   } catch (error) {
     console.error('❌ Thumbnail cache clear error:', error);
     return NextResponse.json({ error: 'Failed to clear cache' }, { status: 500 });
@@ -0,0 +1,121 @@
+/**
+ * Access to previous versions of a replaced image
+ * @filepath src/app/api/images/[imageId]/versions/[versionId]/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { storage } from '@/lib/storage';
+import { toAbsolutePath } from '@/lib/storage/paths';
+import { ImageVersionService } from '@/lib/services/image-version-service';
+import { ApiResponse, ImageRecord } from '@/lib/types';
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+interface RouteParams {
+  params: Promise<{
+    imageId: string;
+    versionId: string;
+  }>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+// Load the image and check that the caller owns its session
+async function getOwnedImage(imageId: string, userId: string) {
+  const image = await storage.getImage(imageId);
+  if (!image) return { error: 'Image not found', status: 404 } as const;
+  
+  const sessionData = await storage.getSession(image.session_id);
+  if (!sessionData || sessionData.created_by !== userId) {
+    return { error: 'Access denied', status: 403 } as const;
+  }
+  
+  return { image } as const;
+}
+
+// GET /api/images/[imageId]/versions/[versionId] - Serve a previous file
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+    
+    const { imageId, versionId } = await params;
+    const result = await getOwnedImage(imageId, session.user.id!);
+    if (!result.image) {
+      return new NextResponse(result.error, { status: result.status });
+    }
+    
+    const version = result.image.versions?.find(v => v.id === versionId);
+    if (!version) {
+      return new NextResponse('Version not found', { status: 404 });
+    }
+    
+    const fileBuffer = await readFile(toAbsolutePath(version.file_path));
+    const ext = path.extname(version.file_path).toLowerCase();
+    
+    // Version files never change once written
+    return new NextResponse(fileBuffer, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[ext] || 'image/jpeg',
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        'Content-Length': fileBuffer.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Error serving image version:', error);
+    return new NextResponse('Version file not found', { status: 404 });
+  }
+}
+
+// POST /api/images/[imageId]/versions/[versionId] - Restore a previous file
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { imageId, versionId } = await params;
+    const result = await getOwnedImage(imageId, session.user.id!);
+    if (!result.image) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: result.error,
+      }, { status: result.status });
+    }
+    
+    if (!result.image.versions?.some(v => v.id === versionId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Version not found',
+      }, { status: 404 });
+    }
+    
+    const restored = await new ImageVersionService().restore(result.image, versionId, session.user.id!);
+    
+    return NextResponse.json<ApiResponse<ImageRecord>>({
+      success: true,
+      data: restored,
+      message: 'Previous version restored',
+    });
+  } catch (error) {
+    console.error('Restore error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore version',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Import job status and cancellation
+ * @filepath src/app/api/import/[jobId]/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { importJobs } from '@/lib/services/import-job-service';
+import { ApiResponse } from '@/lib/types';
+import { ImportJob } from '@/lib/types/import';
+
+interface RouteParams {
+  params: Promise<{
+    jobId: string;
+  }>;
+}
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/import/[jobId] - Current state of an import job
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { jobId } = await params;
+    const job = await importJobs.getJob(jobId);
+    
+    if (!job || job.user_id !== session.user.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Import job not found',
+      }, { status: 404 });
+    }
+    
+    return NextResponse.json<ApiResponse<ImportJob>>(
+      { success: true, data: job },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load import job',
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/import/[jobId] - Cancel a running import; what it created so far is removed
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { jobId } = await params;
+    const job = await importJobs.getJob(jobId);
+    
+    if (!job || job.user_id !== session.user.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Import job not found',
+      }, { status: 404 });
+    }
+    
+    if (!importJobs.cancel(jobId)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Import has already finished',
+      }, { status: 409 });
+    }
+    
+    console.log(`🛑 Cancelling import job ${jobId}`);
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Import is being cancelled',
+    }, { status: 202 });
+  } catch (error) {
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel import',
+    }, { status: 500 });
+  }
+}
@@ -1,13 +1,17 @@
 /**
- * Fixed import API endpoint
+ * Import API endpoint: saves the upload and starts a background import job
  * @filepath src/app/api/import/route.ts
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { importJobs } from '@/lib/services/import-job-service';
 import { ImportService } from '@/lib/services/import-service';
+import { ApiResponse } from '@/lib/types';
+import { ImportJob, ImportPreview } from '@/lib/types/import';
 import { ImportOptionsSchema } from '@/lib/validations';
+import { rm } from 'fs/promises';
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,12 +23,13 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
     
-    // Parse form data
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
-    const optionsStr = formData.get('options') as string;
+    // The file is the raw request body, streamed to disk by the import service;
+    // everything else comes in the query string
+    const params = request.nextUrl.searchParams;
+    const filename = params.get('filename');
+    const optionsStr = params.get('options') || '{}';
     
-    if (!file) {
+    if (!request.body || !filename) {
       return NextResponse.json({
         success: false,
         error: 'No file provided',
@@ -33,9 +38,10 @@ export async function POST(request: NextRequest) {
     
     // Validate file type
     const validTypes = ['application/json', 'application/zip', 'application/x-zip-compressed'];
-    const isValidType = validTypes.includes(file.type) || 
-                       file.name.endsWith('.json') || 
-                       file.name.endsWith('.zip');
+    const contentType = request.headers.get('content-type') || '';
+    const isValidType = validTypes.includes(contentType) || 
+                       filename.endsWith('.json') || 
+                       filename.endsWith('.zip');
     
     if (!isValidType) {
       return NextResponse.json({
@@ -47,13 +53,38 @@ export async function POST(request: NextRequest) {
     // Validate options
     const options = ImportOptionsSchema.parse(JSON.parse(optionsStr));
     
-    // Run import synchronously for now (can be made async with job queue later)
-    const importService = new ImportService();
-    const result = await importService.importData(file, options, session.user.id!);
+    const body = request.body;
+    const upload = { name: filename, stream: () => body };
     
-    return NextResponse.json(result);
-  } catch (error) {
+    // ?preview=true is a dry run: what the import would do, with nothing written
+    if (params.get('preview') === 'true') {
+      const filePath = await ImportService.saveUpload(upload);
+      try {
+        const preview = await new ImportService().previewData(filePath, filename, options, session.user.id!);
+        return NextResponse.json<ApiResponse<ImportPreview>>({ success: true, data: preview });
+      } finally {
+        await rm(filePath, { force: true });
+      }
+    }
+    
+    // Progress and the result follow on /api/progress/[jobId]
+    const job = await importJobs.start(upload, options, session.user.id!);
+    
+    return NextResponse.json<ApiResponse<ImportJob>>({
+      success: true,
+      data: job,
+      message: 'Import started',
+    }, { status: 202 });
+  } catch (error: any) {
     console.error('Import API error:', error);
+    
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid import file or options',
+      }, { status: 400 });
+    }
+    
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Import failed',
@@ -0,0 +1,147 @@
+/**
+ * SERVER-SENT EVENTS (SSE) FOR JOB PROGRESS
+ * Pushes progress bus events of one job (export, import, ...) to the browser
+ * @filepath src/app/api/progress/[jobId]/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { ExportJobService } from '@/lib/services/export-job-service';
+import { importJobs } from '@/lib/services/import-job-service';
+import { progressBus, type ProgressEvent } from '@/lib/utils/progress-bus';
+
+interface RouteParams {
+  params: Promise<{
+    jobId: string;
+  }>;
+}
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const KEEPALIVE_MS = 15 * 1000;
+const MAX_STREAM_MS = 10 * 60 * 1000;
+
+// Saved state of a job that is not on the progress bus (finished, or run by an earlier process)
+async function loadPersistedEvent(jobId: string): Promise<ProgressEvent | null> {
+  const exportJob = await new ExportJobService().getJob(jobId);
+  if (exportJob) {
+    return {
+      job_id: exportJob.id,
+      kind: 'export',
+      user_id: exportJob.user_id,
+      done: exportJob.status === 'complete' || exportJob.status === 'error',
+      data: exportJob,
+      timestamp: Date.now(),
+    };
+  }
+  
+  const importJob = await importJobs.getJob(jobId);
+  if (importJob) {
+    return {
+      job_id: importJob.id,
+      kind: 'import',
+      user_id: importJob.user_id,
+      done: !!importJob.result,
+      data: importJob,
+      timestamp: Date.now(),
+    };
+  }
+  
+  return null;
+}
+
+/**
+ * GET /api/progress/[jobId] - Stream progress events of a job
+ * A finished job that is no longer on the progress bus (e.g. after a restart) is sent once
+ * from its persisted state; unknown jobs are a 404.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+    
+    const userId = session.user.id!;
+    const { jobId } = await params;
+    
+    const latest = progressBus.getLatest(jobId);
+    if (latest && latest.user_id !== userId) {
+      return new NextResponse('Job not found', { status: 404 });
+    }
+    
+    let persisted: ProgressEvent | null = null;
+    if (!latest) {
+      persisted = await loadPersistedEvent(jobId);
+      if (!persisted || persisted.user_id !== userId) {
+        return new NextResponse('Job not found', { status: 404 });
+      }
+    }
+    
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+    
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        const send = (text: string) => {
+          if (!closed) controller.enqueue(encoder.encode(text));
+        };
+        
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled by the client
+          }
+        };
+        
+        const onEvent = (event: ProgressEvent) => {
+          // Jobs nobody else knows the ID of yet may be published after we subscribed
+          if (event.user_id !== userId) return;
+          
+          send(`data: ${JSON.stringify(event)}\n\n`);
+          if (event.done) close();
+        };
+        
+        console.log(`📡 SSE stream started for job: ${jobId}`);
+        
+        const unsubscribe = progressBus.subscribe(jobId, onEvent);
+        const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_MS);
+        const timeout = setTimeout(close, MAX_STREAM_MS);
+        
+        cleanup = () => {
+          unsubscribe();
+          clearInterval(keepalive);
+          clearTimeout(timeout);
+        };
+        
+        request.signal?.addEventListener('abort', () => {
+          console.log(`📡 SSE stream closed for job: ${jobId}`);
+          close();
+        });
+        
+        if (persisted?.done) onEvent(persisted);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+    
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('❌ SSE Progress stream error:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
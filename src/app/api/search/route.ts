@@ -0,0 +1,45 @@
+/**
+ * Full-text image search across the current user's sessions
+ * @filepath src/app/api/search/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { storage } from '@/lib/storage';
+import { ApiResponse, ImageSearchResult } from '@/lib/types';
+import { SearchQuerySchema } from '@/lib/validations';
+
+// GET /api/search?q=&limit= - Ranked matches in prompt, description, notes, tags and filename
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { searchParams } = new URL(request.url);
+    const { q, limit } = SearchQuerySchema.parse(Object.fromEntries(searchParams));
+    const results = await storage.searchImages(session.user.id, q, limit);
+    
+    return NextResponse.json<ApiResponse<ImageSearchResult[]>>({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid search query',
+      }, { status: 400 });
+    }
+    
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Search failed',
+    }, { status: 500 });
+  }
+}
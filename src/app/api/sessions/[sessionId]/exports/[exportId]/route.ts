@@ -0,0 +1,159 @@
+/**
+ * Download and delete finished exports of a session
+ * @filepath src/app/api/sessions/[sessionId]/exports/[exportId]/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { storage } from '@/lib/storage';
+import { toAbsolutePath } from '@/lib/storage/paths';
+import { ExportJobService } from '@/lib/services/export-job-service';
+import { ApiResponse } from '@/lib/types';
+import archiver from 'archiver';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+
+interface RouteParams {
+  params: Promise<{
+    sessionId: string;
+    exportId: string;
+  }>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  zip: 'application/zip',
+  webdataset: 'application/x-tar',
+};
+
+// Load the session and check that the caller owns it
+async function getOwnedSession(sessionId: string, userId: string) {
+  const sessionData = await storage.getSession(sessionId);
+  if (!sessionData) return { error: 'Session not found', status: 404 } as const;
+  if (sessionData.created_by !== userId) return { error: 'Forbidden', status: 403 } as const;
+  
+  return { sessionData } as const;
+}
+
+/**
+ * GET /api/sessions/[sessionId]/exports/[exportId] - Download an export artifact
+ * WebDataset exports are a directory: ?file=<shard or manifest.json> downloads one file,
+ * otherwise all shards are streamed as a single uncompressed tar
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+    
+    const { sessionId, exportId } = await params;
+    const result = await getOwnedSession(sessionId, session.user.id!);
+    if (!result.sessionData) {
+      return new NextResponse(result.error, { status: result.status });
+    }
+    
+    const record = result.sessionData.export_history?.find(r => r.id === exportId);
+    if (!record) {
+      return new NextResponse('Export not found', { status: 404 });
+    }
+    
+    const filename = ExportJobService.getDownloadName(result.sessionData, record);
+    
+    if (record.format === 'webdataset') {
+      const dir = toAbsolutePath(record.file_path);
+      const file = request.nextUrl.searchParams.get('file');
+      
+      if (file) {
+        const filePath = path.join(dir, path.basename(file));
+        const { size } = await stat(filePath);
+        const stream = Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+        
+        return new NextResponse(stream, {
+          headers: {
+            'Content-Type': file.endsWith('.json') ? 'application/json' : 'application/x-tar',
+            'Content-Disposition': `attachment; filename="${path.basename(file)}"`,
+            'Content-Length': size.toString(),
+            'Cache-Control': 'private, no-cache',
+          },
+        });
+      }
+      
+      // Shards are already tars; store them without compression
+      await stat(dir);
+      const archive = archiver('tar');
+      archive.directory(dir, false);
+      archive.finalize();
+      
+      return new NextResponse(Readable.toWeb(archive) as ReadableStream<Uint8Array>, {
+        headers: {
+          'Content-Type': CONTENT_TYPES.webdataset,
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'private, no-cache',
+        },
+      });
+    }
+    
+    const filePath = toAbsolutePath(record.file_path);
+    const { size } = await stat(filePath);
+    
+    // Stream from disk: full exports can be large
+    const stream = Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+    
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[record.format] || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': size.toString(),
+        'Cache-Control': 'private, no-cache',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving export:', error);
+    return new NextResponse('Export file not found', { status: 404 });
+  }
+}
+
+// DELETE /api/sessions/[sessionId]/exports/[exportId] - Delete an export and its file
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { sessionId, exportId } = await params;
+    const result = await getOwnedSession(sessionId, session.user.id!);
+    if (!result.sessionData) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: result.error,
+      }, { status: result.status });
+    }
+    
+    const deleted = await new ExportJobService().deleteExport(result.sessionData, exportId);
+    if (!deleted) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Export not found',
+      }, { status: 404 });
+    }
+    
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Export deleted',
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete export',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Bulk image actions for a session
+ * @filepath src/app/api/sessions/[sessionId]/images/bulk/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { storage } from '@/lib/storage';
+import { BulkImageService } from '@/lib/services/bulk-image-service';
+import { ApiResponse, BulkImageResult } from '@/lib/types';
+import { BulkImageSchema } from '@/lib/validations';
+import scoringFieldsConfig from '@/lib/config/scoring-fields.json';
+
+interface RouteParams {
+  params: Promise<{
+    sessionId: string;
+  }>;
+}
+
+// PATCH /api/sessions/[sessionId]/images/bulk - Apply one action to many images (all or nothing)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { sessionId } = await params;
+    
+    // Verify session ownership
+    const sessionData = await storage.getSession(sessionId);
+    if (!sessionData || sessionData.created_by !== session.user.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Session not found or access denied',
+      }, { status: 404 });
+    }
+    
+    const body = await request.json();
+    const { image_ids, filters, exclude_ids, action } = BulkImageSchema.parse(body);
+    
+    // Scores must use a configured field and stay within its range
+    if (action.type === 'set_score') {
+      const field = scoringFieldsConfig.fields.find(f => f.name === action.field);
+      if (!field) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: `Unknown scoring field: ${action.field}`,
+        }, { status: 400 });
+      }
+      if (action.value !== null && (action.value < field.min || action.value > field.max)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: `${field.name} must be between ${field.min} and ${field.max}`,
+        }, { status: 400 });
+      }
+    }
+    
+    // Moving or copying requires ownership of the target session too
+    if (action.type === 'move' || action.type === 'copy') {
+      const target = await storage.getSession(action.target_session_id);
+      if (!target || target.created_by !== session.user.id) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Target session not found or access denied',
+        }, { status: 404 });
+      }
+    }
+    
+    // "Select all" sends the active filters instead of IDs
+    const excluded = new Set(exclude_ids);
+    const imageIds = (image_ids ?? (await storage.listImages(sessionId, filters)).map(img => img.id))
+      .filter(id => !excluded.has(id));
+    
+    if (imageIds.length === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'No images selected',
+      }, { status: 400 });
+    }
+    
+    const result = await new BulkImageService().apply(sessionId, imageIds, action);
+    
+    if (!result.applied) {
+      return NextResponse.json<ApiResponse<BulkImageResult>>({
+        success: false,
+        error: 'No changes were applied',
+        data: result,
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json<ApiResponse<BulkImageResult>>({
+      success: true,
+      data: result,
+      message: `${result.results.length} images processed`,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid bulk action',
+      }, { status: 400 });
+    }
+    
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Bulk action failed',
+    }, { status: 500 });
+  }
+}
@@ -6,10 +6,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
-import { storage } from '@/lib/storage/json-storage';
-import { ApiResponse } from '@/lib/types';
-import { ImageUploadSchema } from '@/lib/validations';
+import { storage } from '@/lib/storage';
+import { dataPath } from '@/lib/storage/paths';
+import { ApiResponse, ImageRecord, ImageUploadResponse, PaginatedResponse } from '@/lib/types';
+import { ImageUploadSchema, ImageQuerySchema } from '@/lib/validations';
 import { generateFileName } from '@/lib/utils';
+import { ImageInfo, mergeGenerationSettings, readImageInfo } from '@/lib/utils/image-info';
+import { ImageHashes, computeImageHashes } from '@/lib/utils/image-hash';
+import { DuplicateService } from '@/lib/services/duplicate-service';
 import { writeFile, mkdir } from 'fs/promises';
 import path from 'path';
 
@@ -19,7 +23,7 @@ interface RouteParams {
   }>;
 }
 
-// GET /api/sessions/[sessionId]/images - List session images
+// GET /api/sessions/[sessionId]/images - List session images (paginated, sortable, filterable)
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await getServerSession(authOptions);
@@ -41,13 +45,22 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       }, { status: 404 });
     }
     
-    const images = await storage.listImages(sessionId);
+    const { searchParams } = new URL(request.url);
+    const query = ImageQuerySchema.parse(Object.fromEntries(searchParams));
+    const images = await storage.queryImages(sessionId, query);
     
-    return NextResponse.json<ApiResponse>({
+    return NextResponse.json<ApiResponse<PaginatedResponse<ImageRecord>>>({
       success: true,
       data: images,
     });
   } catch (error) {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid query parameters',
+      }, { status: 400 });
+    }
+    
     return NextResponse.json<ApiResponse>({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to fetch images',
@@ -95,20 +108,30 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     
     // Generate file name and paths
     const fileName = generateFileName(file.name);
-    const sessionPath = path.join(process.cwd(), 'data', 'sessions', sessionId);
+    const sessionPath = dataPath('sessions', sessionId);
     const imagesPath = path.join(sessionPath, 'images');
     const filePath = path.join(imagesPath, fileName);
     
     // Ensure directory exists
     await mkdir(imagesPath, { recursive: true });
     
-    // Convert file to buffer and save
+    // Convert file to buffer and read what the file itself tells us
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
-    await writeFile(filePath, buffer);
     
-    // Get image dimensions (simplified for MVP)
-    const dimensions = { width: 0, height: 0 }; // TODO: Implement actual dimension reading
+    let info: ImageInfo;
+    let hashes: ImageHashes;
+    try {
+      info = await readImageInfo(buffer);
+      hashes = await computeImageHashes(buffer);
+    } catch (error) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unsupported or corrupt image file',
+      }, { status: 400 });
+    }
+    
+    await writeFile(filePath, buffer);
     
     // Create image record
     const imageRecord = await storage.createImage({
@@ -116,11 +139,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       filename: fileName,
       original_filename: file.name,
       file_path: filePath,
-      file_size: file.size,
-      image_dimensions: dimensions,
+      file_size: buffer.length,
+      image_dimensions: { width: info.width, height: info.height },
+      mime_type: info.mime_type,
+      color_space: info.color_space,
+      ...hashes,
       prompt: validated.prompt,
       generator_used: validated.generator_used,
-      generation_settings: validated.generation_settings,
+      generation_settings: mergeGenerationSettings(info.generation_settings, validated.generation_settings),
       user_description: validated.user_description,
       tags: validated.tags,
       quality_rating: validated.quality_rating,
@@ -128,9 +154,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       uploaded_by: session.user.id!,
     });
     
-    return NextResponse.json<ApiResponse>({
+    // Uploads are never blocked; the client warns and the duplicates report can clean up
+    const duplicates = await new DuplicateService().findMatches(session.user.id!, sessionData, hashes, imageRecord.id);
+    
+    return NextResponse.json<ImageUploadResponse>({
       success: true,
       data: imageRecord,
+      duplicates,
     });
   } catch (error) {
     console.error('Upload error:', error);
@@ -6,7 +6,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
-import { storage } from '@/lib/storage/json-storage';
+import { storage } from '@/lib/storage';
+import { ExportJobService } from '@/lib/services/export-job-service';
 import { ApiResponse } from '@/lib/types';
 import { SessionSchema } from '@/lib/validations';
 
@@ -155,8 +156,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       await storage.deleteAllSessionImages(sessionId);
     }
     
-    // Delete session
+    // Delete session and its export files
     await storage.deleteSession(sessionId);
+    await new ExportJobService().removeSessionExports(sessionData);
     
     return NextResponse.json<ApiResponse>({
       success: true,
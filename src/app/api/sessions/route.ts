@@ -6,7 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
-import { storage } from '@/lib/storage/json-storage';
+import { storage } from '@/lib/storage';
 import { SessionSchema } from '@/lib/validations';
 import { ApiResponse } from '@/lib/types';
 
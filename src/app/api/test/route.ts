@@ -4,7 +4,7 @@
  */
 
 import { NextResponse } from 'next/server';
-import { storage } from '@/lib/storage/json-storage';
+import { storage } from '@/lib/storage';
 
 export async function GET() {
   try {
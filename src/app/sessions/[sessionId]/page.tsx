@@ -6,11 +6,13 @@
 'use client';
 
 import { useEffect } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { Header } from '@/components/layout/header';
 import { ImageUploadZone } from '@/components/upload/image-upload-zone';
 import { ImageGrid } from '@/components/sessions/image-grid';
 import { SessionHeader } from '@/components/sessions/session-header';
+import { ImageFilterBar } from '@/components/sessions/image-filter-bar';
+import { ExportHistory } from '@/components/sessions/export-history';
 import { useSessionStore } from '@/stores/session-store';
 import { Loader2 } from 'lucide-react';
 
@@ -18,19 +20,36 @@ export default function SessionDetailPage() {
   const params = useParams();
   const router = useRouter();
   const sessionId = params.sessionId as string;
+  const searchParams = useSearchParams();
+  const focusImageId = searchParams.get('image');
   
   const { 
     currentSession, 
     currentImages, 
+    imagesTotal,
+    imagesPage,
+    imagesPages,
+    loadingImages,
+    highlightedImageId,
     loading, 
     error, 
-    selectSession 
+    selectSession,
+    loadMoreImages,
+    revealImage,
   } = useSessionStore();
   
   useEffect(() => {
     selectSession(sessionId);
   }, [sessionId, selectSession]);
   
+  // Jump to an image linked from search (?image=<id>)
+  const loadedSessionId = currentSession?.id;
+  useEffect(() => {
+    if (focusImageId && loadedSessionId === sessionId) {
+      revealImage(focusImageId);
+    }
+  }, [focusImageId, loadedSessionId, sessionId, revealImage]);
+  
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -65,11 +84,21 @@ export default function SessionDetailPage() {
         <div className="mt-8 space-y-8">
           <ImageUploadZone sessionId={sessionId} />
           
+          <ExportHistory session={currentSession} />
+          
           <div>
             <h2 className="text-xl font-semibold mb-4 dark:text-white">
-              Images ({currentImages.length})
+              Images ({imagesTotal})
             </h2>
-            <ImageGrid images={currentImages} />
+            <ImageFilterBar />
+            <ImageGrid
+              images={currentImages}
+              hasMore={imagesPage < imagesPages}
+              loadingMore={loadingImages}
+              onLoadMore={loadMoreImages}
+              highlightedImageId={highlightedImageId}
+              totalCount={imagesTotal}
+            />
           </div>
         </div>
       </main>
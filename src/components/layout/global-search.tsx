@@ -0,0 +1,162 @@
+/**
+ * Header search box with ranked results across all sessions
+ * @filepath src/components/layout/global-search.tsx
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Input } from '@/components/ui/input';
+import { ImageSearchResult } from '@/lib/types';
+import { Loader2, Search } from 'lucide-react';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+export function GlobalSearch() {
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ImageSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  
+  // Debounced search; stale responses are dropped via the abort signal
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+    
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(q)}`, {
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        
+        if (data.success) {
+          setResults(data.data);
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Search failed:', error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+  
+  // Close the dropdown when clicking elsewhere
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+  
+  const openResult = (result: ImageSearchResult) => {
+    setOpen(false);
+    router.push(`/sessions/${result.image.session_id}?image=${result.image.id}`);
+  };
+  
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (event.key === 'Enter' && results[activeIndex]) {
+      event.preventDefault();
+      openResult(results[activeIndex]);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+  
+  const showDropdown = open && query.trim().length > 0;
+  
+  return (
+    <div ref={containerRef} className="relative w-72">
+      <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search prompts, notes, tags..."
+        className="pl-8 dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+      />
+      
+      {showDropdown && (
+        <div className="absolute z-50 mt-1 w-[28rem] right-0 max-h-96 overflow-y-auto rounded-md border bg-white dark:bg-gray-800 dark:border-gray-700 shadow-lg">
+          {loading && results.length === 0 && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          )}
+          
+          {!loading && results.length === 0 && (
+            <p className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">No matching images</p>
+          )}
+          
+          {results.map((result, index) => (
+            <button
+              key={result.image.id}
+              type="button"
+              onClick={() => openResult(result)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex w-full gap-3 px-3 py-2 text-left cursor-pointer ${
+                index === activeIndex ? 'bg-gray-100 dark:bg-gray-700' : ''
+              }`}
+            >
+              <img
+                src={`/api/images/${result.image.id}/thumbnail?w=96&h=96&q=70&v=${encodeURIComponent(result.image.filename)}`}
+                alt={result.image.original_filename}
+                className="h-12 w-12 flex-shrink-0 rounded object-cover bg-gray-100 dark:bg-gray-900"
+                loading="lazy"
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                  <span className="truncate">{result.session_name}</span>
+                  <span className="flex-shrink-0">{result.snippet_field.replace('_', ' ')}</span>
+                </div>
+                <p className="text-sm line-clamp-2 dark:text-gray-200">
+                  {result.snippet.map((part, i) => part.match ? (
+                    <mark key={i} className="bg-yellow-200 dark:bg-yellow-600/60 dark:text-white rounded-sm">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <span key={i}>{part.text}</span>
+                  ))}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
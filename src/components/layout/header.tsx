@@ -1,5 +1,5 @@
 /**
- * Header with theme toggle
+ * Header with global search and theme toggle
  * @filepath src/components/layout/header.tsx
  */
 
@@ -18,6 +18,7 @@ import {
 import { User, LogOut, Settings, Moon, Sun, Monitor } from 'lucide-react';
 import Link from 'next/link';
 import { useTheme } from '@/components/providers/theme-provider';
+import { GlobalSearch } from './global-search';
 
 export function Header() {
   const { data: session } = useSession();
@@ -32,6 +33,8 @@ export function Header() {
         </Link>
         
         <nav className="flex items-center space-x-6">
+          <GlobalSearch />
+          
           <Link href="/" className="text-sm font-medium hover:text-gray-600 dark:text-gray-300 dark:hover:text-gray-100">
             Sessions
           </Link>
@@ -0,0 +1,379 @@
+/**
+ * Toolbar for acting on the current image selection
+ * @filepath src/components/sessions/bulk-action-bar.tsx
+ */
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useScoringFields } from '@/hooks/use-scoring-fields';
+import { useSessionStore, ImageSelection } from '@/stores/session-store';
+import { BulkImageActionInput } from '@/lib/validations';
+import { toast } from 'sonner';
+import { ExportFilter, ExportMode } from '@/lib/types/export';
+import { filterFromGridSelection } from '@/lib/utils/export-filter';
+import { Copy, Download, FolderInput, Loader2, Pencil, Star, Tag, Trash, X } from 'lucide-react';
+import { SessionPickerDialog } from './session-picker-dialog';
+import { ExportMenuItems } from './export-menu-items';
+import { ExportProgressDialog } from './export-progress-dialog';
+
+type DialogMode = 'add_tags' | 'remove_tags' | 'set_score' | null;
+
+interface BulkActionBarProps {
+  selection: ImageSelection;
+  selectedCount: number;
+  totalCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDone: () => void;
+}
+
+const DIALOG_TITLES: Record<Exclude<DialogMode, null>, string> = {
+  add_tags: 'Add tags',
+  remove_tags: 'Remove tags',
+  set_score: 'Set AI score',
+};
+
+export function BulkActionBar({
+  selection,
+  selectedCount,
+  totalCount,
+  onSelectAll,
+  onClear,
+  onDone,
+}: BulkActionBarProps) {
+  const applyBulkAction = useSessionStore(state => state.applyBulkAction);
+  const currentSession = useSessionStore(state => state.currentSession);
+  const imageQuery = useSessionStore(state => state.imageQuery);
+  const scoringFields = useScoringFields();
+  
+  const [working, setWorking] = useState(false);
+  const [dialog, setDialog] = useState<DialogMode>(null);
+  const [tagsInput, setTagsInput] = useState('');
+  const [scoreField, setScoreField] = useState('');
+  const [scoreValue, setScoreValue] = useState('');
+  const [transfer, setTransfer] = useState<'move' | 'copy' | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  // run remounts the export dialog so every export starts from a clean state
+  const [exportRequest, setExportRequest] = useState<{ mode: ExportMode; filter: ExportFilter; run: number } | null>(null);
+  
+  const run = async (action: BulkImageActionInput) => {
+    setWorking(true);
+    try {
+      const result = await applyBulkAction(selection, action);
+      toast.success(`Updated ${result.results.length} images`);
+      setDialog(null);
+      setTransfer(null);
+      onDone();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Bulk action failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+  
+  const handleDelete = () => {
+    if (!confirm(`Delete ${selectedCount} images? This cannot be undone.`)) return;
+    run({ type: 'delete' });
+  };
+  
+  const handleDialogSubmit = () => {
+    if (dialog === 'add_tags' || dialog === 'remove_tags') {
+      const tags = tagsInput.split(',').map(t => t.trim()).filter(Boolean);
+      if (tags.length === 0) {
+        toast.error('Enter at least one tag');
+        return;
+      }
+      run({ type: dialog, tags });
+    } else if (dialog === 'set_score') {
+      if (!scoreField) {
+        toast.error('Choose a scoring field');
+        return;
+      }
+      run({ type: 'set_score', field: scoreField, value: scoreValue === '' ? null : Number(scoreValue) });
+    }
+  };
+  
+  // Exports exactly what is selected: explicit IDs, or the grid filters minus exclusions
+  const handleExport = (mode: ExportMode) => {
+    const { sort_by: _, order: __, ...filters } = imageQuery;
+    const filter = selection.allMatching
+      ? filterFromGridSelection(filters, selection.excludedIds)
+      : { image_ids: selection.ids };
+    setExportRequest({ mode, filter, run: (exportRequest?.run || 0) + 1 });
+    setExportOpen(true);
+  };
+  
+  const openDialog = (mode: DialogMode) => {
+    setTagsInput('');
+    setScoreValue('');
+    setDialog(mode);
+  };
+  
+  const selectedField = scoringFields.find(f => f.name === scoreField);
+  
+  return (
+    <>
+      <div className="sticky top-0 z-20 flex flex-wrap items-center gap-2 mb-4 p-3 rounded-lg border bg-white dark:bg-gray-800 dark:border-gray-700 shadow-sm">
+        <span className="text-sm font-medium dark:text-white">
+          {selectedCount} selected
+        </span>
+        
+        {!selection.allMatching && selectedCount < totalCount && (
+          <Button variant="link" size="sm" className="cursor-pointer" onClick={onSelectAll}>
+            Select all {totalCount} matching
+          </Button>
+        )}
+        
+        {selectedCount > 0 && (
+          <Button variant="ghost" size="sm" className="cursor-pointer dark:text-gray-300" onClick={onClear}>
+            Clear
+          </Button>
+        )}
+        
+        <div className="flex-1" />
+        
+        {working && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+        
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={working || selectedCount === 0} className="cursor-pointer">
+              <Tag className="h-4 w-4 mr-1" />
+              Tags
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="dark:bg-gray-800 dark:border-gray-700">
+            <DropdownMenuItem className="cursor-pointer" onClick={() => openDialog('add_tags')}>
+              Add tags…
+            </DropdownMenuItem>
+            <DropdownMenuItem className="cursor-pointer" onClick={() => openDialog('remove_tags')}>
+              Remove tags…
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={working || selectedCount === 0} className="cursor-pointer">
+              <Star className="h-4 w-4 mr-1" />
+              Rating
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="dark:bg-gray-800 dark:border-gray-700">
+            {[1, 2, 3, 4, 5].map(rating => (
+              <DropdownMenuItem
+                key={rating}
+                className="cursor-pointer"
+                onClick={() => run({ type: 'set_rating', quality_rating: rating })}
+              >
+                {'★'.repeat(rating)}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="cursor-pointer"
+              onClick={() => run({ type: 'set_rating', quality_rating: null })}
+            >
+              Clear rating
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={working || selectedCount === 0} className="cursor-pointer">
+              <Pencil className="h-4 w-4 mr-1" />
+              Set
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="dark:bg-gray-800 dark:border-gray-700">
+            <DropdownMenuLabel>Generator</DropdownMenuLabel>
+            {([
+              ['midjourney', 'Midjourney'],
+              ['dalle', 'DALL-E'],
+              ['stable-diffusion', 'Stable Diffusion'],
+              ['other', 'Other'],
+            ] as const).map(([value, label]) => (
+              <DropdownMenuItem
+                key={value}
+                className="cursor-pointer"
+                onClick={() => run({ type: 'set_generator', generator_used: value })}
+              >
+                {label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="cursor-pointer" onClick={() => openDialog('set_score')}>
+              AI score…
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={working || selectedCount === 0}
+          className="cursor-pointer"
+          onClick={() => setTransfer('move')}
+        >
+          <FolderInput className="h-4 w-4 mr-1" />
+          Move
+        </Button>
+        
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={working || selectedCount === 0}
+          className="cursor-pointer"
+          onClick={() => setTransfer('copy')}
+        >
+          <Copy className="h-4 w-4 mr-1" />
+          Copy
+        </Button>
+        
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={working || selectedCount === 0} className="cursor-pointer">
+              <Download className="h-4 w-4 mr-1" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="dark:bg-gray-800 dark:border-gray-700">
+            <ExportMenuItems onSelect={handleExport} />
+          </DropdownMenuContent>
+        </DropdownMenu>
+        
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={working || selectedCount === 0}
+          className="cursor-pointer text-red-600 dark:text-red-400"
+          onClick={handleDelete}
+        >
+          <Trash className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+        
+        <Button variant="ghost" size="icon" className="cursor-pointer dark:text-gray-300" onClick={onDone} title="Exit selection">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-white">{dialog && DIALOG_TITLES[dialog]}</DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              Applies to {selectedCount} selected images
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="grid gap-4 py-2">
+            {(dialog === 'add_tags' || dialog === 'remove_tags') && (
+              <div className="grid gap-2">
+                <Label htmlFor="bulk-tags" className="dark:text-gray-300">Tags (comma separated)</Label>
+                <Input
+                  id="bulk-tags"
+                  value={tagsInput}
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  placeholder="cat, yawning"
+                  className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+              </div>
+            )}
+            
+            {dialog === 'set_score' && (
+              <>
+                <div className="grid gap-2">
+                  <Label className="dark:text-gray-300">Field</Label>
+                  <Select value={scoreField} onValueChange={setScoreField}>
+                    <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+                      <SelectValue placeholder="Choose a field" />
+                    </SelectTrigger>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                      {scoringFields.map(field => (
+                        <SelectItem key={field.name} value={field.name}>
+                          {field.name.replace(/_/g, ' ')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="bulk-score" className="dark:text-gray-300">
+                    Value {selectedField && `(${selectedField.min}–${selectedField.max}, empty to clear)`}
+                  </Label>
+                  <Input
+                    id="bulk-score"
+                    type="number"
+                    step="0.01"
+                    min={selectedField?.min}
+                    max={selectedField?.max}
+                    value={scoreValue}
+                    onChange={(e) => setScoreValue(e.target.value)}
+                    className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDialog(null)}
+              className="dark:border-gray-600 dark:hover:bg-gray-700 cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleDialogSubmit} disabled={working} className="cursor-pointer">
+              {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      <SessionPickerDialog
+        open={transfer !== null}
+        onOpenChange={(open) => !open && setTransfer(null)}
+        title={transfer === 'copy' ? 'Copy to session' : 'Move to session'}
+        description={`${transfer === 'copy' ? 'Copies' : 'Moves'} ${selectedCount} selected images`}
+        confirmLabel={transfer === 'copy' ? 'Copy' : 'Move'}
+        excludeSessionId={transfer === 'move' ? currentSession?.id : undefined}
+        working={working}
+        onConfirm={(targetSessionId) => run({ type: transfer!, target_session_id: targetSessionId })}
+      />
+      
+      {exportRequest && currentSession && (
+        <ExportProgressDialog
+          key={exportRequest.run}
+          open={exportOpen}
+          onOpenChange={setExportOpen}
+          sessionId={currentSession.id}
+          exportMode={exportRequest.mode}
+          sessionName={currentSession.name}
+          initialFilter={exportRequest.filter}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Column picker and delimiter choice for CSV exports
+ * @filepath src/components/sessions/csv-export-options.tsx
+ */
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CsvDelimiter, CsvExportOptions } from '@/lib/types/export';
+import { CSV_COLUMNS, CSV_DELIMITERS } from '@/lib/utils/csv-export';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+
+interface CsvExportOptionsProps {
+  value: CsvExportOptions;
+  onChange: (value: CsvExportOptions) => void;
+}
+
+export function CsvExportOptionsForm({ value, onChange }: CsvExportOptionsProps) {
+  const labelOf = (key: string) => CSV_COLUMNS.find(column => column.key === key)?.label || key;
+  const available = CSV_COLUMNS.filter(column => !value.columns.includes(column.key));
+  
+  const setColumns = (columns: string[]) => onChange({ ...value, columns });
+  
+  const move = (index: number, offset: number) => {
+    const columns = [...value.columns];
+    const [column] = columns.splice(index, 1);
+    columns.splice(index + offset, 0, column);
+    setColumns(columns);
+  };
+  
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="dark:text-gray-200 mb-2 block">Delimiter</Label>
+        <Select
+          value={value.delimiter}
+          onValueChange={(delimiter) => onChange({ ...value, delimiter: delimiter as CsvDelimiter })}
+        >
+          <SelectTrigger className="w-48 dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+            {CSV_DELIMITERS.map(delimiter => (
+              <SelectItem key={delimiter.label} value={delimiter.value}>
+                {delimiter.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      
+      <div>
+        <Label className="dark:text-gray-200 mb-2 block">Columns ({value.columns.length})</Label>
+        <ul className="max-h-56 overflow-y-auto rounded-md border divide-y dark:border-gray-700 dark:divide-gray-700">
+          {value.columns.map((key, index) => (
+            <li key={key} className="flex items-center gap-1 px-2 py-1 text-sm dark:text-gray-200">
+              <span className="flex-1 truncate">{labelOf(key)}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+                className="h-7 w-7 p-0 cursor-pointer"
+                title="Move up"
+              >
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={index === value.columns.length - 1}
+                onClick={() => move(index, 1)}
+                className="h-7 w-7 p-0 cursor-pointer"
+                title="Move down"
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={value.columns.length === 1}
+                onClick={() => setColumns(value.columns.filter(column => column !== key))}
+                className="h-7 w-7 p-0 cursor-pointer"
+                title="Remove column"
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </div>
+      
+      {available.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {available.map(column => (
+            <Button
+              key={column.key}
+              variant="outline"
+              size="sm"
+              onClick={() => setColumns([...value.columns, column.key])}
+              className="h-7 text-xs cursor-pointer"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              {column.label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * Delta export settings: only images added or changed since an earlier export, plus deletions
+ * @filepath src/components/sessions/delta-options.tsx
+ */
+
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { ExportRecord } from '@/lib/types';
+import { DeltaOptions } from '@/lib/types/export';
+import { format } from 'date-fns';
+
+const LATEST = 'latest';
+
+interface DeltaOptionsProps {
+  // null when the export covers everything
+  value: DeltaOptions | null;
+  onChange: (value: DeltaOptions | null) => void;
+  history: ExportRecord[];
+}
+
+export function DeltaOptionsForm({ value, onChange, history }: DeltaOptionsProps) {
+  if (history.length === 0) return null;
+  
+  const newestFirst = [...history].reverse();
+  
+  return (
+    <div className="space-y-3 border-t pt-4 dark:border-gray-700">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="delta-enabled" className="dark:text-gray-200">Only changes since an earlier export</Label>
+        <Switch
+          id="delta-enabled"
+          checked={!!value}
+          onCheckedChange={(enabled) => onChange(enabled ? {} : null)}
+          className="cursor-pointer"
+        />
+      </div>
+      
+      {value && (
+        <>
+          <Select
+            value={value.baseline_export_id || LATEST}
+            onValueChange={(id) => onChange({ baseline_export_id: id === LATEST ? undefined : id })}
+          >
+            <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+              <SelectItem value={LATEST}>Latest export</SelectItem>
+              {newestFirst.map(record => (
+                <SelectItem key={record.id} value={record.id}>
+                  {format(new Date(record.exported_at), 'MMM d, yyyy HH:mm')} · {record.format} · {record.image_count} images
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Images deleted since then are listed in the export&apos;s metadata
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+/**
+ * Review exact and near duplicate images and keep, merge or delete them
+ * @filepath src/components/sessions/duplicates-dialog.tsx
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DuplicateGroup, DuplicateReport } from '@/lib/types';
+import { formatBytes } from '@/lib/utils';
+import { useSessionStore } from '@/stores/session-store';
+import { toast } from 'sonner';
+import { Check, Loader2, Merge, Trash } from 'lucide-react';
+
+type Scope = 'session' | 'all';
+
+interface DuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string;
+}
+
+export function DuplicatesDialog({ open, onOpenChange, sessionId }: DuplicatesDialogProps) {
+  const refreshCurrentSession = useSessionStore(state => state.refreshCurrentSession);
+  
+  const [scope, setScope] = useState<Scope>('session');
+  const [report, setReport] = useState<DuplicateReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [workingGroupId, setWorkingGroupId] = useState<string | null>(null);
+  const [changed, setChanged] = useState(false);
+  
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = scope === 'session' ? `?session_id=${sessionId}` : '';
+      const response = await fetch(`/api/duplicates${params}`);
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to find duplicates');
+      }
+      
+      setReport(data.data);
+      setKeepers({});
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to find duplicates');
+    } finally {
+      setLoading(false);
+    }
+  }, [scope, sessionId]);
+  
+  useEffect(() => {
+    if (open) loadReport();
+  }, [open, loadReport]);
+  
+  // Groups are sorted oldest first, so the first image is kept unless the user picks another
+  const keeperOf = (group: DuplicateGroup) => keepers[group.id] || group.images[0].image.id;
+  
+  const removeGroup = (groupId: string) => {
+    setReport(prev => prev && { ...prev, groups: prev.groups.filter(g => g.id !== groupId) });
+  };
+  
+  const handleResolve = async (group: DuplicateGroup, action: 'merge' | 'delete') => {
+    const keepId = keeperOf(group);
+    const others = group.images.filter(({ image }) => image.id !== keepId);
+    
+    if (action === 'delete' && !confirm(`Delete ${others.length} duplicate images? This cannot be undone.`)) {
+      return;
+    }
+    
+    setWorkingGroupId(group.id);
+    try {
+      const response = await fetch('/api/duplicates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          keep_id: keepId,
+          image_ids: others.map(({ image }) => image.id),
+        }),
+      });
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to resolve duplicates');
+      }
+      
+      toast.success(data.message);
+      removeGroup(group.id);
+      setChanged(true);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve duplicates');
+    } finally {
+      setWorkingGroupId(null);
+    }
+  };
+  
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && changed) {
+      refreshCurrentSession();
+      setChanged(false);
+    }
+    onOpenChange(nextOpen);
+  };
+  
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto dark:bg-gray-800 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">Find Duplicates</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Identical files and visually near-identical images. Pick the image to keep in each group.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={scope} onValueChange={(value) => setScope(value as Scope)}>
+            <SelectTrigger className="w-48 dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+              <SelectItem value="session">This session</SelectItem>
+              <SelectItem value="all">All my sessions</SelectItem>
+            </SelectContent>
+          </Select>
+          
+          {report && !loading && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {report.groups.length} groups in {report.scanned} images
+              {report.unreadable > 0 && ` · ${report.unreadable} unreadable`}
+            </span>
+          )}
+        </div>
+        
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-500 dark:text-gray-400">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Comparing images...
+          </div>
+        ) : report && report.groups.length === 0 ? (
+          <p className="py-12 text-center text-gray-500 dark:text-gray-400">No duplicates found</p>
+        ) : (
+          <div className="space-y-4">
+            {report?.groups.map(group => {
+              const keepId = keeperOf(group);
+              const working = workingGroupId === group.id;
+              
+              return (
+                <div key={group.id} className="rounded-lg border p-3 dark:border-gray-700">
+                  <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <Badge variant={group.kind === 'exact' ? 'destructive' : 'secondary'}>
+                      {group.kind === 'exact' ? 'Exact duplicate' : `Similar (≤ ${group.max_distance} bits)`}
+                    </Badge>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      {group.images.length} images
+                    </span>
+                    
+                    <div className="flex-1" />
+                    
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={working}
+                      onClick={() => removeGroup(group.id)}
+                      className="cursor-pointer dark:text-gray-300"
+                      title="Not duplicates - keep all images"
+                    >
+                      Keep all
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={working}
+                      onClick={() => handleResolve(group, 'merge')}
+                      className="cursor-pointer"
+                      title="Copy tags, scores, rating and notes to the kept image, then delete the others"
+                    >
+                      {working ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Merge className="h-4 w-4 mr-1" />}
+                      Merge
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={working}
+                      onClick={() => handleResolve(group, 'delete')}
+                      className="cursor-pointer text-red-600 dark:text-red-400"
+                    >
+                      <Trash className="h-4 w-4 mr-1" />
+                      Delete others
+                    </Button>
+                  </div>
+                  
+                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                    {group.images.map(({ image, session_name }) => {
+                      const kept = image.id === keepId;
+                      
+                      return (
+                        <button
+                          key={image.id}
+                          type="button"
+                          onClick={() => setKeepers(prev => ({ ...prev, [group.id]: image.id }))}
+                          className={`relative text-left rounded-md border-2 p-1 cursor-pointer transition-colors ${
+                            kept
+                              ? 'border-green-500'
+                              : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+                          }`}
+                        >
+                          <img
+                            src={`/api/images/${image.id}/thumbnail?w=200&h=200&q=70&v=${encodeURIComponent(image.filename)}`}
+                            alt={image.original_filename}
+                            loading="lazy"
+                            className="w-full aspect-square object-cover rounded"
+                          />
+                          {kept && (
+                            <span className="absolute top-2 left-2 flex items-center rounded bg-green-600 px-1.5 py-0.5 text-xs text-white">
+                              <Check className="h-3 w-3 mr-0.5" />
+                              Keep
+                            </span>
+                          )}
+                          <div className="mt-1 space-y-0.5 text-xs text-gray-600 dark:text-gray-400">
+                            <div className="truncate font-medium dark:text-gray-200">{image.original_filename}</div>
+                            {scope === 'all' && <div className="truncate">{session_name}</div>}
+                            <div>
+                              {image.image_dimensions.width}×{image.image_dimensions.height} · {formatBytes(image.file_size)}
+                            </div>
+                            <div>
+                              {image.quality_rating ? '★'.repeat(image.quality_rating) : 'Unrated'}
+                              {image.tags.length > 0 && ` · ${image.tags.length} tags`}
+                            </div>
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
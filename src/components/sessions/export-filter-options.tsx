@@ -0,0 +1,198 @@
+/**
+ * Chooses which images of a session go into an export
+ * @filepath src/components/sessions/export-filter-options.tsx
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useScoringFields } from '@/hooks/use-scoring-fields';
+import { ImageRecord } from '@/lib/types';
+import { ExportFilter } from '@/lib/types/export';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+
+const ANY = 'any';
+
+interface ExportFilterOptionsProps {
+  value: ExportFilter;
+  onChange: (value: ExportFilter) => void;
+}
+
+// Date inputs work in local days; the filter stores inclusive ISO timestamps
+const toDateInput = (iso?: string) => iso ? format(new Date(iso), 'yyyy-MM-dd') : '';
+const fromDateInput = (day: string, endOfDay: boolean) =>
+  day ? new Date(`${day}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString() : undefined;
+
+const parseNumber = (text: string) => text === '' ? undefined : Number(text);
+
+export function ExportFilterOptions({ value, onChange }: ExportFilterOptionsProps) {
+  const scoringFields = useScoringFields();
+  const [tagsText, setTagsText] = useState((value.tags || []).join(', '));
+  
+  const setTags = (text: string) => {
+    setTagsText(text);
+    const tags = text.split(',').map(tag => tag.trim()).filter(Boolean);
+    onChange({ ...value, tags: tags.length ? tags : undefined });
+  };
+  
+  const setScore = (field: string, bound: 'min' | 'max', text: string) => {
+    const scores = { ...value.scores };
+    const range = { ...scores[field], [bound]: parseNumber(text) };
+    if (range.min === undefined && range.max === undefined) {
+      delete scores[field];
+    } else {
+      scores[field] = range;
+    }
+    onChange({ ...value, scores: Object.keys(scores).length ? scores : undefined });
+  };
+  
+  const selectedCount = value.image_ids?.length || 0;
+  
+  return (
+    <div className="space-y-3 border-t pt-4 dark:border-gray-700">
+      <Label className="dark:text-gray-200 block">Images</Label>
+      
+      {selectedCount > 0 && (
+        <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+          <span>Only the {selectedCount} selected images</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, image_ids: undefined })}
+            className="h-7 cursor-pointer"
+          >
+            <X className="h-3.5 w-3.5 mr-1" />
+            Whole session
+          </Button>
+        </div>
+      )}
+      {!!value.exclude_ids?.length && (
+        <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+          <span>{value.exclude_ids.length} deselected images are left out</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, exclude_ids: undefined })}
+            className="h-7 cursor-pointer"
+          >
+            <X className="h-3.5 w-3.5 mr-1" />
+            Include
+          </Button>
+        </div>
+      )}
+      
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          value={value.min_rating ? String(value.min_rating) : ANY}
+          onValueChange={(rating) => onChange({ ...value, min_rating: rating === ANY ? undefined : Number(rating) })}
+        >
+          <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+            <SelectItem value={ANY}>Any rating</SelectItem>
+            {[1, 2, 3, 4, 5].map(rating => (
+              <SelectItem key={rating} value={String(rating)}>
+                {rating}+ stars
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        
+        <Select
+          value={value.generators?.[0] || ANY}
+          onValueChange={(generator) => onChange({
+            ...value,
+            generators: generator === ANY ? undefined : [generator as ImageRecord['generator_used']],
+          })}
+        >
+          <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+            <SelectItem value={ANY}>All generators</SelectItem>
+            <SelectItem value="midjourney">Midjourney</SelectItem>
+            <SelectItem value="dalle">DALL-E</SelectItem>
+            <SelectItem value="stable-diffusion">Stable Diffusion</SelectItem>
+            <SelectItem value="other">Other</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      
+      <div className="flex gap-2">
+        <Input
+          value={tagsText}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma separated"
+          className="flex-1 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        />
+        <Select
+          value={value.tag_match || 'any'}
+          onValueChange={(match) => onChange({ ...value, tag_match: match as ExportFilter['tag_match'] })}
+        >
+          <SelectTrigger className="w-28 dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+            <SelectItem value="any">Any tag</SelectItem>
+            <SelectItem value="all">All tags</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="uploaded-from" className="text-xs dark:text-gray-300">Uploaded from</Label>
+          <Input
+            id="uploaded-from"
+            type="date"
+            value={toDateInput(value.uploaded_from)}
+            onChange={(e) => onChange({ ...value, uploaded_from: fromDateInput(e.target.value, false) })}
+            className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+        <div>
+          <Label htmlFor="uploaded-to" className="text-xs dark:text-gray-300">Uploaded until</Label>
+          <Input
+            id="uploaded-to"
+            type="date"
+            value={toDateInput(value.uploaded_to)}
+            onChange={(e) => onChange({ ...value, uploaded_to: fromDateInput(e.target.value, true) })}
+            className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+      </div>
+      
+      <div className="space-y-1">
+        {scoringFields.map(field => (
+          <div key={field.name} className="flex items-center gap-2">
+            <span className="flex-1 text-xs capitalize dark:text-gray-300">{field.name.replace(/_/g, ' ')}</span>
+            <Input
+              type="number"
+              step={0.1}
+              min={field.min}
+              max={field.max}
+              placeholder="min"
+              value={value.scores?.[field.name]?.min ?? ''}
+              onChange={(e) => setScore(field.name, 'min', e.target.value)}
+              className="w-20 h-8 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+            <Input
+              type="number"
+              step={0.1}
+              min={field.min}
+              max={field.max}
+              placeholder="max"
+              value={value.scores?.[field.name]?.max ?? ''}
+              onChange={(e) => setScore(field.name, 'max', e.target.value)}
+              className="w-20 h-8 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Past exports of a session with re-download and delete
+ * @filepath src/components/sessions/export-history.tsx
+ */
+
+import { useState } from 'react';
+import { Session } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatBytes } from '@/lib/utils';
+import { describeExportFilter } from '@/lib/utils/export-filter';
+import { useSessionStore } from '@/stores/session-store';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Download, Loader2, Trash } from 'lucide-react';
+
+interface ExportHistoryProps {
+  session: Session;
+}
+
+export function ExportHistory({ session }: ExportHistoryProps) {
+  const refreshSessionDetails = useSessionStore(state => state.refreshSessionDetails);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  
+  const records = [...(session.export_history || [])].reverse();
+  if (records.length === 0) return null;
+  
+  const handleDelete = async (recordId: string) => {
+    if (!confirm('Delete this export file?')) return;
+    
+    setDeletingId(recordId);
+    try {
+      const response = await fetch(`/api/sessions/${session.id}/exports/${recordId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete export');
+      }
+      
+      toast.success('Export deleted');
+      await refreshSessionDetails();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete export');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+  
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border dark:border-gray-700 p-6">
+      <h2 className="text-lg font-semibold mb-4 dark:text-white">
+        Exports ({records.length})
+      </h2>
+      
+      <ul className="divide-y dark:divide-gray-700">
+        {records.map(record => (
+          <li key={record.id} className="flex items-center gap-3 py-2">
+            <Badge variant="secondary" className="uppercase">{record.format}</Badge>
+            {record.delta && <Badge variant="outline">Delta</Badge>}
+            
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="dark:text-gray-200">
+                {format(new Date(record.exported_at), 'MMM d, yyyy HH:mm')}
+              </div>
+              <div className="text-gray-500 dark:text-gray-400">
+                {record.image_count} images
+                {record.file_size !== undefined && ` · ${formatBytes(record.file_size)}`}
+                {record.shard_count !== undefined && ` · ${record.shard_count} shards`}
+                {record.delta && ` · ${record.delta.deleted_count} deleted`}
+              </div>
+              {record.filter && (
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={describeExportFilter(record.filter)}>
+                  {describeExportFilter(record.filter)}
+                </div>
+              )}
+            </div>
+            
+            <Button variant="outline" size="sm" asChild className="cursor-pointer">
+              <a href={`/api/sessions/${session.id}/exports/${record.id}`} download>
+                <Download className="h-4 w-4 mr-1" />
+                Download
+              </a>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={deletingId === record.id}
+              onClick={() => handleDelete(record.id)}
+              className="cursor-pointer text-red-600 dark:text-red-400"
+              title="Delete export"
+            >
+              {deletingId === record.id ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Trash className="h-4 w-4" />
+              )}
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
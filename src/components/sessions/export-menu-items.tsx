@@ -0,0 +1,48 @@
+/**
+ * Export mode entries shared by the session header and the image selection toolbar
+ * @filepath src/components/sessions/export-menu-items.tsx
+ */
+
+import { DropdownMenuItem } from '@/components/ui/dropdown-menu';
+import { ExportMode } from '@/lib/types/export';
+import {
+  Boxes,
+  Database,
+  FileJson,
+  FileSpreadsheet,
+  FolderArchive,
+  Package,
+  LucideIcon,
+} from 'lucide-react';
+
+const EXPORT_MENU: { mode: ExportMode; label: string; hint: string; icon: LucideIcon }[] = [
+  { mode: 'json', label: 'JSON Only', hint: 'Metadata only', icon: FileJson },
+  { mode: 'csv', label: 'CSV', hint: 'Choose columns', icon: FileSpreadsheet },
+  { mode: 'full', label: 'Full Export', hint: 'ZIP with images', icon: FolderArchive },
+  { mode: 'full_csv', label: 'Full Export + CSV', hint: 'ZIP with metadata.csv', icon: FolderArchive },
+  { mode: 'hf_imagefolder', label: 'Hugging Face', hint: 'imagefolder layout', icon: Database },
+  { mode: 'coco', label: 'COCO', hint: 'annotations.json', icon: Boxes },
+  { mode: 'webdataset', label: 'WebDataset', hint: '.tar shards', icon: Package },
+];
+
+interface ExportMenuItemsProps {
+  onSelect: (mode: ExportMode) => void;
+}
+
+export function ExportMenuItems({ onSelect }: ExportMenuItemsProps) {
+  return (
+    <>
+      {EXPORT_MENU.map(({ mode, label, hint, icon: Icon }) => (
+        <DropdownMenuItem
+          key={mode}
+          onClick={() => onSelect(mode)}
+          className="cursor-pointer dark:hover:bg-gray-700"
+        >
+          <Icon className="h-4 w-4 mr-2" />
+          {label}
+          <span className="ml-auto pl-4 text-xs text-gray-500 dark:text-gray-400">{hint}</span>
+        </DropdownMenuItem>
+      ))}
+    </>
+  );
+}
@@ -1,6 +1,6 @@
 /**
  * REAL-TIME EXPORT PROGRESS DIALOG
- * Shows live progress updates using Server-Sent Events
+ * Starts a background export job and follows its progress over Server-Sent Events
  * @filepath src/components/sessions/export-progress-dialog.tsx
  */
 
@@ -15,25 +15,88 @@ import {
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { 
   CheckCircle, 
   AlertCircle, 
   Loader2, 
   Download,
-  X,
   Clock,
   ImageIcon,
   FileText,
 } from 'lucide-react';
 import { toast } from 'sonner';
-import type { ExportProgressData } from '@/lib/utils/progress-store';
+import { useSessionStore } from '@/stores/session-store';
+import type {
+  CsvExportOptions,
+  DeltaOptions,
+  ExportFilter,
+  ExportJob,
+  ExportMode,
+  ImageTransformOptions,
+  SplitOptions,
+} from '@/lib/types/export';
+import type { ProgressEvent } from '@/lib/utils/progress-bus';
+import { DEFAULT_CSV_OPTIONS } from '@/lib/utils/csv-export';
+import { EXPORT_CONFIG } from '@/lib/config/export-config';
+import { DEFAULT_SPLIT_CONFIG } from '@/lib/utils/splits';
+import { isEmptyFilter } from '@/lib/utils/export-filter';
+import { CsvExportOptionsForm } from './csv-export-options';
+import { DeltaOptionsForm } from './delta-options';
+import { ExportFilterOptions } from './export-filter-options';
+import { SplitOptionsForm, splitRatiosValid } from './split-options';
+import { DEFAULT_TRANSFORM_OPTIONS, TransformOptionsForm, transformOptionsValid } from './transform-options';
+
+const POLL_INTERVAL_MS = 1000;
+const CSV_OPTIONS_KEY = 'csv-export-options';
+
+const MODE_DESCRIPTIONS: Record<ExportMode, string> = {
+  json: 'Metadata only',
+  csv: 'CSV table of image metadata',
+  full: 'Full ZIP with images',
+  full_csv: 'ZIP with images and metadata.csv',
+  hf_imagefolder: 'Hugging Face imagefolder (metadata.jsonl)',
+  coco: 'COCO-style annotations.json with images',
+  webdataset: 'WebDataset .tar shards with a manifest',
+};
+
+const usesCsv = (mode: ExportMode) => mode === 'csv' || mode === 'full_csv';
+const isZip = (mode: ExportMode) => ['full', 'full_csv', 'hf_imagefolder', 'coco'].includes(mode);
+
+const exportDownloadUrl = (sessionId: string, job: ExportJob) =>
+  `/api/sessions/${sessionId}/exports/${job.record_id}`;
+
+// Auto-download for better UX
+function downloadExport(sessionId: string, job: ExportJob) {
+  const a = document.createElement('a');
+  a.href = exportDownloadUrl(sessionId, job);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+
+  toast.success('Export completed! Download started');
+}
+
+// Last used columns and delimiter, as long as they still exist
+function loadCsvOptions(): CsvExportOptions {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CSV_OPTIONS_KEY) || 'null');
+    if (stored?.columns?.length && stored.delimiter) return stored;
+  } catch {
+    // Ignore unreadable settings
+  }
+  return DEFAULT_CSV_OPTIONS;
+}
 
 interface ExportProgressDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   sessionId: string;
-  exportMode: 'json' | 'full';
+  exportMode: ExportMode;
   sessionName: string;
+  // Preset selection, e.g. images picked in the grid
+  initialFilter?: ExportFilter;
 }
 
 export function ExportProgressDialog({
@@ -42,145 +105,166 @@ export function ExportProgressDialog({
   sessionId,
   exportMode,
   sessionName,
+  initialFilter,
 }: ExportProgressDialogProps) {
-  const [progress, setProgress] = useState<ExportProgressData | null>(null);
-  const [isComplete, setIsComplete] = useState(false);
-  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const refreshSessionDetails = useSessionStore(state => state.refreshSessionDetails);
+  const currentSession = useSessionStore(state => state.currentSession);
+  const storedSplits = currentSession?.id === sessionId ? currentSession.splits : undefined;
+  const [job, setJob] = useState<ExportJob | null>(null);
+  const [startError, setStartError] = useState<string | null>(null);
+  // The job starts once the user has confirmed the options
+  const [started, setStarted] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [csvOptions, setCsvOptions] = useState<CsvExportOptions>(DEFAULT_CSV_OPTIONS);
+  const [shardSize, setShardSize] = useState(EXPORT_CONFIG.WEBDATASET_SHARD_SIZE);
+  // Sessions that were split before keep splitting by default
+  const [splitEnabled, setSplitEnabled] = useState(!!storedSplits);
+  const [splitOptions, setSplitOptions] = useState<SplitOptions>({
+    ...(storedSplits?.config || DEFAULT_SPLIT_CONFIG),
+    output: 'directories',
+  });
+  const [filter, setFilter] = useState<ExportFilter>(initialFilter || {});
+  const [delta, setDelta] = useState<DeltaOptions | null>(null);
+  const [transformEnabled, setTransformEnabled] = useState(false);
+  const [transform, setTransform] = useState<ImageTransformOptions>(DEFAULT_TRANSFORM_OPTIONS);
   const eventSourceRef = useRef<EventSource | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Start export and SSE connection
   useEffect(() => {
-    if (!open || !sessionId) return;
-
-    console.log(`🚀 Starting export progress tracking for ${sessionId}`);
-    
-    // Reset state
-    setProgress(null);
-    setIsComplete(false);
-    setDownloadUrl(null);
-    
-    // Start export operation
-    startExport();
-    
-    // Start SSE connection for progress updates
-    startProgressTracking();
+    if (usesCsv(exportMode)) setCsvOptions(loadCsvOptions());
+  }, [exportMode]);
 
-    return () => {
-      cleanupConnections();
-    };
-  }, [open, sessionId, exportMode]);
+  // Follow the started job while the dialog is open; closing only stops watching it
+  useEffect(() => {
+    if (!open || !jobId) return;
 
-  const startExport = async () => {
-    try {
-      abortControllerRef.current = new AbortController();
-      
-      console.log(`📦 Initiating ${exportMode} export`);
-      
-      const response = await fetch(`/api/sessions/${sessionId}/export`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ mode: exportMode }),
-        signal: abortControllerRef.current.signal,
-      });
+    let cancelled = false;
 
-      if (!response.ok) {
-        throw new Error(`Export failed: ${response.statusText}`);
-      }
+    // Returns true once the job has finished
+    const handleUpdate = (current: ExportJob): boolean => {
+      setJob(current);
 
-      console.log('✅ Export completed successfully');
-      
-      // Create download URL
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      setDownloadUrl(url);
-      setIsComplete(true);
-
-      // Auto-download for better UX
-      const filename = sessionName.replace(/\s+/g, '_') + 
-        (exportMode === 'json' ? '_export.json' : '_full_export.zip');
-      
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-
-      toast.success(`Export completed! Downloaded ${filename}`);
-
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
-        console.log('🛑 Export cancelled by user');
-        toast.info('Export cancelled');
-        return;
+      if (current.status === 'complete') {
+        console.log('✅ Export completed successfully');
+        refreshSessionDetails();
+        downloadExport(sessionId, current);
+        return true;
+      }
+      if (current.status === 'error') {
+        toast.error('Export failed: ' + current.error);
+        return true;
       }
+      return false;
+    };
 
-      console.error('❌ Export failed:', error);
-      setProgress(prev => prev ? {
-        ...prev,
-        status: 'error',
-        error: error.message,
-        message: 'Export failed',
-      } : null);
-
-      toast.error('Export failed: ' + error.message);
-    }
-  };
+    // Fallback when the event stream drops: the job keeps running on the server
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/exports/${jobId}`);
+        const data = await response.json();
+        if (cancelled) return;
 
-  const startProgressTracking = () => {
-    const eventSource = new EventSource(`/api/sessions/${sessionId}/export-progress`);
-    eventSourceRef.current = eventSource;
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load export status');
+        }
+        if (handleUpdate(data.data)) return;
+      } catch (error) {
+        // Transient errors: keep polling
+        console.warn('⚠️ Failed to poll export job:', error);
+      }
 
-    eventSource.onopen = () => {
-      console.log('📡 SSE connection established');
+      if (!cancelled) {
+        pollRef.current = setTimeout(poll, POLL_INTERVAL_MS);
+      }
     };
 
-    eventSource.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        if (data.type === 'connected') {
-          console.log('📡 SSE connected for session:', data.sessionId);
-          return;
-        }
+    const eventSource = new EventSource(`/api/progress/${jobId}`);
+    eventSourceRef.current = eventSource;
 
-        if (data.type === 'progress') {
-          console.log(`📊 Progress update: ${data.percentage}%`);
-          setProgress(data);
+    eventSource.onmessage = (message) => {
+      try {
+        const event: ProgressEvent<'export'> = JSON.parse(message.data);
+        if (handleUpdate(event.data) || event.done) {
+          eventSource.close();
         }
-      } catch (error) {
-        console.warn('⚠️ Failed to parse SSE data:', event.data);
+      } catch {
+        console.warn('⚠️ Failed to parse SSE data:', message.data);
       }
     };
 
-    eventSource.onerror = (error) => {
-      console.error('❌ SSE connection error:', error);
+    eventSource.onerror = () => {
       eventSource.close();
+      if (!cancelled) poll();
     };
-  };
 
-  const cleanupConnections = () => {
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
+    return () => {
+      cancelled = true;
+      eventSourceRef.current?.close();
       eventSourceRef.current = null;
+      if (pollRef.current) {
+        clearTimeout(pollRef.current);
+        pollRef.current = null;
+      }
+    };
+  }, [open, jobId, sessionId, refreshSessionDetails]);
+
+  const getDownloadUrl = (current: ExportJob) => exportDownloadUrl(sessionId, current);
+
+  // Starts the job with the options as confirmed; the dialog is remounted for every export
+  const handleStart = async () => {
+    if (usesCsv(exportMode)) {
+      localStorage.setItem(CSV_OPTIONS_KEY, JSON.stringify(csvOptions));
     }
-    
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
-    }
+    setStarted(true);
+
+    try {
+      console.log(`📦 Starting ${exportMode} export job`);
 
-    if (downloadUrl) {
-      URL.revokeObjectURL(downloadUrl);
+      const response = await fetch(`/api/sessions/${sessionId}/export`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mode: exportMode,
+          csv: usesCsv(exportMode) ? csvOptions : undefined,
+          webdataset: exportMode === 'webdataset' ? { shard_size: shardSize } : undefined,
+          split: splitEnabled ? splitOptions : undefined,
+          filter: isEmptyFilter(filter) ? undefined : filter,
+          delta: delta || undefined,
+          transform: transformEnabled && isZip(exportMode) ? transform : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to start export');
+      }
+
+      setJob(data.data);
+      setJobId(data.data.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to start export';
+      console.error('❌ Export failed:', error);
+      setStartError(message);
+      toast.error('Export failed: ' + message);
     }
   };
 
-  const handleCancel = () => {
-    cleanupConnections();
+  const handleClose = () => {
+    if (job && job.status !== 'complete' && job.status !== 'error') {
+      toast.info('Export continues in the background and will appear under Exports');
+    }
     onOpenChange(false);
   };
 
+  const canStart = (!splitEnabled
+    || (!!storedSplits && !splitOptions.reshuffle)
+    || (splitRatiosValid(splitOptions) && splitOptions.seed.trim() !== ''))
+    && (!transformEnabled || transformOptionsValid(transform));
+
+  const isComplete = job?.status === 'complete';
+  const isFailed = job?.status === 'error' || !!startError;
+  const errorMessage = startError || job?.error;
+
   const formatTime = (seconds: number): string => {
     if (seconds < 60) return `${Math.round(seconds)}s`;
     const mins = Math.floor(seconds / 60);
@@ -188,138 +272,192 @@ export function ExportProgressDialog({
     return `${mins}m ${secs}s`;
   };
 
+  // Extrapolated from the rate since the job started
+  const getTimeRemaining = (): number | null => {
+    if (job?.status !== 'processing' || !job.started_at || job.progress.processed === 0) return null;
+    const elapsed = (Date.now() - new Date(job.started_at).getTime()) / 1000;
+    const rate = job.progress.processed / elapsed;
+    return (job.progress.total - job.progress.processed) / rate;
+  };
+
+  const timeRemaining = getTimeRemaining();
+
   const getStatusIcon = () => {
-    if (!progress) return <Loader2 className="h-5 w-5 animate-spin text-blue-500" />;
-    
-    switch (progress.status) {
-      case 'starting':
-      case 'validating':
-      case 'processing':
-        return <Loader2 className="h-5 w-5 animate-spin text-blue-500" />;
-      case 'complete':
-        return <CheckCircle className="h-5 w-5 text-green-500" />;
-      case 'error':
-        return <AlertCircle className="h-5 w-5 text-red-500" />;
-      default:
-        return <Loader2 className="h-5 w-5 animate-spin text-blue-500" />;
-    }
+    if (isFailed) return <AlertCircle className="h-5 w-5 text-red-500" />;
+    if (isComplete) return <CheckCircle className="h-5 w-5 text-green-500" />;
+    return <Loader2 className="h-5 w-5 animate-spin text-blue-500" />;
   };
 
   const getStatusMessage = (): string => {
-    if (!progress) return 'Initializing export...';
-    return progress.message || 'Processing...';
+    if (startError) return 'Export failed';
+    if (!job) return 'Initializing export...';
+    return job.progress.message || 'Processing...';
   };
 
   return (
-    <Dialog open={open} onOpenChange={(open) => !open && handleCancel()}>
-      <DialogContent className="max-w-md dark:bg-gray-800 dark:border-gray-700">
+    <Dialog open={open} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto dark:bg-gray-800 dark:border-gray-700">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 dark:text-white">
-            {exportMode === 'json' ? <FileText className="h-5 w-5" /> : <ImageIcon className="h-5 w-5" />}
-            Exporting {sessionName}
+            {exportMode === 'json' || exportMode === 'csv'
+              ? <FileText className="h-5 w-5" />
+              : <ImageIcon className="h-5 w-5" />}
+            {started ? 'Exporting' : 'Export'} {sessionName}
           </DialogTitle>
           <DialogDescription className="dark:text-gray-400">
-            {exportMode === 'json' ? 'Metadata only' : 'Full ZIP with images'}
+            {MODE_DESCRIPTIONS[exportMode]}
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4 py-4">
-          {/* Status Header */}
-          <div className="flex items-center gap-3">
-            {getStatusIcon()}
-            <div className="flex-1">
-              <p className="font-medium dark:text-white">
-                {getStatusMessage()}
-              </p>
-              {progress?.currentImage && (
-                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
-                  {progress.currentImage}
+        {!started ? (
+          <>
+            {usesCsv(exportMode) && (
+              <CsvExportOptionsForm value={csvOptions} onChange={setCsvOptions} />
+            )}
+            {exportMode === 'webdataset' && (
+              <div>
+                <Label htmlFor="shard-size" className="dark:text-gray-200 mb-2 block">
+                  Images per shard
+                </Label>
+                <Input
+                  id="shard-size"
+                  type="number"
+                  min={1}
+                  max={100000}
+                  value={shardSize}
+                  onChange={(e) => setShardSize(Math.min(100000, Math.max(1, parseInt(e.target.value) || 1)))}
+                  className="w-48 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  Each sample is written as &lt;key&gt;.jpg + &lt;key&gt;.json
                 </p>
-              )}
-            </div>
-            <Badge variant={progress?.status === 'error' ? 'destructive' : 'secondary'}>
-              {progress?.status || 'starting'}
-            </Badge>
-          </div>
-
-          {/* Progress Bar */}
-          {progress && (
-            <div className="space-y-2">
-              <Progress 
-                value={progress.percentage} 
-                className="h-2"
+              </div>
+            )}
+            {isZip(exportMode) && (
+              <TransformOptionsForm
+                enabled={transformEnabled}
+                onEnabledChange={setTransformEnabled}
+                value={transform}
+                onChange={setTransform}
               />
-              <div className="flex justify-between text-sm text-gray-500 dark:text-gray-400">
-                <span>
-                  {progress.processedImages} / {progress.totalImages} images
-                  {progress.failedImages > 0 && (
-                    <span className="text-orange-500 ml-2">
-                      ({progress.failedImages} failed)
-                    </span>
+            )}
+            <ExportFilterOptions value={filter} onChange={setFilter} />
+            {exportMode !== 'csv' && (
+              <DeltaOptionsForm
+                value={delta}
+                onChange={setDelta}
+                history={currentSession?.id === sessionId ? currentSession.export_history || [] : []}
+              />
+            )}
+            <SplitOptionsForm
+              enabled={splitEnabled}
+              onEnabledChange={setSplitEnabled}
+              value={splitOptions}
+              onChange={setSplitOptions}
+              stored={storedSplits}
+            />
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => onOpenChange(false)} className="cursor-pointer">
+                Cancel
+              </Button>
+              <Button onClick={handleStart} disabled={!canStart} className="cursor-pointer">
+                <Download className="h-4 w-4 mr-2" />
+                Start Export
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-4 py-4">
+              {/* Status Header */}
+              <div className="flex items-center gap-3">
+                {getStatusIcon()}
+                <div className="flex-1">
+                  <p className="font-medium dark:text-white">
+                    {getStatusMessage()}
+                  </p>
+                  {job?.progress.current_image && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                      {job.progress.current_image}
+                    </p>
                   )}
-                </span>
-                <span>{progress.percentage}%</span>
+                </div>
+                <Badge variant={isFailed ? 'destructive' : 'secondary'}>
+                  {startError ? 'error' : job?.status || 'starting'}
+                </Badge>
               </div>
-            </div>
-          )}
 
-          {/* Time Estimate */}
-          {progress?.estimatedTimeRemaining && progress.status === 'processing' && (
-            <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
-              <Clock className="h-4 w-4" />
-              <span>~{formatTime(progress.estimatedTimeRemaining)} remaining</span>
-            </div>
-          )}
-
-          {/* Error Message */}
-          {progress?.status === 'error' && progress.error && (
-            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
-              <p className="text-red-700 dark:text-red-400 text-sm font-medium">
-                Export Failed
-              </p>
-              <p className="text-red-600 dark:text-red-500 text-sm mt-1">
-                {progress.error}
-              </p>
-            </div>
-          )}
-
-          {/* Success Message */}
-          {isComplete && (
-            <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-3">
-              <p className="text-green-700 dark:text-green-400 text-sm font-medium">
-                Export Completed Successfully!
-              </p>
-              <p className="text-green-600 dark:text-green-500 text-sm mt-1">
-                Your file has been automatically downloaded.
-              </p>
+              {/* Progress Bar */}
+              {job && (
+                <div className="space-y-2">
+                  <Progress 
+                    value={job.progress.percentage} 
+                    className="h-2"
+                  />
+                  <div className="flex justify-between text-sm text-gray-500 dark:text-gray-400">
+                    <span>
+                      {job.progress.processed} / {job.progress.total} images
+                      {job.progress.failed > 0 && (
+                        <span className="text-orange-500 ml-2">
+                          ({job.progress.failed} failed)
+                        </span>
+                      )}
+                    </span>
+                    <span>{job.progress.percentage}%</span>
+                  </div>
+                </div>
+              )}
+
+              {/* Time Estimate */}
+              {timeRemaining !== null && (
+                <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                  <Clock className="h-4 w-4" />
+                  <span>~{formatTime(timeRemaining)} remaining</span>
+                </div>
+              )}
+
+              {/* Error Message */}
+              {isFailed && errorMessage && (
+                <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+                  <p className="text-red-700 dark:text-red-400 text-sm font-medium">
+                    Export Failed
+                  </p>
+                  <p className="text-red-600 dark:text-red-500 text-sm mt-1">
+                    {errorMessage}
+                  </p>
+                </div>
+              )}
+
+              {/* Success Message */}
+              {isComplete && (
+                <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-3">
+                  <p className="text-green-700 dark:text-green-400 text-sm font-medium">
+                    Export Completed Successfully!
+                  </p>
+                  <p className="text-green-600 dark:text-green-500 text-sm mt-1">
+                    Your file has been downloaded and is kept under Exports on this page.
+                  </p>
+                </div>
+              )}
             </div>
-          )}
-        </div>
-
-        {/* Actions */}
-        <div className="flex gap-2 justify-end">
-          {!isComplete && progress?.status !== 'error' && (
-            <Button variant="outline" onClick={handleCancel}>
-              <X className="h-4 w-4 mr-2" />
-              Cancel
-            </Button>
-          )}
-          
-          {isComplete && downloadUrl && (
-            <Button asChild>
-              <a href={downloadUrl} download>
-                <Download className="h-4 w-4 mr-2" />
-                Download Again
-              </a>
-            </Button>
-          )}
+
+            {/* Actions */}
+            <div className="flex gap-2 justify-end">
+              {isComplete && job && (
+                <Button asChild className="cursor-pointer">
+                  <a href={getDownloadUrl(job)} download>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Again
+                  </a>
+                </Button>
+              )}
           
-          {(isComplete || progress?.status === 'error') && (
-            <Button variant="outline" onClick={() => onOpenChange(false)}>
-              Close
-            </Button>
-          )}
-        </div>
+              <Button variant="outline" onClick={handleClose} className="cursor-pointer">
+                {isComplete || isFailed ? 'Close' : 'Run in Background'}
+              </Button>
+            </div>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
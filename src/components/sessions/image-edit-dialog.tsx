@@ -5,6 +5,7 @@
 
 import { useState, useRef, useCallback } from 'react';
 import { ImageRecord } from '@/lib/types';
+import { formatBytes } from '@/lib/utils';
 import {
   Dialog,
   DialogContent,
@@ -19,7 +20,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AIScoringFields } from '@/components/shared/ai-scoring-fields';
 import { toast } from 'sonner';
-import { RefreshCw } from 'lucide-react';
+import { History, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
 
 interface ImageEditDialogProps {
   image: ImageRecord;
@@ -33,6 +34,11 @@ export function ImageEditDialog({ image, open, onOpenChange, onSave }: ImageEdit
   const [saving, setSaving] = useState(false);
   const [replacing, setReplacing] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  
+  // Replace/restore return the updated record; the grid refreshes once the dialog closes
+  const [currentImage, setCurrentImage] = useState(image);
+  const [fileChanged, setFileChanged] = useState(false);
   
   const [formData, setFormData] = useState({
     prompt: image.prompt,
@@ -98,18 +104,16 @@ export function ImageEditDialog({ image, open, onOpenChange, onSave }: ImageEdit
         body: formData,
       });
       
-      if (!response.ok) {
-        throw new Error('Failed to replace image');
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to replace image');
       }
       
+      setCurrentImage(data.data);
+      setFileChanged(true);
       toast.success('Image replaced successfully');
-      // Force reload the image
-      const imgElements = document.querySelectorAll(`img[src*="${image.id}"]`);
-      imgElements.forEach((img) => {
-        (img as HTMLImageElement).src = `/api/images/${image.id}?t=${Date.now()}`;
-      });
     } catch (error) {
-      toast.error('Failed to replace image');
+      toast.error(error instanceof Error ? error.message : 'Failed to replace image');
       setPreviewUrl(null);
     } finally {
       setReplacing(false);
@@ -119,8 +123,42 @@ export function ImageEditDialog({ image, open, onOpenChange, onSave }: ImageEdit
     }
   };
   
+  const handleRestore = async (versionId: string) => {
+    setRestoringId(versionId);
+    
+    try {
+      const response = await fetch(`/api/images/${image.id}/versions/${versionId}`, {
+        method: 'POST',
+      });
+      
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to restore version');
+      }
+      
+      setCurrentImage(data.data);
+      setPreviewUrl(null);
+      setFileChanged(true);
+      toast.success('Previous version restored');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore version');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+  
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && fileChanged) {
+      onSave();
+      return;
+    }
+    onOpenChange(nextOpen);
+  };
+  
+  const versions = [...(currentImage.versions || [])].reverse();
+  
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto dark:bg-gray-800 dark:border-gray-700">
         <DialogHeader>
           <DialogTitle className="dark:text-white">Edit Image Details</DialogTitle>
@@ -134,7 +172,7 @@ export function ImageEditDialog({ image, open, onOpenChange, onSave }: ImageEdit
           <div className="space-y-2">
             <div className="flex justify-center relative group">
               <img
-                src={previewUrl || `/api/images/${image.id}?t=${Date.now()}`}
+                src={previewUrl || `/api/images/${image.id}?v=${encodeURIComponent(currentImage.filename)}`}
                 alt={image.original_filename}
                 className="max-w-[300px] max-h-[300px] object-contain rounded-lg"
               />
@@ -163,8 +201,54 @@ export function ImageEditDialog({ image, open, onOpenChange, onSave }: ImageEdit
                 Uploading replacement...
               </p>
             )}
+            <p className="text-center text-xs text-gray-500 dark:text-gray-400">
+              {currentImage.image_dimensions.width}×{currentImage.image_dimensions.height} · {formatBytes(currentImage.file_size)}
+            </p>
           </div>
           
+          {/* Previous files, newest first */}
+          {versions.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-1 dark:text-gray-200">
+                <History className="h-4 w-4" />
+                Previous versions ({versions.length})
+              </Label>
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {versions.map(version => (
+                  <div
+                    key={version.id}
+                    className="flex items-center gap-3 p-2 rounded-md border dark:border-gray-700"
+                  >
+                    <img
+                      src={`/api/images/${image.id}/versions/${version.id}`}
+                      alt={version.filename}
+                      loading="lazy"
+                      className="h-12 w-12 object-cover rounded"
+                    />
+                    <div className="flex-1 min-w-0 text-xs text-gray-600 dark:text-gray-400">
+                      <div>Replaced {new Date(version.replaced_at).toLocaleString()}</div>
+                      <div>
+                        {version.image_dimensions.width}×{version.image_dimensions.height} · {formatBytes(version.file_size)}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(version.id)}
+                      disabled={replacing || restoringId !== null}
+                      className="cursor-pointer"
+                    >
+                      {restoringId === version.id
+                        ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        : <RotateCcw className="h-4 w-4 mr-1" />}
+                      Restore
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          
           {/* Form Fields */}
           <div className="space-y-4">
             <div>
@@ -242,14 +326,14 @@ export function ImageEditDialog({ image, open, onOpenChange, onSave }: ImageEdit
         <DialogFooter>
           <Button 
             variant="outline" 
-            onClick={() => onOpenChange(false)}
+            onClick={() => handleOpenChange(false)}
             className="cursor-pointer"
           >
             Cancel
           </Button>
           <Button 
             onClick={handleSave} 
-            disabled={saving || replacing}
+            disabled={saving || replacing || restoringId !== null}
             className="cursor-pointer"
           >
             {saving ? 'Saving...' : 'Save Changes'}
@@ -0,0 +1,129 @@
+/**
+ * Sort and filter controls for the session image grid
+ * @filepath src/components/sessions/image-filter-bar.tsx
+ */
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useScoringFields } from '@/hooks/use-scoring-fields';
+import { useSessionStore, DEFAULT_IMAGE_QUERY } from '@/stores/session-store';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+
+const ANY = 'any';
+
+export function ImageFilterBar() {
+  const imageQuery = useSessionStore(state => state.imageQuery);
+  const setImageQuery = useSessionStore(state => state.setImageQuery);
+  const scoringFields = useScoringFields();
+  const [tag, setTag] = useState(imageQuery.tag || '');
+
+  // Debounce tag typing so every keystroke doesn't trigger a request
+  useEffect(() => {
+    const trimmed = tag.trim() || undefined;
+    if (trimmed === imageQuery.tag) return;
+
+    const timer = setTimeout(() => setImageQuery({ ...imageQuery, tag: trimmed }), 400);
+    return () => clearTimeout(timer);
+  }, [tag, imageQuery, setImageQuery]);
+
+  const hasFilters = !!(imageQuery.generator_used || imageQuery.min_rating || imageQuery.tag);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      <Select
+        value={imageQuery.sort_by || 'upload_timestamp'}
+        onValueChange={(value) => setImageQuery({ ...imageQuery, sort_by: value })}
+      >
+        <SelectTrigger className="w-48 dark:bg-gray-800 dark:border-gray-700 dark:text-white cursor-pointer">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+          <SelectItem value="upload_timestamp">Upload date</SelectItem>
+          <SelectItem value="quality_rating">Quality rating</SelectItem>
+          <SelectItem value="file_size">File size</SelectItem>
+          {scoringFields.map(field => (
+            <SelectItem key={field.name} value={field.name}>
+              {field.name.replace(/_/g, ' ')}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant="outline"
+        size="icon"
+        className="dark:border-gray-700 dark:hover:bg-gray-700 cursor-pointer"
+        title={imageQuery.order === 'desc' ? 'Descending' : 'Ascending'}
+        onClick={() => setImageQuery({
+          ...imageQuery,
+          order: imageQuery.order === 'desc' ? 'asc' : 'desc',
+        })}
+      >
+        {imageQuery.order === 'desc' ? <ArrowDown className="h-4 w-4" /> : <ArrowUp className="h-4 w-4" />}
+      </Button>
+
+      <Select
+        value={imageQuery.generator_used || ANY}
+        onValueChange={(value) => setImageQuery({
+          ...imageQuery,
+          generator_used: value === ANY ? undefined : value as typeof imageQuery.generator_used,
+        })}
+      >
+        <SelectTrigger className="w-44 dark:bg-gray-800 dark:border-gray-700 dark:text-white cursor-pointer">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+          <SelectItem value={ANY}>All generators</SelectItem>
+          <SelectItem value="midjourney">Midjourney</SelectItem>
+          <SelectItem value="dalle">DALL-E</SelectItem>
+          <SelectItem value="stable-diffusion">Stable Diffusion</SelectItem>
+          <SelectItem value="other">Other</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={imageQuery.min_rating ? String(imageQuery.min_rating) : ANY}
+        onValueChange={(value) => setImageQuery({
+          ...imageQuery,
+          min_rating: value === ANY ? undefined : Number(value),
+        })}
+      >
+        <SelectTrigger className="w-36 dark:bg-gray-800 dark:border-gray-700 dark:text-white cursor-pointer">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+          <SelectItem value={ANY}>Any rating</SelectItem>
+          {[2, 3, 4, 5].map(rating => (
+            <SelectItem key={rating} value={String(rating)}>
+              {rating}+ stars
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Input
+        value={tag}
+        onChange={(e) => setTag(e.target.value)}
+        placeholder="Filter by tag"
+        className="w-40 dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+      />
+
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="cursor-pointer dark:text-gray-300 dark:hover:bg-gray-700"
+          onClick={() => {
+            setTag('');
+            setImageQuery({ ...DEFAULT_IMAGE_QUERY, sort_by: imageQuery.sort_by, order: imageQuery.order });
+          }}
+        >
+          <X className="h-4 w-4 mr-1" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 /**
  * OPTIMIZED IMAGE GRID WITH THUMBNAIL LOADING
  * Uses lightweight thumbnails for fast loading and better performance
+ * Further pages are requested when the sentinel below the grid scrolls into view
+ * Selection mode supports shift-click ranges and bulk actions via BulkActionBar
  * @filepath src/components/sessions/image-grid.tsx
  */
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { ImageRecord } from '@/lib/types';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -17,30 +19,56 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { formatBytes } from '@/lib/utils';
 import { format } from 'date-fns';
-import { Star, MoreVertical, Edit, Trash, Eye, ImageIcon, Loader2 } from 'lucide-react';
-import { useSessionStore } from '@/stores/session-store';
+import {
+  Star,
+  MoreVertical,
+  Edit,
+  Trash,
+  Eye,
+  ImageIcon,
+  Loader2,
+  Check,
+  CheckSquare,
+  Copy,
+  FolderInput,
+} from 'lucide-react';
+import { useSessionStore, ImageSelection } from '@/stores/session-store';
 import { toast } from 'sonner';
 import { ImageEditDialog } from './image-edit-dialog';
+import { BulkActionBar } from './bulk-action-bar';
+import { SessionPickerDialog } from './session-picker-dialog';
 
 interface ImageGridProps {
   images: ImageRecord[];
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  highlightedImageId?: string | null;
+  totalCount?: number;
 }
 
+const EMPTY_SELECTION: ImageSelection = { allMatching: false, ids: [], excludedIds: [] };
+
+// The filename changes whenever the file is replaced, so it doubles as a cache buster
+const imageVersion = (image: ImageRecord) => encodeURIComponent(image.filename);
+const fullImageUrl = (image: ImageRecord) => `/api/images/${image.id}?v=${imageVersion(image)}`;
+
 // Optimized Image Component with thumbnail loading
 function OptimizedImage({ 
   image, 
-  className = "" 
+  className = "",
+  onClick,
 }: { 
   image: ImageRecord; 
   className?: string;
+  onClick?: (event: React.MouseEvent) => void;
 }) {
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
   const [showFullSize, setShowFullSize] = useState(false);
 
   // Use thumbnail API for grid display, full image for modal
-  const thumbnailUrl = `/api/images/${image.id}/thumbnail?w=400&h=400&q=80`;
-  const fullImageUrl = `/api/images/${image.id}`;
+  const thumbnailUrl = `/api/images/${image.id}/thumbnail?w=400&h=400&q=80&v=${imageVersion(image)}`;
 
   const handleImageLoad = () => {
     setIsLoading(false);
@@ -53,9 +81,14 @@ function OptimizedImage({
     console.error(`Failed to load thumbnail for image: ${image.id}`);
   };
 
-  const handleImageClick = () => {
+  const handleImageClick = (event: React.MouseEvent) => {
+    if (onClick) {
+      onClick(event);
+      return;
+    }
+    
     // Open full-size image in new tab for better UX
-    window.open(fullImageUrl, '_blank');
+    window.open(fullImageUrl(image), '_blank');
   };
 
   return (
@@ -110,9 +143,84 @@ function OptimizedImage({
   );
 }
 
-export function ImageGrid({ images }: ImageGridProps) {
+export function ImageGrid({
+  images,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  highlightedImageId,
+  totalCount = images.length,
+}: ImageGridProps) {
   const refreshSession = useSessionStore(state => state.refreshCurrentSession);
   const [editingImage, setEditingImage] = useState<ImageRecord | null>(null);
+  const [transfer, setTransfer] = useState<{ image: ImageRecord; mode: 'move' | 'copy' } | null>(null);
+  const [transferring, setTransferring] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  
+  // Selection mode
+  const [selecting, setSelecting] = useState(false);
+  const [selection, setSelection] = useState<ImageSelection>(EMPTY_SELECTION);
+  const lastClickedIndex = useRef<number | null>(null);
+  
+  const isSelected = (id: string) => selection.allMatching
+    ? !selection.excludedIds.includes(id)
+    : selection.ids.includes(id);
+  
+  const selectedCount = selection.allMatching
+    ? totalCount - selection.excludedIds.length
+    : selection.ids.length;
+  
+  // Click toggles one image; shift-click applies the same state to the whole range
+  const handleSelectClick = (index: number, event: React.MouseEvent) => {
+    const anchor = event.shiftKey && lastClickedIndex.current !== null ? lastClickedIndex.current : index;
+    const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+    const rangeIds = images.slice(from, to + 1).map(img => img.id);
+    const select = !isSelected(images[index].id);
+    
+    setSelection(prev => {
+      // In "all matching" mode we track exclusions instead of inclusions
+      const key = prev.allMatching ? 'excludedIds' : 'ids';
+      const add = prev.allMatching ? !select : select;
+      const current = new Set(prev[key]);
+      rangeIds.forEach(id => add ? current.add(id) : current.delete(id));
+      return { ...prev, [key]: Array.from(current) };
+    });
+    
+    lastClickedIndex.current = index;
+  };
+  
+  const exitSelection = () => {
+    setSelecting(false);
+    setSelection(EMPTY_SELECTION);
+    lastClickedIndex.current = null;
+  };
+  
+  // Bring a highlighted image (e.g. from search) into view
+  useEffect(() => {
+    if (!highlightedImageId) return;
+    document.getElementById(`image-${highlightedImageId}`)?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'center',
+    });
+  }, [highlightedImageId]);
+  
+  // Infinite scroll: load the next page shortly before the end of the grid
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+    
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !loadingMore) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore]);
   
   const handleDelete = async (image: ImageRecord) => {
     if (!confirm('Are you sure you want to delete this image?')) {
@@ -143,12 +251,38 @@ export function ImageGrid({ images }: ImageGridProps) {
     }
   };
 
+  const handleTransfer = async (targetSessionId: string) => {
+    if (!transfer) return;
+    
+    setTransferring(true);
+    try {
+      const response = await fetch(`/api/images/${transfer.image.id}/${transfer.mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ target_session_id: targetSessionId }),
+      });
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || `Failed to ${transfer.mode} image`);
+      }
+      
+      toast.success(data.message);
+      setTransfer(null);
+      await refreshSession();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${transfer.mode} image`);
+    } finally {
+      setTransferring(false);
+    }
+  };
+
   // Performance: Show loading state for large grids
   if (images.length === 0) {
     return (
       <div className="text-center py-12 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
         <ImageIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-        <p className="text-gray-500 dark:text-gray-400">No images uploaded yet</p>
+        <p className="text-gray-500 dark:text-gray-400">No images found</p>
         <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">
           Images will appear here as thumbnails for faster loading
         </p>
@@ -158,6 +292,30 @@ export function ImageGrid({ images }: ImageGridProps) {
   
   return (
     <>
+      {/* Selection Toolbar */}
+      {selecting ? (
+        <BulkActionBar
+          selection={selection}
+          selectedCount={selectedCount}
+          totalCount={totalCount}
+          onSelectAll={() => setSelection({ allMatching: true, ids: [], excludedIds: [] })}
+          onClear={() => setSelection(EMPTY_SELECTION)}
+          onDone={exitSelection}
+        />
+      ) : (
+        <div className="flex justify-end mb-4">
+          <Button
+            variant="outline"
+            size="sm"
+            className="cursor-pointer dark:border-gray-700 dark:hover:bg-gray-700"
+            onClick={() => setSelecting(true)}
+          >
+            <CheckSquare className="h-4 w-4 mr-1" />
+            Select
+          </Button>
+        </div>
+      )}
+
       {/* Performance Info for Large Grids */}
       {images.length > 100 && (
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3 mb-4">
@@ -177,16 +335,40 @@ export function ImageGrid({ images }: ImageGridProps) {
           }, 1fr))`,
         }}
       >
-        {images.map((image) => (
+        {images.map((image, index) => (
           <Card 
             key={image.id} 
-            className="overflow-hidden hover:shadow-lg transition-shadow group dark:bg-gray-800 dark:border-gray-700 will-change-transform"
+            id={`image-${image.id}`}
+            className={`overflow-hidden hover:shadow-lg transition-shadow group dark:bg-gray-800 dark:border-gray-700 will-change-transform ${
+              image.id === highlightedImageId || (selecting && isSelected(image.id))
+                ? 'ring-2 ring-blue-500 dark:ring-blue-400'
+                : ''
+            }`}
           >
             {/* Optimized Image with Thumbnail Loading */}
-            <OptimizedImage image={image} />
+            <OptimizedImage
+              image={image}
+              onClick={selecting ? (event) => handleSelectClick(index, event) : undefined}
+            />
+
+            {/* Selection Checkbox */}
+            {selecting && (
+              <button
+                type="button"
+                onClick={(event) => handleSelectClick(index, event)}
+                className={`absolute top-2 right-2 h-6 w-6 rounded border-2 flex items-center justify-center cursor-pointer ${
+                  isSelected(image.id)
+                    ? 'bg-blue-500 border-blue-500 text-white'
+                    : 'bg-white/80 dark:bg-gray-800/80 border-gray-400'
+                }`}
+                aria-label={isSelected(image.id) ? 'Deselect image' : 'Select image'}
+              >
+                {isSelected(image.id) && <Check className="h-4 w-4" />}
+              </button>
+            )}
 
             {/* Action Menu Overlay */}
-            <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+            <div className={`absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity ${selecting ? 'hidden' : ''}`}>
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button
@@ -199,7 +381,7 @@ export function ImageGrid({ images }: ImageGridProps) {
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="dark:bg-gray-800 dark:border-gray-700">
                   <DropdownMenuItem 
-                    onClick={() => window.open(`/api/images/${image.id}`, '_blank')}
+                    onClick={() => window.open(fullImageUrl(image), '_blank')}
                     className="cursor-pointer dark:hover:bg-gray-700"
                   >
                     <Eye className="h-4 w-4 mr-2" />
@@ -212,6 +394,20 @@ export function ImageGrid({ images }: ImageGridProps) {
                     <Edit className="h-4 w-4 mr-2" />
                     Edit Details
                   </DropdownMenuItem>
+                  <DropdownMenuItem 
+                    onClick={() => setTransfer({ image, mode: 'move' })}
+                    className="cursor-pointer dark:hover:bg-gray-700"
+                  >
+                    <FolderInput className="h-4 w-4 mr-2" />
+                    Move to…
+                  </DropdownMenuItem>
+                  <DropdownMenuItem 
+                    onClick={() => setTransfer({ image, mode: 'copy' })}
+                    className="cursor-pointer dark:hover:bg-gray-700"
+                  >
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy to…
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={() => handleDelete(image)}
                     className="text-red-600 dark:text-red-400 focus:text-red-600 dark:focus:text-red-400 cursor-pointer dark:hover:bg-gray-700"
@@ -275,8 +471,15 @@ export function ImageGrid({ images }: ImageGridProps) {
         ))}
       </div>
 
+      {/* Infinite Scroll Sentinel */}
+      {hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-6">
+          {loadingMore && <Loader2 className="h-6 w-6 animate-spin text-gray-400" />}
+        </div>
+      )}
+
       {/* Performance Footer for Large Collections */}
-      {images.length > 50 && (
+      {!hasMore && images.length > 50 && (
         <div className="text-center py-4">
           <p className="text-xs text-gray-500 dark:text-gray-400">
             🚀 Loaded {images.length} optimized thumbnails • Click any image to view full resolution
@@ -284,6 +487,18 @@ export function ImageGrid({ images }: ImageGridProps) {
         </div>
       )}
       
+      {/* Move / Copy Dialog */}
+      <SessionPickerDialog
+        open={transfer !== null}
+        onOpenChange={(open) => !open && setTransfer(null)}
+        title={transfer?.mode === 'copy' ? 'Copy image' : 'Move image'}
+        description={transfer?.image.original_filename || ''}
+        confirmLabel={transfer?.mode === 'copy' ? 'Copy' : 'Move'}
+        excludeSessionId={transfer?.mode === 'move' ? transfer.image.session_id : undefined}
+        working={transferring}
+        onConfirm={handleTransfer}
+      />
+      
       {/* Edit Dialog */}
       {editingImage && (
         <ImageEditDialog
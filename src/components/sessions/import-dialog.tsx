@@ -1,9 +1,9 @@
 /**
  * Simplified import dialog without streaming
- * @filepath src/components/sessions/import-dialog.tsx
+ * Import dialog with live progress from the server
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
 import {
   Dialog,
@@ -17,9 +17,13 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useSessionStore } from '@/stores/session-store';
-import { ImportOptions } from '@/lib/types/import';
+import { Progress } from '@/components/ui/progress';
+import { ImportPreviewPanel } from '@/components/sessions/import-preview';
+import { DuplicateStrategy, ImportJob, ImportOptions, ImportPreview, ImportProgress } from '@/lib/types/import';
+import type { ProgressEvent } from '@/lib/utils/progress-bus';
 import { Upload, FileJson, FileArchive, AlertCircle, CheckCircle } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -34,6 +38,15 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
   const [file, setFile] = useState<File | null>(null);
   const [importing, setImporting] = useState(false);
   const [result, setResult] = useState<any>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [overrides, setOverrides] = useState<Record<string, DuplicateStrategy>>({});
+  
+  useEffect(() => () => eventSourceRef.current?.close(), []);
   
   const [options, setOptions] = useState<ImportOptions>({
     mode: 'new',
@@ -41,6 +54,12 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
     preserveIds: false,
   });
   
+  // A preview only holds for the file and target it was made for
+  useEffect(() => {
+    setPreview(null);
+    setOverrides({});
+  }, [file, options.mode, options.targetSessionId, options.preserveIds]);
+  
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
       setFile(acceptedFiles[0]);
@@ -57,6 +76,42 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
     multiple: false,
   });
   
+  // Sent as the raw body so the server can stream it to disk
+  const uploadFile = (file: File, params: Record<string, string>) => fetch(
+    `/api/import?${new URLSearchParams({ filename: file.name, ...params })}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file,
+    }
+  );
+  
+  const handlePreview = async () => {
+    if (!file) return;
+    
+    if (options.mode === 'merge' && !options.targetSessionId) {
+      toast.error('Please select a target session for merge');
+      return;
+    }
+    
+    setPreviewing(true);
+    try {
+      const response = await uploadFile(file, { options: JSON.stringify(options), preview: 'true' });
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Preview failed');
+      }
+      
+      setPreview(data.data);
+      setOverrides({});
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Preview failed');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+  
   const handleImport = async () => {
     if (!file) return;
     
@@ -67,21 +122,46 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
     
     setImporting(true);
     setResult(null);
+    setProgress(null);
+    setCancelling(false);
     
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('options', JSON.stringify(options));
+      const response = await uploadFile(file, {
+        options: JSON.stringify(preview ? { ...options, strategyOverrides: overrides } : options),
+      });
+      
+      const started = await response.json();
       
-      const response = await fetch('/api/import', {
-        method: 'POST',
-        body: formData,
+      if (!response.ok || !started.success) {
+        throw new Error(started.error || 'Import failed');
+      }
+      
+      // The import runs in the background; follow it until its last event
+      const job: ImportJob = started.data;
+      setJobId(job.id);
+      const finished = await new Promise<ImportJob>((resolve) => {
+        const eventSource = new EventSource(`/api/progress/${job.id}`);
+        eventSourceRef.current = eventSource;
+        eventSource.onmessage = (message) => {
+          try {
+            const event: ProgressEvent<'import'> = JSON.parse(message.data);
+            setProgress(event.data.progress);
+            if (event.done) {
+              eventSource.close();
+              resolve(event.data);
+            }
+          } catch {
+            console.warn('⚠️ Failed to parse SSE data:', message.data);
+          }
+        };
       });
       
-      const data = await response.json();
+      const data = finished.result!;
       
-      if (!response.ok) {
-        throw new Error(data.error || 'Import failed');
+      if (finished.progress.status === 'cancelled') {
+        toast.info('Import cancelled');
+        setResult({ ...data, error: 'Import was cancelled; nothing was imported' });
+        return;
       }
       
       setResult(data);
@@ -94,7 +174,8 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
           onImportComplete();
         }
         
-        // Reset after success
+        // Reset after success, unless there are problems to read
+        if (data.errors?.length || data.id_conflicts?.length) return;
         setTimeout(() => {
           setFile(null);
           setResult(null);
@@ -114,10 +195,28 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
         error: errorMessage,
       });
     } finally {
+      eventSourceRef.current = null;
+      setJobId(null);
       setImporting(false);
     }
   };
   
+  const handleCancel = async () => {
+    if (!jobId) return;
+    
+    setCancelling(true);
+    try {
+      const response = await fetch(`/api/import/${jobId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel import');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel import');
+      setCancelling(false);
+    }
+  };
+  
   const handleClose = () => {
     if (!importing) {
       onOpenChange(false);
@@ -158,7 +257,7 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
                 {isDragActive ? 'Drop the file here' : 'Drag & drop export file here'}
               </p>
               <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
-                Accepts JSON or ZIP files from export
+                Accepts JSON or ZIP files from export, including Hugging Face and COCO layouts
               </p>
             </div>
           )}
@@ -216,6 +315,18 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
                 </RadioGroup>
               </div>
               
+              <div className="flex items-center justify-between">
+                <Label htmlFor="preserve-ids" className="font-normal dark:text-gray-300">
+                  Keep original IDs (for moving a dataset between instances)
+                </Label>
+                <Switch
+                  id="preserve-ids"
+                  checked={options.preserveIds}
+                  onCheckedChange={(preserveIds) => setOptions({ ...options, preserveIds })}
+                  className="cursor-pointer"
+                />
+              </div>
+              
               {options.mode === 'merge' && (
                 <>
                   <div>
@@ -255,6 +366,17 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
                   </div>
                 </>
               )}
+              
+              {preview && (
+                <div className="border-t pt-4 dark:border-gray-700">
+                  <ImportPreviewPanel
+                    preview={preview}
+                    defaultStrategy={options.duplicateStrategy}
+                    overrides={overrides}
+                    onOverridesChange={setOverrides}
+                  />
+                </div>
+              )}
             </div>
           )}
           
@@ -263,11 +385,35 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
             <div className="text-center py-8">
               <div className="inline-flex items-center gap-3">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                <span className="text-lg dark:text-gray-300">Importing...</span>
+                <span className="text-lg dark:text-gray-300">
+                  {cancelling
+                    ? 'Cancelling...'
+                    : !jobId
+                      ? 'Uploading...'
+                      : progress?.total
+                        ? `Importing ${progress.processed} / ${progress.total}...`
+                        : 'Importing...'}
+                </span>
               </div>
-              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
-                This may take a moment for large files
-              </p>
+              {progress?.total ? (
+                <div className="mt-4 space-y-2">
+                  <Progress value={Math.round((progress.processed / progress.total) * 100)} className="h-2" />
+                  {progress.currentFile && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                      {progress.currentFile}
+                    </p>
+                  )}
+                  {(progress.skipped > 0 || progress.errors.length > 0) && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {progress.skipped} skipped · {progress.errors.length} errors
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                  This may take a moment for large files
+                </p>
+              )}
             </div>
           )}
           
@@ -284,6 +430,25 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
                   <div>
                     <p>Successfully imported {result.imported} images.</p>
                     {result.skipped > 0 && <p className="mt-1">{result.skipped} images were skipped.</p>}
+                    {result.integrity && (
+                      <p className="mt-1">
+                        {result.integrity.issues.length === 0 && result.integrity.digest_valid
+                          ? `All ${result.integrity.checked} files match the export checksums.`
+                          : `${result.integrity.issues.length} of ${result.integrity.checked} files failed verification.`}
+                      </p>
+                    )}
+                    {result.id_conflicts?.length > 0 && (
+                      <p className="mt-1">
+                        {result.id_conflicts.length} IDs were already in use or not valid and were given new ones.
+                      </p>
+                    )}
+                    {result.errors?.length > 0 && (
+                      <ul className="mt-2 text-sm list-disc list-inside max-h-32 overflow-y-auto">
+                        {result.errors.map((err: string, i: number) => (
+                          <li key={i}>{err}</li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 ) : (
                   <div>
@@ -306,17 +471,35 @@ export function ImportDialog({ open, onOpenChange, onImportComplete }: ImportDia
         </div>
         
         <DialogFooter>
-          <Button
-            variant="outline"
-            onClick={handleClose}
-            disabled={importing}
-          >
-            {result ? 'Close' : 'Cancel'}
-          </Button>
+          {importing ? (
+            <Button
+              variant="outline"
+              onClick={handleCancel}
+              disabled={!jobId || cancelling}
+            >
+              {cancelling ? 'Cancelling...' : 'Cancel import'}
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={handleClose}
+            >
+              {result ? 'Close' : 'Cancel'}
+            </Button>
+          )}
+          {!result && !importing && file && (
+            <Button
+              variant="outline"
+              onClick={handlePreview}
+              disabled={previewing}
+            >
+              {previewing ? 'Checking...' : preview ? 'Preview again' : 'Preview'}
+            </Button>
+          )}
           {!result && (
             <Button
               onClick={handleImport}
-              disabled={!file || importing}
+              disabled={!file || importing || previewing}
             >
               {importing ? 'Importing...' : 'Import'}
             </Button>
@@ -0,0 +1,136 @@
+/**
+ * Dry run of an import: new, duplicate and invalid images, with a duplicate strategy per image
+ * @filepath src/components/sessions/import-preview.tsx
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DuplicateImage, DuplicateStrategy, ImportPreview } from '@/lib/types/import';
+
+const REASONS: Record<DuplicateImage['reason'], string> = {
+  same_hash: 'Identical file',
+  similar_hash: 'Similar image',
+  same_name: 'Same file name',
+  same_prompt: 'Same prompt',
+};
+
+interface ImportPreviewProps {
+  preview: ImportPreview;
+  defaultStrategy: DuplicateStrategy;
+  // Only images whose strategy differs from the default
+  overrides: Record<string, DuplicateStrategy>;
+  onOverridesChange: (overrides: Record<string, DuplicateStrategy>) => void;
+}
+
+// What the import will do with the chosen strategies
+export function previewOutcome(
+  preview: ImportPreview,
+  defaultStrategy: DuplicateStrategy,
+  overrides: Record<string, DuplicateStrategy>
+): { imported: number; replaced: number; skipped: number } {
+  const outcome = { imported: 0, replaced: 0, skipped: 0 };
+  for (const image of preview.images) {
+    const strategy = overrides[image.index] ?? defaultStrategy;
+    if (image.status === 'invalid' || (image.status === 'duplicate' && strategy === 'skip')) {
+      outcome.skipped++;
+    } else {
+      outcome.imported++;
+      if (image.status === 'duplicate' && strategy === 'replace') outcome.replaced++;
+    }
+  }
+  return outcome;
+}
+
+export function ImportPreviewPanel({ preview, defaultStrategy, overrides, onOverridesChange }: ImportPreviewProps) {
+  const duplicates = preview.images.filter(image => image.status === 'duplicate');
+  const invalid = preview.images.filter(image => image.status === 'invalid');
+  const idConflicts = preview.images.filter(image => image.id_conflict).length;
+  const outcome = previewOutcome(preview, defaultStrategy, overrides);
+  
+  const setStrategy = (index: number, strategy: DuplicateStrategy) => {
+    const { [index]: _, ...rest } = overrides;
+    onOverridesChange(strategy === defaultStrategy ? rest : { ...rest, [index]: strategy });
+  };
+  
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="secondary">{preview.counts.new} new</Badge>
+        <Badge variant={preview.counts.duplicate > 0 ? 'default' : 'secondary'}>
+          {preview.counts.duplicate} duplicates
+        </Badge>
+        <Badge variant={preview.counts.invalid > 0 ? 'destructive' : 'secondary'}>
+          {preview.counts.invalid} invalid
+        </Badge>
+      </div>
+      
+      <p className="text-sm dark:text-gray-300">
+        {outcome.imported} of {preview.total} images will be imported
+        {outcome.replaced > 0 && `, replacing ${outcome.replaced} existing`}
+        {outcome.skipped > 0 && `; ${outcome.skipped} skipped`}
+      </p>
+      
+      {preview.integrity && (preview.integrity.issues.length > 0 || !preview.integrity.digest_valid) && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {preview.integrity.issues.length} of {preview.integrity.checked} files failed checksum verification
+        </p>
+      )}
+      
+      {idConflicts > 0 && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          {idConflicts} image IDs are already in use or not valid; those images will get new IDs
+        </p>
+      )}
+      
+      {duplicates.length > 0 && (
+        <div className="space-y-2">
+          <Label className="dark:text-gray-200">Duplicates</Label>
+          <div className="max-h-64 overflow-y-auto divide-y rounded-md border dark:border-gray-700 dark:divide-gray-700">
+            {duplicates.map(image => {
+              const duplicate = image.duplicate!;
+              return (
+                <div key={image.index} className="flex items-center justify-between gap-3 p-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate dark:text-white">{image.original_filename}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {duplicate.reason === 'similar_hash'
+                        ? `${REASONS[duplicate.reason]} (${duplicate.distance} bits)`
+                        : REASONS[duplicate.reason]} · {duplicate.existing.filename}
+                    </p>
+                  </div>
+                  <Select
+                    value={overrides[image.index] ?? defaultStrategy}
+                    onValueChange={(value) => setStrategy(image.index, value as DuplicateStrategy)}
+                  >
+                    <SelectTrigger className="w-32 shrink-0 dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                      <SelectItem value="skip">Skip</SelectItem>
+                      <SelectItem value="replace">Replace</SelectItem>
+                      <SelectItem value="rename">Rename</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      
+      {invalid.length > 0 && (
+        <div className="space-y-2">
+          <Label className="dark:text-gray-200">Can&apos;t be imported</Label>
+          <ul className="max-h-32 overflow-y-auto text-sm list-disc list-inside text-gray-600 dark:text-gray-400">
+            {invalid.map(image => (
+              <li key={image.index}>
+                {image.original_filename || image.filename || `Image ${image.index + 1}`}: {image.problem}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
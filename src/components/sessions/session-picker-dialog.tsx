@@ -0,0 +1,105 @@
+/**
+ * Dialog for choosing a target session (move / copy images)
+ * @filepath src/components/sessions/session-picker-dialog.tsx
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Session } from '@/lib/types';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface SessionPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  excludeSessionId?: string;
+  working?: boolean;
+  onConfirm: (sessionId: string) => void;
+}
+
+export function SessionPickerDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel,
+  excludeSessionId,
+  working = false,
+  onConfirm,
+}: SessionPickerDialogProps) {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [targetSessionId, setTargetSessionId] = useState('');
+  
+  // Fetched directly so the session store's loading state isn't touched
+  useEffect(() => {
+    if (!open) return;
+    
+    setTargetSessionId('');
+    fetch('/api/sessions')
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) {
+          setSessions(data.data.filter((s: Session) => s.id !== excludeSessionId));
+        }
+      })
+      .catch(() => toast.error('Failed to load sessions'));
+  }, [open, excludeSessionId]);
+  
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="dark:bg-gray-800 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">{title}</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">{description}</DialogDescription>
+        </DialogHeader>
+        
+        <div className="grid gap-2 py-2">
+          <Label className="dark:text-gray-300">Target session</Label>
+          <Select value={targetSessionId} onValueChange={setTargetSessionId}>
+            <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+              <SelectValue placeholder="Choose a session" />
+            </SelectTrigger>
+            <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+              {sessions.map(s => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.name} ({s.image_count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="dark:border-gray-600 dark:hover:bg-gray-700 cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(targetSessionId)}
+            disabled={working || !targetSessionId}
+            className="cursor-pointer"
+          >
+            {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
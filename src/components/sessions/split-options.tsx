@@ -0,0 +1,173 @@
+/**
+ * Train/val/test split settings for exports
+ * Sessions with stored splits reuse them unless the user reshuffles
+ * @filepath src/components/sessions/split-options.tsx
+ */
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { SessionSplits, SplitName, SplitOptions } from '@/lib/types/export';
+import { SPLIT_NAMES, STRATIFY_KEYS, countSplits } from '@/lib/utils/splits';
+
+interface SplitOptionsProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  value: SplitOptions;
+  onChange: (value: SplitOptions) => void;
+  stored?: SessionSplits;
+}
+
+// Ratios are edited as whole percentages
+export function splitRatiosValid(value: SplitOptions): boolean {
+  const total = SPLIT_NAMES.reduce((sum, name) => sum + Math.round(value.ratios[name] * 100), 0);
+  return total === 100;
+}
+
+export function SplitOptionsForm({ enabled, onEnabledChange, value, onChange, stored }: SplitOptionsProps) {
+  // Stored splits are kept as they are; only a reshuffle applies new settings
+  const locked = !!stored && !value.reshuffle;
+  const shown = locked ? { ...value, ...stored.config } : value;
+  const storedCounts = stored ? countSplits(stored.assignments) : null;
+  
+  const setRatio = (name: SplitName, percent: number) => {
+    onChange({ ...value, ratios: { ...value.ratios, [name]: Math.min(100, Math.max(0, percent)) / 100 } });
+  };
+  
+  const toggleKey = (key: string) => {
+    onChange({
+      ...value,
+      stratify_by: value.stratify_by.includes(key)
+        ? value.stratify_by.filter(k => k !== key)
+        : [...value.stratify_by, key],
+    });
+  };
+  
+  return (
+    <div className="space-y-4 border-t pt-4 dark:border-gray-700">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="split-enabled" className="dark:text-gray-200">Train / val / test splits</Label>
+        <Switch
+          id="split-enabled"
+          checked={enabled}
+          onCheckedChange={onEnabledChange}
+          className="cursor-pointer"
+        />
+      </div>
+      
+      {enabled && (
+        <>
+          {stored && storedCounts && (
+            <div className="flex items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <span>
+                Stored split: {storedCounts.train} / {storedCounts.val} / {storedCounts.test}
+                {' '}(seed &quot;{stored.config.seed}&quot;)
+              </span>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="split-reshuffle" className="text-xs font-normal dark:text-gray-400">
+                  Reshuffle
+                </Label>
+                <Switch
+                  id="split-reshuffle"
+                  checked={!!value.reshuffle}
+                  onCheckedChange={(reshuffle) => onChange({ ...value, reshuffle })}
+                  className="cursor-pointer"
+                />
+              </div>
+            </div>
+          )}
+          
+          <div className="grid grid-cols-3 gap-2">
+            {SPLIT_NAMES.map(name => (
+              <div key={name}>
+                <Label htmlFor={`split-${name}`} className="text-xs capitalize dark:text-gray-300">
+                  {name} %
+                </Label>
+                <Input
+                  id={`split-${name}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  disabled={locked}
+                  value={Math.round(shown.ratios[name] * 100)}
+                  onChange={(e) => setRatio(name, parseInt(e.target.value) || 0)}
+                  className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+              </div>
+            ))}
+          </div>
+          {!locked && !splitRatiosValid(value) && (
+            <p className="text-xs text-red-600 dark:text-red-400">Percentages must add up to 100</p>
+          )}
+          
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="split-seed" className="text-xs dark:text-gray-300">Seed</Label>
+              <Input
+                id="split-seed"
+                disabled={locked}
+                value={shown.seed}
+                onChange={(e) => onChange({ ...value, seed: e.target.value })}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+            </div>
+            <div>
+              <Label htmlFor="split-buckets" className="text-xs dark:text-gray-300">Score buckets</Label>
+              <Input
+                id="split-buckets"
+                type="number"
+                min={1}
+                max={10}
+                disabled={locked}
+                value={shown.score_buckets}
+                onChange={(e) => onChange({
+                  ...value,
+                  score_buckets: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)),
+                })}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+            </div>
+          </div>
+          
+          <div>
+            <Label className="text-xs dark:text-gray-300 mb-1 block">Stratify by</Label>
+            <div className="flex flex-wrap gap-1">
+              {STRATIFY_KEYS.map(option => (
+                <Button
+                  key={option.key}
+                  variant={shown.stratify_by.includes(option.key) ? 'default' : 'outline'}
+                  size="sm"
+                  disabled={locked}
+                  onClick={() => toggleKey(option.key)}
+                  className="h-7 text-xs capitalize cursor-pointer"
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          
+          <RadioGroup
+            value={value.output}
+            onValueChange={(output) => onChange({ ...value, output: output as SplitOptions['output'] })}
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="directories" id="split-directories" />
+              <Label htmlFor="split-directories" className="font-normal cursor-pointer dark:text-gray-300">
+                One folder per split
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="column" id="split-column" />
+              <Label htmlFor="split-column" className="font-normal cursor-pointer dark:text-gray-300">
+                Split column in the metadata
+              </Label>
+            </div>
+          </RadioGroup>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Image transform settings for ZIP exports: resize, square crop, output format and metadata stripping
+ * @filepath src/components/sessions/transform-options.tsx
+ */
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { EXPORT_CONFIG } from '@/lib/config/export-config';
+import { ImageTransformOptions } from '@/lib/types/export';
+
+export const DEFAULT_TRANSFORM_OPTIONS: ImageTransformOptions = {
+  crop: 'none',
+  format: 'original',
+  quality: EXPORT_CONFIG.TRANSFORM_QUALITY,
+  strip_metadata: true,
+};
+
+interface TransformOptionsProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  value: ImageTransformOptions;
+  onChange: (value: ImageTransformOptions) => void;
+}
+
+export function transformOptionsValid(value: ImageTransformOptions): boolean {
+  return value.max_edge === undefined || value.max_edge >= 16;
+}
+
+export function TransformOptionsForm({ enabled, onEnabledChange, value, onChange }: TransformOptionsProps) {
+  // Quality only applies to lossy output; originals may be JPEG or WebP too
+  const lossy = value.format !== 'png';
+  
+  return (
+    <div className="space-y-4 border-t pt-4 dark:border-gray-700">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="transform-enabled" className="dark:text-gray-200">Resize and re-encode images</Label>
+        <Switch
+          id="transform-enabled"
+          checked={enabled}
+          onCheckedChange={onEnabledChange}
+          className="cursor-pointer"
+        />
+      </div>
+      
+      {enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="transform-max-edge" className="text-xs dark:text-gray-300">Max edge (px)</Label>
+              <Input
+                id="transform-max-edge"
+                type="number"
+                min={16}
+                max={16384}
+                placeholder="Keep size"
+                value={value.max_edge ?? ''}
+                onChange={(e) => onChange({
+                  ...value,
+                  max_edge: Math.min(16384, parseInt(e.target.value)) || undefined,
+                })}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+            </div>
+            <div>
+              <Label className="text-xs dark:text-gray-300">Crop</Label>
+              <Select
+                value={value.crop}
+                onValueChange={(crop) => onChange({ ...value, crop: crop as ImageTransformOptions['crop'] })}
+              >
+                <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                  <SelectItem value="none">No crop</SelectItem>
+                  <SelectItem value="center">Center square</SelectItem>
+                  <SelectItem value="attention">Subject-aware square</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs dark:text-gray-300">Format</Label>
+              <Select
+                value={value.format}
+                onValueChange={(format) => onChange({ ...value, format: format as ImageTransformOptions['format'] })}
+              >
+                <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white cursor-pointer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                  <SelectItem value="original">Keep original</SelectItem>
+                  <SelectItem value="jpeg">JPEG</SelectItem>
+                  <SelectItem value="png">PNG</SelectItem>
+                  <SelectItem value="webp">WebP</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="transform-quality" className="text-xs dark:text-gray-300">Quality</Label>
+              <Input
+                id="transform-quality"
+                type="number"
+                min={1}
+                max={100}
+                disabled={!lossy}
+                value={value.quality}
+                onChange={(e) => onChange({
+                  ...value,
+                  quality: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)),
+                })}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+            </div>
+          </div>
+          
+          {!transformOptionsValid(value) && (
+            <p className="text-xs text-red-600 dark:text-red-400">Max edge must be at least 16 px</p>
+          )}
+          
+          <div className="flex items-center justify-between">
+            <Label htmlFor="transform-strip" className="text-sm font-normal dark:text-gray-300">
+              Strip EXIF / XMP metadata
+            </Label>
+            <Switch
+              id="transform-strip"
+              checked={value.strip_metadata}
+              onCheckedChange={(strip_metadata) => onChange({ ...value, strip_metadata })}
+              className="cursor-pointer"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import { useSessionStore } from '@/stores/session-store';
 import { AIScoringFields } from '@/components/shared/ai-scoring-fields';
 import { toast } from 'sonner';
 import { formatBytes } from '@/lib/utils';
+import { ImageUploadResponse } from '@/lib/types';
 
 interface ImageUploadZoneProps {
   sessionId: string;
@@ -131,6 +132,15 @@ export function ImageUploadZone({ sessionId }: ImageUploadZoneProps) {
         
         if (data.success) {
           successCount++;
+          
+          // Uploaded anyway; point at the closest match so the user can clean up
+          const [match] = (data as ImageUploadResponse).duplicates || [];
+          if (match) {
+            toast.warning(
+              `${uploadFile.file.name} looks like ${match.kind === 'exact' ? 'an exact' : 'a near'} duplicate of ` +
+              `${match.original_filename} in "${match.session_name}"`
+            );
+          }
         } else {
           toast.error(`Failed to upload ${uploadFile.file.name}: ${data.error}`);
         }
@@ -16,6 +16,13 @@ export interface ExportConfig {
   MAX_CONCURRENT_FILES: number;
   STREAM_CHUNK_SIZE: number;
   
+  // WebDataset shards
+  WEBDATASET_SHARD_SIZE: number;
+  WEBDATASET_JPEG_QUALITY: number;
+  
+  // Export-time image transforms
+  TRANSFORM_QUALITY: number;
+  
   // Memory and timeout settings
   TIMEOUT_MS: number;
   MEMORY_LIMIT_MB: number;
@@ -48,6 +55,13 @@ export const EXPORT_CONFIG: ExportConfig = {
   MAX_CONCURRENT_FILES: 5, // Maximum concurrent file reads
   STREAM_CHUNK_SIZE: 64 * 1024, // 64KB streaming chunks
   
+  // Default samples per shard; non-JPEG images are re-encoded so every sample is <key>.jpg
+  WEBDATASET_SHARD_SIZE: 1000,
+  WEBDATASET_JPEG_QUALITY: 95,
+  
+  // Default JPEG/WebP quality when images are re-encoded by a transform
+  TRANSFORM_QUALITY: 90,
+  
   // 5 minutes timeout for large exports
   TIMEOUT_MS: 5 * 60 * 1000,
   
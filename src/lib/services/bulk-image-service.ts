@@ -0,0 +1,108 @@
+/**
+ * Applies one bulk action to a set of images in a session
+ * All-or-nothing: images are checked up front and the storage batch call is atomic
+ * @filepath src/lib/services/bulk-image-service.ts
+ */
+
+import { storage } from '@/lib/storage';
+import { BulkImageItemResult, BulkImageResult, BulkImageStatus, ImageRecord } from '@/lib/types';
+import { BulkImageActionInput } from '@/lib/validations';
+import { clearThumbnailCache } from '@/lib/utils/thumbnail-cache';
+
+const SUCCESS_STATUS: Record<BulkImageActionInput['type'], BulkImageStatus> = {
+  delete: 'deleted',
+  move: 'moved',
+  copy: 'copied',
+  add_tags: 'updated',
+  remove_tags: 'updated',
+  set_rating: 'updated',
+  set_generator: 'updated',
+  set_score: 'updated',
+};
+
+export class BulkImageService {
+  async apply(
+    sessionId: string,
+    imageIds: string[],
+    action: BulkImageActionInput
+  ): Promise<BulkImageResult> {
+    const ids = Array.from(new Set(imageIds));
+    
+    // Validate every image before touching anything
+    const sessionImageIds = new Set((await storage.listImages(sessionId)).map(img => img.id));
+    const missing = new Set(ids.filter(id => !sessionImageIds.has(id)));
+    
+    if (missing.size > 0) {
+      return this.result(action, false, ids.map(id => missing.has(id)
+        ? { id, status: 'failed', error: 'Image not found in this session' }
+        : { id, status: 'skipped' }
+      ));
+    }
+    
+    try {
+      await this.execute(sessionId, ids, action);
+    } catch (error) {
+      console.error(`❌ Bulk ${action.type} failed:`, error);
+      const message = error instanceof Error ? error.message : 'Bulk action failed';
+      return this.result(action, false, ids.map(id => ({ id, status: 'failed', error: message })));
+    }
+    
+    console.log(`✅ Bulk ${action.type} applied to ${ids.length} images in session ${sessionId}`);
+    return this.result(action, true, ids.map(id => ({ id, status: SUCCESS_STATUS[action.type] })));
+  }
+  
+  private async execute(sessionId: string, ids: string[], action: BulkImageActionInput): Promise<void> {
+    switch (action.type) {
+      case 'delete':
+        await storage.deleteImages(sessionId, ids);
+        await clearThumbnailCache(ids);
+        return;
+      case 'move':
+        await storage.moveImages(sessionId, ids, action.target_session_id);
+        await clearThumbnailCache(ids);
+        return;
+      case 'copy':
+        await storage.copyImages(sessionId, ids, action.target_session_id);
+        return;
+      default:
+        await storage.updateImages(sessionId, ids, image => this.buildUpdate(image, action));
+    }
+  }
+  
+  private buildUpdate(image: ImageRecord, action: BulkImageActionInput): Partial<ImageRecord> {
+    switch (action.type) {
+      case 'add_tags': {
+        const existing = new Set((image.tags || []).map(tag => tag.toLowerCase()));
+        const added = action.tags.filter(tag => !existing.has(tag.toLowerCase()));
+        return { tags: [...(image.tags || []), ...Array.from(new Set(added))] };
+      }
+      case 'remove_tags': {
+        const removed = new Set(action.tags.map(tag => tag.toLowerCase()));
+        return { tags: (image.tags || []).filter(tag => !removed.has(tag.toLowerCase())) };
+      }
+      case 'set_rating':
+        return { quality_rating: action.quality_rating ?? undefined };
+      case 'set_generator':
+        return { generator_used: action.generator_used };
+      case 'set_score': {
+        const aiScores = { ...image.ai_scores };
+        if (action.value === null) {
+          delete aiScores[action.field];
+        } else {
+          aiScores[action.field] = action.value;
+        }
+        return { ai_scores: aiScores };
+      }
+      default:
+        return {};
+    }
+  }
+  
+  private result(
+    action: BulkImageActionInput,
+    applied: boolean,
+    results: BulkImageItemResult[]
+  ): BulkImageResult {
+    return { applied, action: action.type, results };
+  }
+}
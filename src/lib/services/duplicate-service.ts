@@ -0,0 +1,263 @@
+/**
+ * Finds exact (SHA-256) and near (dHash) duplicate images and resolves them
+ * Images stored before hashing existed are hashed on the fly while building a report; the hashes
+ * are not saved, as a read-only report must not touch updated_at (npm run backfill:images stores them)
+ * @filepath src/lib/services/duplicate-service.ts
+ */
+
+import { readFile } from 'fs/promises';
+import { storage } from '@/lib/storage';
+import {
+  DuplicateGroup,
+  DuplicateGroupImage,
+  DuplicateMatch,
+  DuplicateReport,
+  DuplicateResolution,
+  ImageRecord,
+  Session,
+} from '@/lib/types';
+import {
+  ImageHashes,
+  NEAR_DUPLICATE_DISTANCE,
+  computeImageHashes,
+  hammingDistance,
+} from '@/lib/utils/image-hash';
+import { clearThumbnailCache } from '@/lib/utils/thumbnail-cache';
+
+export class DuplicateService {
+  /**
+   * Stored images of the user that match freshly computed hashes. Runs on every upload, so
+   * exact matches come from the content hash lookup across all sessions and near matches
+   * are only searched in `session`; the duplicates report covers the rest.
+   */
+  async findMatches(
+    userId: string,
+    session: Session,
+    hashes: ImageHashes,
+    excludeImageId?: string,
+    threshold: number = NEAR_DUPLICATE_DISTANCE
+  ): Promise<DuplicateMatch[]> {
+    const matches = new Map<string, DuplicateMatch>();
+    const sessionNames = new Map([[session.id, session.name]]);
+    
+    for (const image of await storage.findImagesByContentHash(userId, hashes.content_hash)) {
+      if (image.id === excludeImageId) continue;
+      
+      if (!sessionNames.has(image.session_id)) {
+        sessionNames.set(image.session_id, (await storage.getSession(image.session_id))?.name || '');
+      }
+      matches.set(image.id, DuplicateService.toMatch(image, sessionNames.get(image.session_id)!, 'exact', 0));
+    }
+    
+    for (const image of await storage.listImages(session.id)) {
+      if (image.id === excludeImageId || matches.has(image.id) || !image.perceptual_hash) continue;
+      
+      const distance = hammingDistance(image.perceptual_hash, hashes.perceptual_hash);
+      if (distance <= threshold) {
+        matches.set(image.id, DuplicateService.toMatch(image, session.name, 'near', distance));
+      }
+    }
+    
+    return Array.from(matches.values()).sort((a, b) => a.distance - b.distance);
+  }
+  
+  private static toMatch(
+    image: ImageRecord,
+    sessionName: string,
+    kind: DuplicateMatch['kind'],
+    distance: number
+  ): DuplicateMatch {
+    return {
+      image_id: image.id,
+      session_id: image.session_id,
+      session_name: sessionName,
+      original_filename: image.original_filename,
+      kind,
+      distance,
+    };
+  }
+  
+  async buildReport(
+    sessions: Session[],
+    threshold: number = NEAR_DUPLICATE_DISTANCE,
+    sessionId?: string
+  ): Promise<DuplicateReport> {
+    const report: DuplicateReport = {
+      session_id: sessionId,
+      threshold,
+      scanned: 0,
+      hashed: 0,
+      unreadable: 0,
+      groups: [],
+    };
+    
+    const candidates: DuplicateGroupImage[] = [];
+    
+    for (const session of sessions) {
+      for (let image of await storage.listImages(session.id)) {
+        report.scanned++;
+        
+        if (!image.content_hash || !image.perceptual_hash) {
+          try {
+            const hashes = await computeImageHashes(await readFile(image.file_path));
+            image = { ...image, ...hashes };
+            report.hashed++;
+          } catch {
+            report.unreadable++;
+            continue;
+          }
+        }
+        
+        candidates.push({ image, session_name: session.name });
+      }
+    }
+    
+    report.groups = DuplicateService.groupDuplicates(candidates, threshold);
+    return report;
+  }
+  
+  /**
+   * Cluster images whose content hashes are equal or whose perceptual hashes are within
+   * the threshold. Clusters are transitive, so a group's max_distance may exceed it.
+   */
+  static groupDuplicates(candidates: DuplicateGroupImage[], threshold: number): DuplicateGroup[] {
+    const parent = candidates.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+    const union = (a: number, b: number) => {
+      parent[find(a)] = find(b);
+    };
+    
+    // Identical hashes are joined directly; only distinct perceptual hashes are compared pairwise
+    const byContent = new Map<string, number>();
+    const byPerceptual = new Map<string, number>();
+    candidates.forEach(({ image }, index) => {
+      const sameContent = byContent.get(image.content_hash!);
+      if (sameContent !== undefined) {
+        union(index, sameContent);
+      } else {
+        byContent.set(image.content_hash!, index);
+      }
+      
+      const samePerceptual = byPerceptual.get(image.perceptual_hash!);
+      if (samePerceptual !== undefined) {
+        union(index, samePerceptual);
+      } else {
+        byPerceptual.set(image.perceptual_hash!, index);
+      }
+    });
+    
+    const distinct = Array.from(byPerceptual.entries());
+    for (let i = 0; i < distinct.length; i++) {
+      for (let j = i + 1; j < distinct.length; j++) {
+        if (hammingDistance(distinct[i][0], distinct[j][0]) <= threshold) {
+          union(distinct[i][1], distinct[j][1]);
+        }
+      }
+    }
+    
+    const clusters = new Map<number, DuplicateGroupImage[]>();
+    candidates.forEach((candidate, index) => {
+      const root = find(index);
+      clusters.set(root, [...(clusters.get(root) || []), candidate]);
+    });
+    
+    const groups: DuplicateGroup[] = [];
+    for (const members of Array.from(clusters.values())) {
+      if (members.length < 2) continue;
+      
+      // Oldest first: the usual choice of image to keep
+      members.sort((a, b) => a.image.upload_timestamp.localeCompare(b.image.upload_timestamp));
+      
+      const exact = members.every(m => m.image.content_hash === members[0].image.content_hash);
+      let maxDistance = 0;
+      if (!exact) {
+        for (let i = 0; i < members.length; i++) {
+          for (let j = i + 1; j < members.length; j++) {
+            maxDistance = Math.max(
+              maxDistance,
+              hammingDistance(members[i].image.perceptual_hash!, members[j].image.perceptual_hash!)
+            );
+          }
+        }
+      }
+      
+      groups.push({
+        id: members[0].image.id,
+        kind: exact ? 'exact' : 'near',
+        max_distance: maxDistance,
+        images: members,
+      });
+    }
+    
+    // Exact duplicates first, then by size
+    return groups.sort((a, b) =>
+      (a.kind === b.kind ? 0 : a.kind === 'exact' ? -1 : 1) || b.images.length - a.images.length
+    );
+  }
+  
+  /**
+   * Delete the duplicates of `keeper`. With 'merge', their tags, scores, rating, notes and
+   * settings are folded into the keeper first (the keeper's own values win on conflicts).
+   */
+  async resolve(
+    keeper: ImageRecord,
+    duplicates: ImageRecord[],
+    action: DuplicateResolution['action']
+  ): Promise<DuplicateResolution> {
+    const kept = action === 'merge'
+      ? await storage.updateImage(keeper.id, DuplicateService.mergeMetadata(keeper, duplicates))
+      : keeper;
+    
+    // Batch deletes are per session and all-or-nothing
+    const bySession = new Map<string, string[]>();
+    for (const image of duplicates) {
+      bySession.set(image.session_id, [...(bySession.get(image.session_id) || []), image.id]);
+    }
+    
+    const deleted: string[] = [];
+    for (const [sessionId, ids] of Array.from(bySession.entries())) {
+      await storage.deleteImages(sessionId, ids);
+      await clearThumbnailCache(ids);
+      deleted.push(...ids);
+    }
+    
+    console.log(`🧹 Resolved duplicates of ${keeper.id} (${action}): deleted ${deleted.length}`);
+    return { action, kept, deleted };
+  }
+  
+  static mergeMetadata(keeper: ImageRecord, duplicates: ImageRecord[]): Partial<ImageRecord> {
+    const all = [keeper, ...duplicates];
+    
+    const tags: string[] = [];
+    const seenTags = new Set<string>();
+    for (const tag of all.flatMap(image => image.tags || [])) {
+      if (seenTags.has(tag.toLowerCase())) continue;
+      seenTags.add(tag.toLowerCase());
+      tags.push(tag);
+    }
+    
+    const notes = Array.from(new Set(all.map(image => image.notes?.trim()).filter(Boolean)));
+    const ratings = all.map(image => image.quality_rating).filter((r): r is number => r !== undefined);
+    
+    // Spread in reverse so the keeper (first) wins
+    const reversed = [...all].reverse();
+    const aiScores = Object.assign({}, ...reversed.map(image => image.ai_scores || {}));
+    const settings = Object.assign({}, ...reversed.map(image => image.generation_settings || {}));
+    
+    return {
+      prompt: keeper.prompt || duplicates.find(image => image.prompt)?.prompt || '',
+      user_description: keeper.user_description || duplicates.find(image => image.user_description)?.user_description,
+      tags,
+      notes: notes.join('\n') || undefined,
+      quality_rating: ratings.length > 0 ? Math.max(...ratings) : undefined,
+      ai_scores: aiScores,
+      generation_settings: Object.keys(settings).length > 0 ? settings : undefined,
+    };
+  }
+}
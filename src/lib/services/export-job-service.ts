@@ -0,0 +1,808 @@
+/**
+ * Runs session exports as background jobs
+ * Jobs are persisted under data/exports/jobs/ and artifacts written to data/exports/;
+ * every finished export is appended to the session's export_history
+ * @filepath src/lib/services/export-job-service.ts
+ */
+
+import { storage } from '@/lib/storage';
+import { dataPath, toAbsolutePath, toRelativePath } from '@/lib/storage/paths';
+import { writeFileAtomic } from '@/lib/storage/file-lock';
+import { ExportRecord, ImageRecord, Session } from '@/lib/types';
+import {
+  DeltaOptions,
+  ExportDelta,
+  ExportDeltaBase,
+  ExportImage,
+  ExportJob,
+  ExportJobProgress,
+  ExportMode,
+  ExportOptions,
+  ManifestEntry,
+  SplitName,
+  SplitSummary,
+  WebDatasetManifest,
+  WebDatasetShard,
+} from '@/lib/types/export';
+import { EXPORT_CONFIG, ExportMetrics } from '@/lib/config/export-config';
+import {
+  checkMemoryUsage,
+  forceGC,
+  processImagesBatched,
+  safeReadFile,
+  validateImageFile,
+} from '@/lib/utils/stream-helpers';
+import { progressBus } from '@/lib/utils/progress-bus';
+import { DEFAULT_CSV_OPTIONS, buildCsv } from '@/lib/utils/csv-export';
+import {
+  COCO_ANNOTATIONS_FILE,
+  HF_METADATA_FILE,
+  archiveImagePath,
+  toCocoDataset,
+  toHfMetadataRows,
+} from '@/lib/utils/dataset-formats';
+import {
+  WEBDATASET_MANIFEST_FILE,
+  sampleKey,
+  shardName,
+  shardPattern,
+  toJpeg,
+  toSampleJson,
+} from '@/lib/utils/webdataset';
+import { SPLIT_NAMES, countSplits, resolveSplits } from '@/lib/utils/splits';
+import { applyExportFilter, isEmptyFilter } from '@/lib/utils/export-filter';
+import { isIdentityTransform, toTransformedImage, transformImage } from '@/lib/utils/image-transform';
+import { EXPORT_SCHEMA_VERSION } from '@/lib/utils/export-schema';
+import { CHECKSUMS_FILE, buildManifest, manifestEntry } from '@/lib/utils/checksums';
+import archiver from 'archiver';
+import { nanoid } from 'nanoid';
+import path from 'path';
+import { createWriteStream } from 'fs';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises';
+import { pipeline } from 'stream/promises';
+
+export const EXPORTS_DIR = dataPath('exports');
+const JOBS_DIR = path.join(EXPORTS_DIR, 'jobs');
+// Delta details and tombstones for layouts without a metadata.json
+const DELTA_FILE = 'deleted.json';
+
+const FORMATS: Record<ExportMode, ExportRecord['format']> = {
+  json: 'json',
+  csv: 'csv',
+  full: 'zip',
+  full_csv: 'zip',
+  hf_imagefolder: 'zip',
+  coco: 'zip',
+  webdataset: 'webdataset',
+};
+
+function isFinished(job: ExportJob): boolean {
+  return job.status === 'complete' || job.status === 'error';
+}
+
+// A single file, or a directory of shards for webdataset exports
+function getArtifactPath(job: ExportJob): string {
+  return job.mode === 'webdataset'
+    ? path.join(EXPORTS_DIR, job.id)
+    : path.join(EXPORTS_DIR, `${job.id}.${FORMATS[job.mode]}`);
+}
+
+async function getArtifactSize(artifactPath: string): Promise<number> {
+  const stats = await stat(artifactPath);
+  if (!stats.isDirectory()) return stats.size;
+  
+  let size = 0;
+  for (const file of await readdir(artifactPath)) {
+    size += (await stat(path.join(artifactPath, file))).size;
+  }
+  return size;
+}
+
+function removeArtifact(artifactPath: string): Promise<void> {
+  return rm(artifactPath, { recursive: true, force: true });
+}
+
+// Images stored before updated_at was tracked count as changed when they were uploaded
+function changedSince(image: ImageRecord, since: string): boolean {
+  return new Date(image.updated_at || image.upload_timestamp).getTime() > new Date(since).getTime();
+}
+
+// Image as listed in metadata.json: archive-relative file_path instead of the server path
+function toExportedRecord(image: ExportImage): Omit<ExportImage, 'archive_path'> {
+  const { archive_path: _, ...record } = image;
+  return { ...record, file_path: archiveImagePath(image) };
+}
+
+export class ExportJobService {
+  private getJobPath(jobId: string) {
+    return path.join(JOBS_DIR, `${path.basename(jobId)}.json`);
+  }
+  
+  private async saveJob(job: ExportJob): Promise<void> {
+    job.updated_at = new Date().toISOString();
+    await mkdir(JOBS_DIR, { recursive: true });
+    // getJob may read the file at any time, so it must never see it half-written
+    await writeFileAtomic(this.getJobPath(job.id), JSON.stringify(job, null, 2));
+  }
+  
+  // Persist progress and push it to subscribers of the job
+  private async updateJob(
+    job: ExportJob,
+    updates: Partial<Omit<ExportJob, 'progress'>> & { progress?: Partial<ExportJobProgress> }
+  ): Promise<void> {
+    Object.assign(job, updates, { progress: { ...job.progress, ...updates.progress } });
+    await this.saveJob(job);
+    
+    progressBus.publish('export', job.id, job.user_id, structuredClone(job), isFinished(job));
+  }
+  
+  /**
+   * Create a job and start it without waiting for it to finish.
+   * Progress is published on the progress bus and can also be read back with getJob().
+   */
+  async start(
+    session: Session,
+    userId: string,
+    mode: ExportMode,
+    options: ExportOptions = {}
+  ): Promise<ExportJob> {
+    const job: ExportJob = {
+      id: nanoid(),
+      session_id: session.id,
+      user_id: userId,
+      mode,
+      csv: mode === 'csv' || mode === 'full_csv' ? options.csv || DEFAULT_CSV_OPTIONS : undefined,
+      webdataset: mode === 'webdataset'
+        ? options.webdataset || { shard_size: EXPORT_CONFIG.WEBDATASET_SHARD_SIZE }
+        : undefined,
+      split: options.split,
+      filter: isEmptyFilter(options.filter) ? undefined : options.filter,
+      delta: options.delta ? this.resolveDelta(session, options.delta) : undefined,
+      transform: FORMATS[mode] === 'zip' && options.transform && !isIdentityTransform(options.transform)
+        ? options.transform
+        : undefined,
+      status: 'queued',
+      progress: {
+        total: session.image_count,
+        processed: 0,
+        failed: 0,
+        percentage: 0,
+        message: 'Waiting to start...',
+      },
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    await this.saveJob(job);
+    progressBus.publish('export', job.id, userId, structuredClone(job));
+    
+    this.run(job).catch(error => {
+      console.error(`❌ Export job ${job.id} crashed:`, error);
+    });
+    
+    console.log(`🚀 Started ${mode} export job ${job.id} for session ${session.id}`);
+    return job;
+  }
+  
+  // The export a delta is built on: the given one, or the session's latest export
+  getDeltaBaseline(session: Session, baselineExportId?: string): ExportRecord | null {
+    const history = session.export_history || [];
+    if (baselineExportId) {
+      return history.find(record => record.id === baselineExportId) || null;
+    }
+    return history[history.length - 1] || null;
+  }
+  
+  private resolveDelta(session: Session, options: DeltaOptions): ExportDeltaBase {
+    const baseline = this.getDeltaBaseline(session, options.baseline_export_id);
+    if (!baseline) {
+      throw new Error('Baseline export not found');
+    }
+    
+    // Older records have no snapshot time; their completion time is the closest substitute
+    return { baseline_export_id: baseline.id, since: baseline.snapshot_at || baseline.exported_at };
+  }
+  
+  async getJob(jobId: string): Promise<ExportJob | null> {
+    let job: ExportJob;
+    try {
+      job = JSON.parse(await readFile(this.getJobPath(jobId), 'utf-8'));
+    } catch {
+      return null;
+    }
+    
+    // Running jobs save at least once per batch; a long silence means the server stopped mid-export
+    const silentFor = Date.now() - new Date(job.updated_at).getTime();
+    if (!isFinished(job) && silentFor > EXPORT_CONFIG.TIMEOUT_MS) {
+      job.status = 'error';
+      job.error = 'Export was interrupted';
+      job.progress.message = 'Export failed';
+      job.completed_at = new Date().toISOString();
+      await this.saveJob(job);
+    }
+    
+    return job;
+  }
+  
+  private async run(job: ExportJob): Promise<void> {
+    const artifactPath = getArtifactPath(job);
+    // Taken before anything is read, so a later delta on this export can't miss a change
+    const snapshotAt = new Date().toISOString();
+    
+    try {
+      const session = await storage.getSession(job.session_id);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      
+      await this.updateJob(job, {
+        status: 'validating',
+        started_at: new Date().toISOString(),
+        progress: { message: 'Validating image files...' },
+      });
+      
+      const records = await storage.listImages(job.session_id);
+      if (records.length === 0 && !job.delta) {
+        throw new Error('Session has no images to export');
+      }
+      
+      // Splits cover the whole session so they stay stable whatever subset is exported
+      const splitImages = job.split ? await this.applySplits(job, session, records) : records;
+      const filtered = job.filter ? applyExportFilter(splitImages, job.filter) : splitImages;
+      const delta = job.delta ? this.getDelta(job.delta, session, records) : undefined;
+      const images = delta ? filtered.filter(image => changedSince(image, delta.since)) : filtered;
+      if (images.length === 0 && !delta?.deleted.length) {
+        throw new Error(delta ? 'Nothing changed since the baseline export' : 'No images match the export filter');
+      }
+      
+      await mkdir(EXPORTS_DIR, { recursive: true });
+      
+      let imageCount: number;
+      let shardCount: number | undefined;
+      switch (job.mode) {
+        case 'json':
+          imageCount = await this.writeJsonExport(job, session, images, artifactPath, delta);
+          break;
+        case 'csv':
+          imageCount = await this.writeCsvExport(job, images, artifactPath);
+          break;
+        case 'webdataset': {
+          const manifest = await this.writeWebDatasetExport(job, session, images, artifactPath, delta);
+          imageCount = manifest.total_samples;
+          shardCount = manifest.shards.length;
+          break;
+        }
+        default:
+          imageCount = await this.writeZipExport(job, session, images, artifactPath, delta);
+      }
+      
+      const size = await getArtifactSize(artifactPath);
+      const record: ExportRecord = {
+        id: nanoid(),
+        exported_at: new Date().toISOString(),
+        exported_by: job.user_id,
+        format: FORMATS[job.mode],
+        file_path: toRelativePath(artifactPath),
+        image_count: imageCount,
+        file_size: size,
+        job_id: job.id,
+        shard_count: shardCount,
+        filter: job.filter,
+        snapshot_at: snapshotAt,
+        delta: delta && {
+          baseline_export_id: delta.baseline_export_id,
+          since: delta.since,
+          deleted_count: delta.deleted.length,
+        },
+      };
+      
+      // Appended to the current history: the session may have been edited while the export ran
+      await storage.mutateSession(job.session_id, current => ({
+        export_history: [...(current.export_history || []), record],
+      }));
+      
+      await this.updateJob(job, {
+        status: 'complete',
+        completed_at: new Date().toISOString(),
+        record_id: record.id,
+        file_size: size,
+        progress: {
+          percentage: 100,
+          current_image: undefined,
+          message: 'Export completed successfully',
+        },
+      });
+      
+      console.log(`✅ Export job ${job.id} finished: ${imageCount} images, ${(size / 1024).toFixed(1)}KB`);
+    } catch (error) {
+      console.error(`❌ Export job ${job.id} failed:`, error);
+      await removeArtifact(artifactPath).catch(() => undefined);
+      
+      await this.updateJob(job, {
+        status: 'error',
+        completed_at: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Export operation failed',
+        progress: { message: 'Export failed' },
+      });
+    }
+  }
+  
+  private async writeJsonExport(
+    job: ExportJob,
+    session: Session,
+    images: ExportImage[],
+    artifactPath: string,
+    delta?: ExportDelta
+  ): Promise<number> {
+    await this.updateJob(job, {
+      status: 'processing',
+      progress: { total: images.length, percentage: 50, message: 'Generating JSON export...' },
+    });
+    
+    const exportData = {
+      session,
+      // Use relative paths for portability
+      images: images.map(toExportedRecord),
+      export_timestamp: new Date().toISOString(),
+      export_version: EXPORT_SCHEMA_VERSION,
+      split: this.getSplitSummary(job, session),
+      filter: job.filter,
+      delta,
+    };
+    
+    await writeFile(artifactPath, JSON.stringify(exportData, null, 2));
+    await this.updateJob(job, { progress: { processed: images.length } });
+    
+    return images.length;
+  }
+  
+  private async writeCsvExport(
+    job: ExportJob,
+    images: ExportImage[],
+    artifactPath: string
+  ): Promise<number> {
+    await this.updateJob(job, {
+      status: 'processing',
+      progress: { total: images.length, percentage: 50, message: 'Generating CSV export...' },
+    });
+    
+    const { columns, delimiter } = job.csv || DEFAULT_CSV_OPTIONS;
+    await writeFile(artifactPath, buildCsv(images, this.getCsvColumns(job, columns), delimiter));
+    await this.updateJob(job, { progress: { processed: images.length } });
+    
+    return images.length;
+  }
+  
+  private async writeZipExport(
+    job: ExportJob,
+    session: Session,
+    images: ExportImage[],
+    artifactPath: string,
+    delta?: ExportDelta
+  ): Promise<number> {
+    const validationResults = await Promise.all(
+      images.map(async (image) => ({
+        image,
+        validation: await validateImageFile(image.file_path),
+      }))
+    );
+    
+    const validImages = validationResults.filter(r => r.validation.isValid).map(r => r.image);
+    const invalidImages = validationResults.filter(r => !r.validation.isValid);
+    
+    invalidImages.forEach(({ image, validation }) => {
+      console.warn(`⚠️  Skipping ${image.filename}: ${validation.error}`);
+    });
+    
+    // A delta with only deletions has no images to validate
+    if (validImages.length === 0 && invalidImages.length > 0) {
+      throw new Error('All images are invalid or missing');
+    }
+    
+    await this.updateJob(job, {
+      status: 'processing',
+      progress: {
+        total: validImages.length,
+        failed: invalidImages.length,
+        percentage: 10,
+        message: `Processing ${validImages.length} valid images...`,
+      },
+    });
+    
+    const metrics = new ExportMetrics(validImages.length);
+    const archive = archiver('zip', EXPORT_CONFIG.ARCHIVER_OPTIONS);
+    archive.on('warning', (warning) => {
+      if (warning.code !== 'ENOENT') {
+        console.warn('📦 Archive warning:', warning.message);
+      }
+    });
+    
+    // Start draining into the file before anything is appended
+    const written = pipeline(archive, createWriteStream(artifactPath));
+    
+    // Transformed images are listed as written: new dimensions, size and file name
+    const transformed = new Map<string, ExportImage>();
+    const transformFailed = new Set<string>();
+    const imageFiles: ManifestEntry[] = [];
+    
+    await processImagesBatched(
+      validImages,
+      async (batch) => {
+        for (const image of batch) {
+          const buffer = await safeReadFile(image.file_path, image.filename, metrics);
+          if (!buffer) continue;
+          
+          let entry = { image, buffer };
+          if (job.transform) {
+            try {
+              const result = await transformImage(buffer, job.transform);
+              entry = {
+                image: toTransformedImage(image, archiveImagePath(image), result, job.transform),
+                buffer: result.buffer,
+              };
+              transformed.set(image.id, entry.image);
+            } catch (error) {
+              console.warn(`⚠️  Skipping ${image.filename}: transform failed:`, error);
+              transformFailed.add(image.id);
+              continue;
+            }
+          }
+          
+          const name = archiveImagePath(entry.image);
+          archive.append(entry.buffer, {
+            name,
+            date: new Date(image.upload_timestamp || Date.now()),
+          });
+          imageFiles.push(manifestEntry(name, entry.buffer));
+          job.progress.current_image = image.filename;
+        }
+        
+        await this.updateJob(job, {
+          progress: {
+            processed: metrics.processedCount - transformFailed.size,
+            failed: invalidImages.length + metrics.failedCount + transformFailed.size,
+            percentage: Math.round(Math.min(95, 10 + (metrics.processedCount / validImages.length) * 85)),
+            message: `Processing images... (${metrics.processedCount}/${validImages.length})`,
+          },
+        });
+        
+        if (checkMemoryUsage().shouldGC) {
+          forceGC();
+        }
+      },
+      EXPORT_CONFIG.BATCH_SIZE
+    );
+    
+    // Metadata goes last so it can describe the transformed files
+    const listed = validImages
+      .filter(image => !transformFailed.has(image.id))
+      .map(image => transformed.get(image.id) || image);
+    const skipped = invalidImages.length + transformFailed.size;
+    for (const entry of this.getMetadataEntries(job, session, listed, skipped, delta, imageFiles)) {
+      archive.append(entry.content, { name: entry.name });
+    }
+    
+    await archive.finalize();
+    await written;
+    
+    const stats = metrics.getStats();
+    console.log(`📦 Wrote ${artifactPath}:`, {
+      processed: stats.processedFiles - transformFailed.size,
+      failed: stats.failedFiles + transformFailed.size,
+      duration: `${(stats.elapsedMs / 1000).toFixed(1)}s`,
+    });
+    
+    return metrics.processedCount - transformFailed.size;
+  }
+  
+  /**
+   * Write tar shards of shard_size samples plus manifest.json into artifactDir.
+   * Shards are written one at a time, so memory stays bounded by one batch of images.
+   */
+  private async writeWebDatasetExport(
+    job: ExportJob,
+    session: Session,
+    images: ExportImage[],
+    artifactDir: string,
+    delta?: ExportDelta
+  ): Promise<WebDatasetManifest> {
+    const shardSize = job.webdataset?.shard_size || EXPORT_CONFIG.WEBDATASET_SHARD_SIZE;
+    // Per-split shards: write the images split by split, each split numbering its own shards
+    const perSplit = job.split?.output === 'directories';
+    const ordered = perSplit
+      ? SPLIT_NAMES.flatMap(name => images.filter(image => image.split === name))
+      : images;
+    
+    await this.updateJob(job, {
+      status: 'processing',
+      progress: {
+        total: images.length,
+        percentage: 5,
+        message: `Writing ${Math.ceil(images.length / shardSize)} shards...`,
+      },
+    });
+    
+    await mkdir(artifactDir, { recursive: true });
+    
+    const metrics = new ExportMetrics(images.length);
+    const shards: WebDatasetShard[] = [];
+    let archive: archiver.Archiver | null = null;
+    let written: Promise<void> | null = null;
+    let current: WebDatasetShard | null = null;
+    
+    const closeShard = async () => {
+      if (!archive || !current) return;
+      await archive.finalize();
+      await written;
+      current.size = (await stat(path.join(artifactDir, current.name))).size;
+      shards.push(current);
+      archive = null;
+      current = null;
+    };
+    
+    await processImagesBatched(
+      ordered,
+      async (batch) => {
+        for (const image of batch) {
+          const buffer = await safeReadFile(image.file_path, image.filename, metrics);
+          if (!buffer) continue;
+          
+          const split = perSplit ? image.split : undefined;
+          if (current && current.split !== split) {
+            await closeShard();
+          }
+          
+          let jpeg: Buffer;
+          try {
+            jpeg = await toJpeg(buffer);
+          } catch (error) {
+            console.warn(`⚠️  Skipping ${image.filename}: could not convert to JPEG`, error);
+            metrics.recordFailed();
+            continue;
+          }
+          
+          if (!archive || !current) {
+            const index = shards.filter(shard => shard.split === split).length;
+            current = { name: shardName(index, split), split, samples: 0, size: 0, keys: [] };
+            archive = archiver('tar');
+            written = pipeline(archive, createWriteStream(path.join(artifactDir, current.name)));
+          }
+          
+          const key = sampleKey(image);
+          const date = new Date(image.upload_timestamp || Date.now());
+          archive.append(jpeg, { name: `${key}.jpg`, date });
+          archive.append(toSampleJson(image), { name: `${key}.json`, date });
+          current.keys.push(key);
+          current.samples++;
+          job.progress.current_image = image.filename;
+          
+          if (current.samples >= shardSize) {
+            await closeShard();
+          }
+        }
+        
+        const sampleCount = shards.reduce((sum, shard) => sum + shard.samples, 0) + (current?.samples || 0);
+        await this.updateJob(job, {
+          progress: {
+            processed: sampleCount,
+            failed: metrics.failedCount,
+            percentage: Math.round(Math.min(95, 5 + (metrics.processedCount / images.length) * 90)),
+            message: `Writing shard ${shards.length + 1}... (${sampleCount}/${images.length})`,
+          },
+        });
+        
+        if (checkMemoryUsage().shouldGC) {
+          forceGC();
+        }
+      },
+      EXPORT_CONFIG.BATCH_SIZE
+    );
+    
+    await closeShard();
+    
+    const totalSamples = shards.reduce((sum, shard) => sum + shard.samples, 0);
+    if (totalSamples === 0 && images.length > 0) {
+      throw new Error('All images are invalid or missing');
+    }
+    
+    const manifest: WebDatasetManifest = {
+      format: 'webdataset',
+      session: { id: session.id, name: session.name },
+      export_timestamp: new Date().toISOString(),
+      export_version: EXPORT_SCHEMA_VERSION,
+      shard_size: shardSize,
+      total_samples: totalSamples,
+      shard_pattern: perSplit ? undefined : shardPattern(shards.length),
+      split_patterns: perSplit ? this.getSplitPatterns(shards) : undefined,
+      split: this.getSplitSummary(job, session),
+      filter: job.filter,
+      delta,
+      shards,
+    };
+    await writeFile(path.join(artifactDir, WEBDATASET_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    
+    const stats = metrics.getStats();
+    console.log(`📦 Wrote ${shards.length} shards to ${artifactDir}:`, {
+      samples: totalSamples,
+      failed: stats.failedFiles,
+      duration: `${(stats.elapsedMs / 1000).toFixed(1)}s`,
+    });
+    
+    return manifest;
+  }
+  
+  // Metadata files of a ZIP export; the layout depends on the export profile
+  private getMetadataEntries(
+    job: ExportJob,
+    session: Session,
+    images: ExportImage[],
+    invalidCount: number,
+    delta: ExportDelta | undefined,
+    imageFiles: ManifestEntry[]
+  ): { name: string; content: string }[] {
+    type Entry = { name: string; content: string };
+    const toJsonl = (rows: Record<string, unknown>[]) => rows.map(row => JSON.stringify(row)).join('\n') + '\n';
+    // Dataset layouts have no place for tombstones, so they get a file of their own
+    const deltaEntries = delta && job.mode !== 'full' && job.mode !== 'full_csv'
+      ? [{ name: DELTA_FILE, content: JSON.stringify(delta, null, 2) }]
+      : [];
+    // Checksums of the images and of every metadata file but the one holding the manifest
+    const manifestOf = (entries: Entry[]) =>
+      buildManifest([...imageFiles, ...entries.map(entry => manifestEntry(entry.name, entry.content))]);
+    const withChecksums = (entries: Entry[]) =>
+      [...entries, { name: CHECKSUMS_FILE, content: JSON.stringify(manifestOf(entries), null, 2) }];
+    
+    switch (job.mode) {
+      case 'hf_imagefolder':
+        // datasets picks up train/val/test folders as splits when each has its own metadata.jsonl
+        if (job.split?.output === 'directories') {
+          return withChecksums(SPLIT_NAMES
+            .map(name => ({ name, images: images.filter(image => image.split === name) }))
+            .filter(group => group.images.length > 0)
+            .map(group => ({
+              name: `images/${group.name}/${HF_METADATA_FILE}`,
+              content: toJsonl(toHfMetadataRows(group.images, `images/${group.name}/`)),
+            }))
+            .concat(deltaEntries));
+        }
+        return withChecksums([{ name: HF_METADATA_FILE, content: toJsonl(toHfMetadataRows(images)) }, ...deltaEntries]);
+      case 'coco':
+        return withChecksums([{
+          name: COCO_ANNOTATIONS_FILE,
+          content: JSON.stringify(toCocoDataset(session, images), null, 2),
+        }, ...deltaEntries]);
+    }
+    
+    // Flat table for dataframe-based pipelines; metadata.json keeps the archive importable
+    const extras: Entry[] = [];
+    if (job.csv) {
+      const { columns, delimiter } = job.csv;
+      extras.push({
+        name: 'metadata.csv',
+        content: buildCsv(images, this.getCsvColumns(job, columns), delimiter),
+      });
+    }
+    
+    const exportData = {
+      session,
+      images: images.map(toExportedRecord), // Relative paths
+      export_timestamp: new Date().toISOString(),
+      export_version: EXPORT_SCHEMA_VERSION,
+      export_stats: {
+        total_images: images.length + invalidCount,
+        valid_images: images.length,
+        invalid_images: invalidCount,
+      },
+      split: this.getSplitSummary(job, session),
+      filter: job.filter,
+      delta,
+      transform: job.transform,
+      manifest: manifestOf(extras),
+    };
+    
+    return [{ name: 'metadata.json', content: JSON.stringify(exportData, null, 2) }, ...extras];
+  }
+  
+  /**
+   * Assign every image to a split and store the assignments on the session,
+   * so the next export keeps them unless it asks for a reshuffle
+   */
+  private async applySplits(job: ExportJob, session: Session, images: ImageRecord[]): Promise<ExportImage[]> {
+    const options = job.split!;
+    // Resolved against the stored assignments, which another export may have just changed
+    const updated = await storage.mutateSession(session.id, current => ({
+      splits: resolveSplits(images, options, current.splits),
+    }));
+    const splits = updated.splits!;
+    session.splits = splits;
+    
+    const counts = countSplits(splits.assignments);
+    console.log(`🔀 Split ${images.length} images:`, counts, options.reshuffle ? '(reshuffled)' : '');
+    
+    return images.map(image => {
+      const split = splits.assignments[image.id];
+      return {
+        ...image,
+        split,
+        archive_path: options.output === 'directories' ? `images/${split}/${image.filename}` : undefined,
+      };
+    });
+  }
+  
+  // Tombstones of images that left the session after the baseline and haven't come back
+  private getDelta(base: ExportDeltaBase, session: Session, images: ImageRecord[]): ExportDelta {
+    const present = new Set(images.map(image => image.id));
+    const since = new Date(base.since).getTime();
+    
+    return {
+      ...base,
+      deleted: (session.deleted_images || []).filter(tombstone =>
+        new Date(tombstone.deleted_at).getTime() > since && !present.has(tombstone.id)
+      ),
+    };
+  }
+  
+  // Recorded in the export metadata so the split can be reproduced
+  private getSplitSummary(job: ExportJob, session: Session): SplitSummary | undefined {
+    if (!job.split || !session.splits) return undefined;
+    
+    return {
+      ...session.splits.config,
+      output: job.split.output,
+      counts: countSplits(session.splits.assignments),
+    };
+  }
+  
+  // CSV exports with splits always carry the split column
+  private getCsvColumns(job: ExportJob, columns: string[]): string[] {
+    return job.split && !columns.includes('split') ? [...columns, 'split'] : columns;
+  }
+  
+  private getSplitPatterns(shards: WebDatasetShard[]): Partial<Record<SplitName, string>> {
+    const patterns: Partial<Record<SplitName, string>> = {};
+    for (const name of SPLIT_NAMES) {
+      const count = shards.filter(shard => shard.split === name).length;
+      if (count > 0) patterns[name] = shardPattern(count, name);
+    }
+    return patterns;
+  }
+  
+  // Remove an export record and its artifact
+  async deleteExport(session: Session, recordId: string): Promise<ExportRecord | null> {
+    const record = session.export_history?.find(r => r.id === recordId);
+    if (!record) return null;
+    
+    await removeArtifact(toAbsolutePath(record.file_path)).catch(() => undefined);
+    await storage.mutateSession(session.id, current => ({
+      export_history: (current.export_history || []).filter(r => r.id !== recordId),
+    }));
+    
+    console.log(`🗑️  Deleted export ${recordId} of session ${session.id}`);
+    return record;
+  }
+  
+  // Artifacts and job files of a session that is being deleted
+  async removeSessionExports(session: Session): Promise<void> {
+    for (const record of session.export_history || []) {
+      await removeArtifact(toAbsolutePath(record.file_path)).catch(() => undefined);
+    }
+    
+    const jobFiles = await readdir(JOBS_DIR).catch(() => [] as string[]);
+    for (const file of jobFiles) {
+      const job = await this.getJob(path.basename(file, '.json'));
+      if (job?.session_id === session.id && isFinished(job)) {
+        await rm(this.getJobPath(job.id), { force: true });
+      }
+    }
+  }
+  
+  static getDownloadName(session: Session, record: ExportRecord): string {
+    const base = session.name.replace(/[^a-zA-Z0-9_-]+/g, '_') + (record.delta ? '_delta' : '');
+    const date = record.exported_at.slice(0, 10);
+    if (record.format === 'webdataset') {
+      return `${base}_webdataset_${date}.tar`;
+    }
+    return record.format === 'zip'
+      ? `${base}_full_export_${date}.zip`
+      : `${base}_export_${date}.${record.format}`;
+  }
+}
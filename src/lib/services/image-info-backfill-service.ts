@@ -0,0 +1,91 @@
+/**
+ * Fills in dimensions, MIME type, color space, content hashes and embedded generation settings
+ * for images stored before they were read at upload time (incl. ImportService records)
+ * @filepath src/lib/services/image-info-backfill-service.ts
+ */
+
+import { readFile } from 'fs/promises';
+import { StorageAdapter } from '@/lib/storage/base';
+import { ImageRecord } from '@/lib/types';
+import { BackfillOptions, BackfillReport } from '@/lib/types/backfill';
+import { mergeGenerationSettings, readImageInfo } from '@/lib/utils/image-info';
+import { computeImageHashes } from '@/lib/utils/image-hash';
+
+export class ImageInfoBackfillService {
+  private storage: StorageAdapter;
+  
+  constructor(storage: StorageAdapter) {
+    this.storage = storage;
+  }
+  
+  static needsBackfill(image: ImageRecord): boolean {
+    return !image.mime_type
+      || !image.image_dimensions?.width
+      || !image.image_dimensions?.height
+      || !image.content_hash
+      || !image.perceptual_hash;
+  }
+  
+  async run(options: BackfillOptions): Promise<BackfillReport> {
+    const report: BackfillReport = {
+      dryRun: options.dryRun,
+      sessions: 0,
+      scanned: 0,
+      updated: 0,
+      upToDate: 0,
+      missingFiles: 0,
+      issues: [],
+    };
+    
+    const sessions = options.sessionId
+      ? [await this.storage.getSession(options.sessionId)].filter(s => s !== null)
+      : await this.storage.listSessions();
+    
+    for (const session of sessions) {
+      report.sessions++;
+      
+      for (const image of await this.storage.listImages(session.id)) {
+        report.scanned++;
+        
+        if (!options.force && !ImageInfoBackfillService.needsBackfill(image)) {
+          report.upToDate++;
+          continue;
+        }
+        
+        let buffer: Buffer;
+        try {
+          buffer = await readFile(image.file_path);
+        } catch {
+          report.missingFiles++;
+          report.issues.push({ sessionId: session.id, imageId: image.id, message: 'File missing' });
+          continue;
+        }
+        
+        try {
+          const info = await readImageInfo(buffer);
+          const hashes = await computeImageHashes(buffer);
+          
+          if (!options.dryRun) {
+            await this.storage.updateImage(image.id, {
+              file_size: buffer.length,
+              image_dimensions: { width: info.width, height: info.height },
+              mime_type: info.mime_type,
+              color_space: info.color_space,
+              ...hashes,
+              generation_settings: mergeGenerationSettings(info.generation_settings, image.generation_settings),
+            });
+          }
+          report.updated++;
+        } catch (error) {
+          report.issues.push({
+            sessionId: session.id,
+            imageId: image.id,
+            message: error instanceof Error ? error.message : 'Failed to read image',
+          });
+        }
+      }
+    }
+    
+    return report;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Replaces an image's file while keeping its record, and restores earlier files
+ * The outgoing file is archived under data/versions/<imageId>/ before anything is overwritten
+ * @filepath src/lib/services/image-version-service.ts
+ */
+
+import { storage } from '@/lib/storage';
+import { dataPath, toAbsolutePath, toRelativePath } from '@/lib/storage/paths';
+import { ImageRecord, ImageVersion } from '@/lib/types';
+import { generateFileName } from '@/lib/utils';
+import { ImageInfo } from '@/lib/utils/image-info';
+import { ImageHashes, computeImageHashes } from '@/lib/utils/image-hash';
+import { clearThumbnailCache } from '@/lib/utils/thumbnail-cache';
+import { nanoid } from 'nanoid';
+import path from 'path';
+import { access, mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+
+export const VERSIONS_DIR = dataPath('versions');
+
+interface ArchivedFile {
+  version: ImageVersion;
+  undo: () => Promise<void>;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class ImageVersionService {
+  private getImagesDir(sessionId: string) {
+    return dataPath('sessions', sessionId, 'images');
+  }
+  
+  // Move the record's current file into the versions directory
+  private async archiveCurrent(image: ImageRecord, userId: string): Promise<ArchivedFile | null> {
+    if (!(await exists(image.file_path))) {
+      console.warn(`⚠️  Current file missing for image ${image.id}, nothing to archive`);
+      return null;
+    }
+    
+    const id = nanoid();
+    const dir = path.join(VERSIONS_DIR, image.id);
+    const versionPath = path.join(dir, `${id}${path.extname(image.filename)}`);
+    
+    await mkdir(dir, { recursive: true });
+    await rename(image.file_path, versionPath);
+    
+    return {
+      version: {
+        id,
+        filename: image.filename,
+        file_path: toRelativePath(versionPath),
+        file_size: image.file_size,
+        image_dimensions: image.image_dimensions,
+        mime_type: image.mime_type,
+        color_space: image.color_space,
+        replaced_at: new Date().toISOString(),
+        replaced_by: userId,
+      },
+      undo: () => rename(versionPath, image.file_path),
+    };
+  }
+  
+  // The caller reads info and hashes from the new file first, so non-images are rejected up front
+  async replace(
+    image: ImageRecord,
+    file: { buffer: Buffer; name: string; info: ImageInfo; hashes: ImageHashes },
+    userId: string
+  ): Promise<ImageRecord> {
+    const { buffer, info, hashes } = file;
+    const imagesDir = this.getImagesDir(image.session_id);
+    const filename = generateFileName(file.name);
+    const filePath = path.join(imagesDir, filename);
+    
+    const archived = await this.archiveCurrent(image, userId);
+    
+    try {
+      await mkdir(imagesDir, { recursive: true });
+      await writeFile(filePath, buffer);
+      
+      const updated = await storage.updateImage(image.id, {
+        filename,
+        file_path: filePath,
+        file_size: buffer.length,
+        image_dimensions: { width: info.width, height: info.height },
+        mime_type: info.mime_type,
+        color_space: info.color_space,
+        ...hashes,
+        versions: [...(image.versions || []), ...(archived ? [archived.version] : [])],
+      });
+      
+      await clearThumbnailCache(image.id);
+      console.log(`♻️  Replaced file of image ${image.id} (${filename})`);
+      
+      return updated;
+    } catch (error) {
+      await rm(filePath, { force: true });
+      await archived?.undo();
+      throw error;
+    }
+  }
+  
+  // The current file becomes a version itself, so a restore can be undone too
+  async restore(image: ImageRecord, versionId: string, userId: string): Promise<ImageRecord> {
+    const version = image.versions?.find(v => v.id === versionId);
+    if (!version) throw new Error('Version not found');
+    
+    const versionPath = toAbsolutePath(version.file_path);
+    if (!(await exists(versionPath))) throw new Error('Version file is missing');
+    
+    const imagesDir = this.getImagesDir(image.session_id);
+    const archived = await this.archiveCurrent(image, userId);
+    
+    // The old name is normally free again, but don't clobber anything
+    const filename = await exists(path.join(imagesDir, version.filename))
+      ? `${version.id}_${version.filename}`
+      : version.filename;
+    const filePath = path.join(imagesDir, filename);
+    
+    try {
+      await mkdir(imagesDir, { recursive: true });
+      await rename(versionPath, filePath);
+      
+      try {
+        const hashes = await computeImageHashes(await readFile(filePath));
+        const updated = await storage.updateImage(image.id, {
+          filename,
+          file_path: filePath,
+          file_size: version.file_size,
+          image_dimensions: version.image_dimensions,
+          mime_type: version.mime_type,
+          color_space: version.color_space,
+          ...hashes,
+          versions: [
+            ...(image.versions || []).filter(v => v.id !== versionId),
+            ...(archived ? [archived.version] : []),
+          ],
+        });
+        
+        await clearThumbnailCache(image.id);
+        console.log(`⏪ Restored version ${versionId} of image ${image.id}`);
+        
+        return updated;
+      } catch (error) {
+        await rename(filePath, versionPath);
+        throw error;
+      }
+    } catch (error) {
+      await archived?.undo();
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Import jobs always end with a final event, and their result outlives the progress bus
+ * @filepath src/lib/services/import-job-service.test.ts
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ImportJobService } from './import-job-service';
+import { ImportService } from './import-service';
+import { ImportJob, ImportOptions } from '@/lib/types/import';
+import { progressBus, type ProgressEvent } from '@/lib/utils/progress-bus';
+
+const upload = {
+  name: 'broken.zip',
+  stream: () => new Blob([new Uint8Array([1, 2, 3])]).stream(),
+};
+
+const options: ImportOptions = { mode: 'new', duplicateStrategy: 'skip', preserveIds: false };
+
+function finalEvent(jobId: string): Promise<ProgressEvent> {
+  return new Promise(resolve => {
+    const unsubscribe = progressBus.subscribe(jobId, event => {
+      if (!event.done) return;
+      unsubscribe();
+      resolve(event);
+    });
+  });
+}
+
+describe('ImportJobService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+  
+  it('publishes a final error event when the import throws', async () => {
+    vi.spyOn(ImportService.prototype, 'importData').mockRejectedValue(new Error('Rollback failed'));
+    
+    const service = new ImportJobService();
+    const job = await service.start(upload, options, 'u1');
+    const event = await finalEvent(job.id);
+    
+    const finished = event.data as ImportJob;
+    expect(finished.progress.status).toBe('error');
+    expect(finished.progress.errors).toContain('Rollback failed');
+    expect(finished.result).toMatchObject({ success: false, errors: ['Rollback failed'] });
+  });
+  
+  it('reads a finished job back once the progress bus has dropped it', async () => {
+    const result = { success: true, sessionId: 's1', imported: 2, skipped: 0, errors: [] };
+    vi.spyOn(ImportService.prototype, 'importData').mockResolvedValue(result);
+    
+    const service = new ImportJobService();
+    const job = await service.start(upload, options, 'u1');
+    await finalEvent(job.id);
+    
+    vi.spyOn(progressBus, 'getLatest').mockReturnValue(undefined);
+    // The job is saved right after its final event
+    await vi.waitFor(async () => {
+      expect((await service.getJob(job.id))?.result).toEqual(result);
+    });
+    
+    expect(await service.getJob('unknown-job')).toBeNull();
+  });
+});
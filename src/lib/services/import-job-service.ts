@@ -0,0 +1,138 @@
+/**
+ * Background import jobs: the upload is saved to disk, then imported while progress is published
+ * Running jobs live on the progress bus; finished jobs are also saved so their result outlives it
+ * @filepath src/lib/services/import-job-service.ts
+ */
+
+import { ImportService } from '@/lib/services/import-service';
+import { writeFileAtomic } from '@/lib/storage/file-lock';
+import { dataPath } from '@/lib/storage/paths';
+import { ImportJob, ImportOptions, ImportUpload } from '@/lib/types/import';
+import { progressBus } from '@/lib/utils/progress-bus';
+import { nanoid } from 'nanoid';
+import { mkdir, readFile, rm } from 'fs/promises';
+import path from 'path';
+
+const JOBS_DIR = dataPath('imports', 'jobs');
+
+function isFinished(job: ImportJob): boolean {
+  return !!job.result;
+}
+
+export class ImportJobService {
+  private running = new Map<string, AbortController>();
+  
+  private getJobPath(jobId: string) {
+    return path.join(JOBS_DIR, `${path.basename(jobId)}.json`);
+  }
+  
+  private async saveJob(job: ImportJob): Promise<void> {
+    await mkdir(JOBS_DIR, { recursive: true });
+    await writeFileAtomic(this.getJobPath(job.id), JSON.stringify(job, null, 2));
+  }
+  
+  private publish(job: ImportJob) {
+    job.updated_at = new Date().toISOString();
+    progressBus.publish('import', job.id, job.user_id, structuredClone(job), isFinished(job));
+  }
+  
+  /**
+   * Save the upload and start importing it in the background.
+   * Resolves once the upload is on disk, as the request body can't be read after the response.
+   */
+  async start(upload: ImportUpload, options: ImportOptions, userId: string): Promise<ImportJob> {
+    const filePath = await ImportService.saveUpload(upload);
+    
+    const job: ImportJob = {
+      id: nanoid(),
+      user_id: userId,
+      filename: upload.name,
+      progress: {
+        status: 'validating',
+        total: 0,
+        processed: 0,
+        skipped: 0,
+        errors: [],
+      },
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    this.publish(job);
+    
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+    
+    this.run(job, filePath, options, controller.signal)
+      .catch(error => {
+        console.error(`❌ Import job ${job.id} crashed:`, error);
+      })
+      .finally(() => {
+        this.running.delete(job.id);
+      });
+    
+    console.log(`🚀 Started import job ${job.id} for ${upload.name}`);
+    return job;
+  }
+  
+  private async run(job: ImportJob, filePath: string, options: ImportOptions, signal: AbortSignal) {
+    const service = new ImportService((progress) => {
+      job.progress = { ...progress, errors: [...progress.errors] };
+      // The final state is published once, together with the result
+      if (progress.status !== 'complete' && progress.status !== 'error' && progress.status !== 'cancelled') {
+        this.publish(job);
+      }
+    }, signal);
+    
+    try {
+      job.result = await service.importData(filePath, job.filename, options, job.user_id);
+    } catch (error) {
+      // importData reports failures in its result; this is for what escapes it, e.g. a failed rollback
+      console.error(`❌ Import job ${job.id} failed:`, error);
+      const message = error instanceof Error ? error.message : 'Import failed';
+      job.progress = { ...job.progress, status: 'error', errors: [...job.progress.errors, message] };
+      job.result = {
+        success: false,
+        sessionId: '',
+        imported: 0,
+        skipped: job.progress.skipped,
+        errors: job.progress.errors,
+      };
+    } finally {
+      await rm(filePath, { force: true }).catch(() => {});
+    }
+    
+    this.publish(job);
+    // The bus drops finished jobs after a while; the saved copy keeps the result for getJob
+    await this.saveJob(job).catch(error => {
+      console.error(`❌ Failed to save import job ${job.id}:`, error);
+    });
+    console.log(`🏁 Import job ${job.id} finished: ${job.progress.status}`);
+  }
+  
+  // Finished jobs are read back from disk once they have dropped out of the progress bus
+  async getJob(jobId: string): Promise<ImportJob | null> {
+    const event = progressBus.getLatest(jobId);
+    if (event) return event.kind === 'import' ? event.data : null;
+    
+    try {
+      return JSON.parse(await readFile(this.getJobPath(jobId), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+  
+  // Ask a running import to stop; it rolls back what it created before finishing as cancelled
+  cancel(jobId: string): boolean {
+    const controller = this.running.get(jobId);
+    if (!controller) return false;
+    
+    controller.abort();
+    return true;
+  }
+}
+
+// Route handlers can be bundled separately, so the instance lives on globalThis to stay shared
+const globalForImports = globalThis as typeof globalThis & { importJobs?: ImportJobService };
+
+export const importJobs = globalForImports.importJobs ?? new ImportJobService();
+globalForImports.importJobs = importJobs;
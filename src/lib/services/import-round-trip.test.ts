@@ -0,0 +1,173 @@
+/**
+ * Export -> import with preserveIds must be lossless: the re-imported session and images
+ * match the originals field by field (updated_at of images is the import time by design)
+ * @filepath src/lib/services/import-round-trip.test.ts
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import fc from 'fast-check';
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { EXPORTS_DIR, ExportJobService } from './export-job-service';
+import { ImportService } from './import-service';
+import { storage } from '@/lib/storage';
+import { dataPath } from '@/lib/storage/paths';
+import { ImageRecord, Session } from '@/lib/types';
+import { ExportJob } from '@/lib/types/export';
+import { readImageInfo } from '@/lib/utils/image-info';
+import { computeImageHashes } from '@/lib/utils/image-hash';
+import { DEFAULT_SPLIT_CONFIG } from '@/lib/utils/splits';
+
+const SESSION_FIELDS = [
+  'id', 'name', 'description', 'created_at', 'updated_at', 'created_by', 'status', 'image_count', 'splits',
+] as const;
+
+const timestamp = fc
+  .date({ min: new Date('2020-01-01'), max: new Date('2026-01-01'), noInvalidDate: true })
+  .map(date => date.toISOString());
+
+const optional = <T>(arbitrary: fc.Arbitrary<T>) => fc.option(arbitrary, { nil: undefined });
+
+// The parts of a record a user or the uploader sets; file-derived fields come from the image itself
+const imageFields = fc.record({
+  prompt: fc.string(),
+  generator_used: fc.constantFrom('midjourney', 'dalle', 'stable-diffusion', 'other') as fc.Arbitrary<
+    ImageRecord['generator_used']
+  >,
+  generation_settings: fc.dictionary(
+    fc.constantFrom('steps', 'cfg_scale', 'sampler', 'seed'),
+    fc.oneof(fc.integer(), fc.string())
+  ),
+  user_description: optional(fc.string()),
+  ai_scores: optional(fc.dictionary(
+    fc.constantFrom('aesthetic', 'realism', 'prompt_adherence'),
+    fc.integer({ min: 1, max: 10 })
+  )),
+  quality_rating: optional(fc.integer({ min: 1, max: 5 })),
+  tags: fc.array(fc.string({ minLength: 1 }), { maxLength: 4 }),
+  notes: optional(fc.string()),
+  upload_timestamp: timestamp,
+  uploaded_by: fc.constantFrom('u1', 'u2'),
+});
+
+const sessionFields = fc.record({
+  name: fc.string({ minLength: 1 }),
+  description: optional(fc.string()),
+  status: fc.constantFrom('active', 'archived', 'exported') as fc.Arbitrary<Session['status']>,
+  created_at: timestamp,
+  split: fc.boolean(),
+});
+
+async function sampleImage(seed: number): Promise<Buffer> {
+  return sharp({
+    create: {
+      width: 32 + (seed % 5) * 8,
+      height: 32,
+      channels: 3,
+      background: { r: (seed * 53) % 256, g: (seed * 97) % 256, b: (seed * 31) % 256 },
+      noise: { type: 'gaussian', mean: 128, sigma: 40 },
+    },
+  }).png().toBuffer();
+}
+
+// Stored the way an upload stores it: dimensions, type and hashes read from the file
+async function createImage(session: Session, index: number, fields: Partial<ImageRecord>): Promise<ImageRecord> {
+  const buffer = await sampleImage(index);
+  const filename = `image-${index}.png`;
+  const imagesDir = dataPath('sessions', session.id, 'images');
+  await mkdir(imagesDir, { recursive: true });
+  await writeFile(path.join(imagesDir, filename), buffer);
+  
+  const info = await readImageInfo(buffer);
+  return storage.restoreImage({
+    ...(fields as Omit<ImageRecord, 'id'>),
+    id: `img-${session.id}-${index}`,
+    session_id: session.id,
+    filename,
+    original_filename: `original-${index}.png`,
+    file_path: path.join(imagesDir, filename),
+    file_size: buffer.length,
+    image_dimensions: { width: info.width, height: info.height },
+    mime_type: info.mime_type,
+    color_space: info.color_space,
+    ...(await computeImageHashes(buffer)),
+    updated_at: fields.upload_timestamp,
+  });
+}
+
+async function exportSession(session: Session): Promise<string> {
+  const service = new ExportJobService();
+  const started = await service.start(session, 'u1', 'full');
+  
+  let job: ExportJob | null = started;
+  while (job?.status !== 'complete') {
+    if (job?.status === 'error') throw new Error(`Export failed: ${job.error}`);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    job = await service.getJob(started.id);
+  }
+  return path.join(EXPORTS_DIR, `${started.id}.zip`);
+}
+
+const pick = <T extends object>(value: T, keys: readonly (keyof T)[]) =>
+  Object.fromEntries(keys.map(key => [key, value[key]]));
+
+const withoutUpdatedAt = ({ updated_at: _, ...image }: ImageRecord) => image;
+
+describe('export -> import round trip with preserveIds', () => {
+  it('restores sessions and images field by field', async () => {
+    await fc.assert(
+      fc.asyncProperty(sessionFields, fc.array(imageFields, { minLength: 1, maxLength: 4 }), async (fields, images) => {
+        const { split, ...sessionData } = fields;
+        let session = await storage.restoreSession({
+          ...sessionData,
+          id: `session-${Math.random().toString(36).slice(2)}`,
+          updated_at: sessionData.created_at,
+          created_by: 'u1',
+          image_count: images.length,
+          export_history: [],
+        });
+        
+        const originals = await Promise.all(images.map((image, index) => createImage(session, index, image)));
+        if (split) {
+          session = await storage.restoreSession({
+            ...session,
+            splits: {
+              config: DEFAULT_SPLIT_CONFIG,
+              assignments: Object.fromEntries(
+                originals.map((image, index) => [image.id, (['train', 'val', 'test'] as const)[index % 3]])
+              ),
+              updated_at: session.created_at,
+            },
+          });
+        }
+        
+        const zipPath = await exportSession(session);
+        
+        // Moving to another instance: the IDs are free there
+        await storage.deleteSession(session.id);
+        
+        const result = await new ImportService().importData(
+          zipPath,
+          'export.zip',
+          { mode: 'new', duplicateStrategy: 'skip', preserveIds: true },
+          'u1'
+        );
+        expect(result.errors).toEqual([]);
+        expect(result.id_conflicts).toEqual([]);
+        expect(result.sessionId).toBe(session.id);
+        
+        const restored = await storage.getSession(session.id);
+        expect(pick(restored!, SESSION_FIELDS)).toEqual(pick(session, SESSION_FIELDS));
+        
+        for (const original of originals) {
+          const imported = await storage.getImage(original.id);
+          expect(imported).not.toBeNull();
+          // toEqual: a field left out and a field set to undefined are the same once stored
+          expect(withoutUpdatedAt(imported!)).toEqual(withoutUpdatedAt(original));
+        }
+      }),
+      { numRuns: 15 }
+    );
+  });
+});
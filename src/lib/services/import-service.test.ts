@@ -0,0 +1,250 @@
+/**
+ * Imports of archives larger than the memory budget: the upload is spooled to disk
+ * and entries are read one at a time, never the whole archive. Preserved IDs that are
+ * not valid (and could point outside the session tree) are replaced.
+ * @filepath src/lib/services/import-service.test.ts
+ */
+
+import { createReadStream, existsSync } from 'fs';
+import { open, readdir, rm, stat } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { crc32 } from 'zlib';
+import sharp from 'sharp';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { ImportService } from './import-service';
+import { storage } from '@/lib/storage';
+import { dataPath } from '@/lib/storage/paths';
+import { EXPORT_CONFIG } from '@/lib/config/export-config';
+import { EXPORT_SCHEMA_VERSION } from '@/lib/utils/export-schema';
+import { RecordIdSchema } from '@/lib/validations';
+import { ZipReader } from '@/lib/utils/zip-reader';
+
+const MB = 1024 * 1024;
+const BUDGET = EXPORT_CONFIG.MEMORY_LIMIT_MB * MB;
+const IMAGE_COUNT = 8;
+
+interface StoredEntry {
+  name: string;
+  // Entries without data are a run of zeros, left as a hole so the archive takes no disk space
+  data?: Buffer;
+  size: number;
+}
+
+function zeroCrc(size: number): number {
+  const chunk = Buffer.alloc(MB);
+  let crc = 0;
+  for (let left = size; left > 0; left -= chunk.length) {
+    crc = crc32(left >= chunk.length ? chunk : chunk.subarray(0, left), crc);
+  }
+  return crc;
+}
+
+// Minimal writer for an uncompressed (stored) ZIP
+async function writeStoredZip(zipPath: string, entries: StoredEntry[]): Promise<void> {
+  const handle = await open(zipPath, 'w');
+  const central: Buffer[] = [];
+  let offset = 0;
+  
+  try {
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name);
+      const crc = entry.data ? crc32(entry.data) : zeroCrc(entry.size);
+      
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(20, 4);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(entry.size, 18);
+      local.writeUInt32LE(entry.size, 22);
+      local.writeUInt16LE(name.length, 26);
+      await handle.write(Buffer.concat([local, name]), 0, local.length + name.length, offset);
+      
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt32LE(crc, 16);
+      header.writeUInt32LE(entry.size, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(name.length, 28);
+      header.writeUInt32LE(offset, 42);
+      central.push(header, name);
+      
+      offset += local.length + name.length;
+      if (entry.data) await handle.write(entry.data, 0, entry.data.length, offset);
+      offset += entry.size;
+    }
+    
+    const directory = Buffer.concat(central);
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054b50, 0);
+    eocd.writeUInt16LE(entries.length, 8);
+    eocd.writeUInt16LE(entries.length, 10);
+    eocd.writeUInt32LE(directory.length, 12);
+    eocd.writeUInt32LE(offset, 16);
+    await handle.write(Buffer.concat([directory, eocd]), 0, directory.length + eocd.length, offset);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function noiseImage(seed: number): Promise<Buffer> {
+  return sharp({
+    create: {
+      width: 256,
+      height: 256,
+      channels: 3,
+      background: { r: (seed * 53) % 256, g: (seed * 97) % 256, b: (seed * 31) % 256 },
+      noise: { type: 'gaussian', mean: 128, sigma: 40 },
+    },
+  }).png().toBuffer();
+}
+
+describe('ImportService with an archive larger than the memory budget', () => {
+  const zipPath = path.join(os.tmpdir(), `large-import-${process.pid}.zip`);
+  
+  afterAll(async () => {
+    await rm(zipPath, { force: true });
+  });
+  
+  it('spools the upload and reads one entry at a time', async () => {
+    const images = await Promise.all(Array.from({ length: IMAGE_COUNT }, (_, i) => noiseImage(i)));
+    const metadata = {
+      session: { name: 'Large' },
+      images: images.map((data, i) => ({
+        filename: `image-${i}.png`,
+        original_filename: `image-${i}.png`,
+        file_path: `images/image-${i}.png`,
+        file_size: data.length,
+        image_dimensions: { width: 256, height: 256 },
+        prompt: `prompt ${i}`,
+        generator_used: 'other',
+      })),
+      export_timestamp: new Date().toISOString(),
+      export_version: EXPORT_SCHEMA_VERSION,
+    };
+    
+    // The padding is never referenced by the metadata, so a streaming import never reads it
+    const paddingSize = BUDGET + 64 * MB;
+    await writeStoredZip(zipPath, [
+      { name: 'padding.bin', size: paddingSize },
+      ...images.map((data, i) => ({ name: `images/image-${i}.png`, data, size: data.length })),
+      { name: 'metadata.json', data: Buffer.from(JSON.stringify(metadata)), size: JSON.stringify(metadata).length },
+    ]);
+    expect((await stat(zipPath)).size).toBeGreaterThan(BUDGET);
+    
+    let inFlight = 0;
+    let maxInFlight = 0;
+    let largestEntry = 0;
+    const readNames: string[] = [];
+    const originalRead = ZipReader.prototype.read;
+    const readSpy = vi.spyOn(ZipReader.prototype, 'read').mockImplementation(async function (this: ZipReader, name) {
+      readNames.push(name);
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      try {
+        const data = await originalRead.call(this, name);
+        largestEntry = Math.max(largestEntry, data?.length || 0);
+        return data;
+      } finally {
+        inFlight--;
+      }
+    });
+    
+    const baseline = process.memoryUsage().rss;
+    let peak = baseline;
+    const sampler = setInterval(() => {
+      peak = Math.max(peak, process.memoryUsage().rss);
+    }, 5);
+    
+    let spooledPath: string | null = null;
+    try {
+      spooledPath = await ImportService.saveUpload({
+        name: 'large.zip',
+        stream: () => Readable.toWeb(createReadStream(zipPath)) as NodeReadableStream<Uint8Array> as ReadableStream<Uint8Array>,
+      });
+      expect((await stat(spooledPath)).size).toBe((await stat(zipPath)).size);
+      
+      const result = await new ImportService().importData(
+        spooledPath,
+        'large.zip',
+        { mode: 'new', duplicateStrategy: 'skip', preserveIds: false },
+        'u1'
+      );
+      peak = Math.max(peak, process.memoryUsage().rss);
+      
+      expect(result.errors).toEqual([]);
+      expect(result.success).toBe(true);
+      expect(result.imported).toBe(IMAGE_COUNT);
+      expect(await storage.listImages(result.sessionId)).toHaveLength(IMAGE_COUNT);
+    } finally {
+      clearInterval(sampler);
+      readSpy.mockRestore();
+      if (spooledPath) await rm(spooledPath, { force: true });
+    }
+    
+    expect(maxInFlight).toBe(1);
+    expect(readNames).not.toContain('padding.bin');
+    expect(largestEntry).toBeLessThanOrEqual(Math.max(...images.map(image => image.length)) + 1024);
+    expect(peak - baseline).toBeLessThan(BUDGET);
+  });
+});
+
+describe('ImportService with preserved IDs that are not valid', () => {
+  const zipPath = path.join(os.tmpdir(), `invalid-ids-${process.pid}.zip`);
+  
+  afterAll(async () => {
+    await rm(zipPath, { force: true });
+  });
+  
+  it('imports a ".." session ID and a "../x" image ID under new IDs', async () => {
+    const image = await noiseImage(1);
+    const metadata = JSON.stringify({
+      session: { id: '..', name: 'Escape' },
+      images: [{
+        id: '../x',
+        filename: 'image.png',
+        original_filename: 'image.png',
+        file_path: 'images/image.png',
+        file_size: image.length,
+        image_dimensions: { width: 256, height: 256 },
+        prompt: 'escape',
+        generator_used: 'other',
+      }],
+      export_timestamp: new Date().toISOString(),
+      export_version: EXPORT_SCHEMA_VERSION,
+    });
+    await writeStoredZip(zipPath, [
+      { name: 'images/image.png', data: image, size: image.length },
+      { name: 'metadata.json', data: Buffer.from(metadata), size: metadata.length },
+    ]);
+    const listSessionDirs = () => readdir(dataPath('sessions')).catch(() => [] as string[]);
+    const sessionsBefore = await listSessionDirs();
+    
+    const result = await new ImportService().importData(
+      zipPath,
+      'export.zip',
+      { mode: 'new', duplicateStrategy: 'skip', preserveIds: true },
+      'u1'
+    );
+    
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(RecordIdSchema.safeParse(result.sessionId).success).toBe(true);
+    
+    const [imported] = await storage.listImages(result.sessionId);
+    expect(RecordIdSchema.safeParse(imported.id).success).toBe(true);
+    expect(result.id_conflicts).toEqual([
+      { kind: 'session', id: '..', assigned_id: result.sessionId, reason: 'invalid' },
+      { kind: 'image', id: '../x', assigned_id: imported.id, reason: 'invalid' },
+    ]);
+    
+    // Only the new session directory was added; nothing was written above the session tree
+    const added = (await listSessionDirs()).filter(dir => !sessionsBefore.includes(dir));
+    expect(added).toEqual([result.sessionId]);
+    expect(existsSync(dataPath('session_config.json'))).toBe(false);
+    expect(await storage.getImage('../x')).toBeNull();
+  });
+});
@@ -3,14 +3,53 @@
  * @filepath src/lib/services/import-service.ts
  */
 
-import { storage } from '@/lib/storage/json-storage';
-import { ImportMetadata, ImportOptions, ImportProgress, ImportResult, DuplicateImage } from '@/lib/types/import';
-import { ImageRecord } from '@/lib/types';
-import { ImportMetadataSchema } from '@/lib/validations';
+import { storage } from '@/lib/storage';
+import { dataPath } from '@/lib/storage/paths';
+import {
+  ImportMetadata,
+  ImportOptions,
+  ImportProgress,
+  ImportResult,
+  ImportUpload,
+  ImportPreview,
+  ImportPreviewImage,
+  DuplicateImage,
+  IdConflict,
+  IntegrityIssue,
+  IntegrityReport,
+} from '@/lib/types/import';
+import { ImageRecord, Session } from '@/lib/types';
+import { ImportMetadataSchema, RecordIdSchema } from '@/lib/validations';
+import { ImageInfo, readImageInfo } from '@/lib/utils/image-info';
+import { ImageHashes, NEAR_DUPLICATE_DISTANCE, computeImageHashes, hammingDistance } from '@/lib/utils/image-hash';
+import {
+  COCO_ANNOTATIONS_FILE,
+  HF_METADATA_FILE,
+  fromCocoDataset,
+  fromHfMetadata,
+  isCocoDataset,
+} from '@/lib/utils/dataset-formats';
+import { CHECKSUMS_FILE, verifyManifest } from '@/lib/utils/checksums';
+import { ZipReader } from '@/lib/utils/zip-reader';
+import { migrateExportMetadata } from '@/lib/utils/export-schema';
 import { nanoid } from 'nanoid';
 import path from 'path';
-import { writeFile, mkdir, access } from 'fs/promises';
-import JSZip from 'jszip';
+import { createWriteStream } from 'fs';
+import { writeFile, mkdir, access, readFile, rename, rm } from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+
+const INTEGRITY_PROBLEMS: Record<IntegrityIssue['problem'], string> = {
+  missing: 'missing from the archive',
+  size_mismatch: 'size does not match the manifest',
+  checksum_mismatch: 'checksum does not match the manifest (file is corrupted)',
+};
+
+// An image ready to import, or why it can't be; error is set for problems not reported elsewhere
+type LoadedImage =
+  | { buffer: Buffer | null; hashes: ImageHashes | null }
+  | { problem: string; error?: string };
 
 export class ImportService {
   private progress: ImportProgress = {
@@ -22,9 +61,17 @@ export class ImportService {
   };
   
   private progressCallback?: (progress: ImportProgress) => void;
+  private signal?: AbortSignal;
+  
+  // What this import has created so far, removed again if it is cancelled
+  private createdSessionId: string | null = null;
+  private createdImageIds: string[] = [];
+  // Exported IDs that were taken when preserving IDs
+  private idConflicts: IdConflict[] = [];
   
-  constructor(onProgress?: (progress: ImportProgress) => void) {
+  constructor(onProgress?: (progress: ImportProgress) => void, signal?: AbortSignal) {
     this.progressCallback = onProgress;
+    this.signal = signal;
   }
   
   private updateProgress(updates: Partial<ImportProgress>) {
@@ -32,22 +79,42 @@ export class ImportService {
     this.progressCallback?.(this.progress);
   }
   
+  /**
+   * Spool an upload to a temporary file, so archives are never held in memory whole.
+   * The caller removes the file once the import is done.
+   */
+  static async saveUpload(file: ImportUpload): Promise<string> {
+    // Spooled next to the data it is imported into, not in a RAM-backed system temp dir
+    const tempDir = dataPath('tmp', 'imports');
+    await mkdir(tempDir, { recursive: true });
+    const tempPath = path.join(tempDir, `import-${nanoid()}${path.extname(file.name)}`);
+    try {
+      await pipeline(Readable.fromWeb(file.stream() as NodeReadableStream<Uint8Array>), createWriteStream(tempPath));
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+    return tempPath;
+  }
+  
+  // filename is the name of the upload, which decides how filePath is read
   async importData(
-    file: File,
+    filePath: string,
+    filename: string,
     options: ImportOptions,
     userId: string
   ): Promise<ImportResult> {
+    let zip: ZipReader | null = null;
+    
     try {
       this.updateProgress({ status: 'validating' });
       
-      // Convert File to ArrayBuffer for proper handling
-      const arrayBuffer = await file.arrayBuffer();
-      
-      // Determine file type and extract metadata
-      const metadata = await this.extractMetadata(file.name, arrayBuffer);
+      if (filename.endsWith('.zip')) {
+        zip = await ZipReader.open(filePath);
+      }
       
-      // Validate metadata with proper type assertion
-      const validated = ImportMetadataSchema.parse(metadata) as ImportMetadata;
+      const validated = await this.readMetadata(filename, filePath, zip);
+      this.throwIfCancelled();
       
       this.updateProgress({
         status: 'importing',
@@ -56,27 +123,34 @@ export class ImportService {
       
       // Create or get target session
       let sessionId: string;
+      let restoredSession: Session | null = null;
       if (options.mode === 'new') {
-        sessionId = await this.createNewSession(validated, userId);
+        const session = await this.createNewSession(validated, userId, options.preserveIds);
+        sessionId = session.id;
+        if (session.id === validated.session.id) restoredSession = session;
       } else {
         sessionId = options.targetSessionId!;
-        // Verify session exists and user owns it
-        const session = await storage.getSession(sessionId);
-        if (!session || session.created_by !== userId) {
-          throw new Error('Invalid target session');
-        }
+        await this.checkTargetSession(sessionId, userId);
       }
       
       // Process images
       const result = await this.processImages(
-        arrayBuffer,
+        zip,
         validated,
         sessionId,
         options,
-        userId,
-        file.name.endsWith('.zip')
+        userId
       );
       
+      // Images are restored as-is, so the session's count is brought up to date here;
+      // a restored session keeps its exported timestamps
+      const imageCount = (await storage.listImages(sessionId)).length;
+      if (restoredSession) {
+        await storage.restoreSession({ ...restoredSession, image_count: imageCount });
+      } else {
+        await storage.updateSession(sessionId, { image_count: imageCount });
+      }
+      
       this.updateProgress({ status: 'complete' });
       
       return {
@@ -85,8 +159,14 @@ export class ImportService {
         imported: result.imported,
         skipped: result.skipped,
         errors: this.progress.errors,
+        integrity: result.integrity,
+        id_conflicts: options.preserveIds ? this.idConflicts : undefined,
       };
     } catch (error) {
+      if (this.signal?.aborted) {
+        return this.rollback(options);
+      }
+      
       console.error('Import error:', error);
       this.updateProgress({
         status: 'error',
@@ -100,27 +180,164 @@ export class ImportService {
         skipped: this.progress.skipped,
         errors: this.progress.errors,
       };
+    } finally {
+      await zip?.close();
+    }
+  }
+  
+  /**
+   * Dry run of an import: which images would be new, duplicates of images in the target
+   * session, or can't be imported. Nothing is written.
+   */
+  async previewData(
+    filePath: string,
+    filename: string,
+    options: ImportOptions,
+    userId: string
+  ): Promise<ImportPreview> {
+    const zip = filename.endsWith('.zip') ? await ZipReader.open(filePath) : null;
+    
+    try {
+      const metadata = await this.readMetadata(filename, filePath, zip);
+      
+      let existingImages: ImageRecord[] = [];
+      if (options.mode === 'merge') {
+        await this.checkTargetSession(options.targetSessionId!, userId);
+        existingImages = await storage.listImages(options.targetSessionId!);
+      }
+      
+      const integrity = zip && metadata.manifest ? await this.verifyArchive(zip, metadata) : undefined;
+      const damaged = new Map<string, IntegrityIssue>(integrity?.issues.map(issue => [issue.path, issue]));
+      
+      const images: ImportPreviewImage[] = [];
+      for (let index = 0; index < metadata.images.length; index++) {
+        const imageData = metadata.images[index];
+        const item = {
+          index,
+          filename: imageData.filename || '',
+          original_filename: imageData.original_filename || '',
+          id_conflict: options.preserveIds && imageData.id ? !!(await this.imageIdConflict(imageData.id)) : undefined,
+        };
+        
+        const loaded = await this.loadImage(zip, imageData, damaged);
+        if ('problem' in loaded) {
+          images.push({ ...item, status: 'invalid', problem: loaded.problem });
+          continue;
+        }
+        
+        const duplicate = options.mode === 'merge'
+          ? await this.checkDuplicate(imageData, existingImages, loaded.hashes)
+          : null;
+        images.push(duplicate ? { ...item, status: 'duplicate', duplicate } : { ...item, status: 'new' });
+      }
+      
+      const count = (status: ImportPreviewImage['status']) => images.filter(image => image.status === status).length;
+      console.log(`🔍 Import preview of ${filename}: ${count('new')} new, ${count('duplicate')} duplicates, ${count('invalid')} invalid`);
+      
+      return {
+        session_name: metadata.session.name,
+        total: images.length,
+        counts: { new: count('new'), duplicate: count('duplicate'), invalid: count('invalid') },
+        images,
+        integrity,
+      };
+    } finally {
+      await zip?.close();
+    }
+  }
+  
+  // Imports only go into sessions of the importing user
+  private async checkTargetSession(sessionId: string, userId: string): Promise<void> {
+    const session = await storage.getSession(sessionId);
+    if (!session || session.created_by !== userId) {
+      throw new Error('Invalid target session');
+    }
+  }
+  
+  private throwIfCancelled() {
+    if (this.signal?.aborted) {
+      throw new Error('Import cancelled');
     }
   }
   
-  private async extractMetadata(filename: string, arrayBuffer: ArrayBuffer): Promise<any> {
+  // Remove everything a cancelled import created, leaving storage as it was before
+  private async rollback(options: ImportOptions): Promise<ImportResult> {
+    console.log(`🛑 Import cancelled, rolling back ${this.createdImageIds.length} images`);
+    this.updateProgress({ currentFile: 'Rolling back...' });
+    
+    try {
+      if (this.createdSessionId) {
+        await storage.deleteSession(this.createdSessionId);
+      } else if (this.createdImageIds.length > 0) {
+        await storage.deleteImages(options.targetSessionId!, this.createdImageIds);
+      }
+    } catch (error) {
+      console.error('❌ Rollback of cancelled import failed:', error);
+      this.progress.errors.push('Rollback failed; some imported images may remain');
+    }
+    
+    this.updateProgress({ status: 'cancelled', currentFile: undefined });
+    return {
+      success: false,
+      sessionId: '',
+      imported: 0,
+      skipped: this.progress.skipped,
+      errors: this.progress.errors,
+    };
+  }
+  
+  // Extract the metadata, upgrade it from older export versions and validate it
+  private async readMetadata(filename: string, filePath: string, zip: ZipReader | null): Promise<ImportMetadata> {
+    const metadata = await this.extractMetadata(filename, filePath, zip);
+    const migrated = migrateExportMetadata(metadata);
+    if (migrated.export_version !== metadata?.export_version) {
+      console.log(`🔁 Migrated export metadata from ${metadata?.export_version ?? 'unversioned'} to ${migrated.export_version}`);
+    }
+    return ImportMetadataSchema.parse(migrated) as ImportMetadata;
+  }
+  
+  private async extractMetadata(filename: string, filePath: string, zip: ZipReader | null): Promise<any> {
+    // Session name for dataset layouts that don't carry one
+    const datasetName = path.basename(filename, path.extname(filename));
+    
     if (filename.endsWith('.json')) {
-      // JSON file - convert ArrayBuffer to string
-      const decoder = new TextDecoder();
-      const text = decoder.decode(arrayBuffer);
-      return JSON.parse(text);
-    } else if (filename.endsWith('.zip')) {
-      // ZIP file - load with JSZip
-      const zip = new JSZip();
-      await zip.loadAsync(arrayBuffer);
+      const data = JSON.parse(await readFile(filePath, 'utf8'));
+      return isCocoDataset(data) ? fromCocoDataset(data, datasetName) : data;
+    } else if (zip) {
+      // Only the metadata entries are read here; images are read one by one while importing
+      const metadataText = await zip.readText('metadata.json');
+      if (metadataText) {
+        return JSON.parse(metadataText);
+      }
+      
+      // Dataset layouts keep their manifest next to the metadata
+      const checksumsText = await zip.readText(CHECKSUMS_FILE);
+      const manifest = checksumsText ? JSON.parse(checksumsText) : undefined;
+      
+      // Hugging Face imagefolder export; split exports have one metadata.jsonl per split folder
+      const hfFiles = zip.names.filter(name => path.posix.basename(name) === HF_METADATA_FILE);
+      if (hfFiles.length > 0) {
+        const parts = [];
+        for (const name of hfFiles) {
+          const baseDir = name.slice(0, name.length - HF_METADATA_FILE.length);
+          parts.push(fromHfMetadata((await zip.readText(name))!, datasetName, baseDir));
+        }
+        return { ...parts[0], images: parts.flatMap(part => part.images), manifest };
+      }
       
-      const metadataFile = zip.file('metadata.json');
-      if (!metadataFile) {
-        throw new Error('Invalid import file: metadata.json not found in ZIP');
+      // COCO-style export
+      const cocoText = await zip.readText(COCO_ANNOTATIONS_FILE);
+      if (cocoText) {
+        const dataset = JSON.parse(cocoText);
+        if (!isCocoDataset(dataset)) {
+          throw new Error(`Invalid import file: ${COCO_ANNOTATIONS_FILE} is not a COCO dataset`);
+        }
+        return { ...fromCocoDataset(dataset, datasetName), manifest };
       }
       
-      const metadataText = await metadataFile.async('text');
-      return JSON.parse(metadataText);
+      throw new Error(
+        `Invalid import file: no metadata.json, ${HF_METADATA_FILE} or ${COCO_ANNOTATIONS_FILE} found in ZIP`
+      );
     } else {
       throw new Error('Unsupported file type. Please upload JSON or ZIP file.');
     }
@@ -128,9 +345,33 @@ export class ImportService {
   
   private async createNewSession(
     metadata: ImportMetadata,
-    userId: string
-  ): Promise<string> {
-    const sessionName = metadata.session.name || 'Imported Session';
+    userId: string,
+    preserveIds: boolean
+  ): Promise<Session> {
+    const original = metadata.session;
+    
+    // Moved between instances: same ID, name, timestamps and split assignments,
+    // but owned by the importing user and without the source's export history
+    const conflict = preserveIds && original.id ? await this.sessionIdConflict(original.id) : null;
+    if (preserveIds && original.id && !conflict) {
+      const now = new Date().toISOString();
+      const session = await storage.restoreSession({
+        id: original.id,
+        name: original.name || 'Imported Session',
+        description: original.description,
+        created_at: original.created_at || now,
+        updated_at: original.updated_at || now,
+        created_by: userId,
+        image_count: 0,
+        status: original.status || 'active',
+        export_history: [],
+        splits: original.splits,
+      });
+      this.createdSessionId = session.id;
+      return session;
+    }
+    
+    const sessionName = original.name || 'Imported Session';
     // Add the missing properties with their initial values
     const session = await storage.createSession({
       name: `${sessionName} (Imported)`,
@@ -141,77 +382,107 @@ export class ImportService {
       export_history: [], // <--- Add this line
     });
     
-    return session.id;
+    this.createdSessionId = session.id;
+    if (conflict) {
+      this.reportIdConflict('session', original.id!, session.id, conflict);
+    }
+    return session;
+  }
+  
+  private reportIdConflict(
+    kind: IdConflict['kind'],
+    id: string,
+    assignedId: string,
+    reason: IdConflict['reason']
+  ) {
+    const problem = reason === 'taken' ? 'already exists' : 'is not valid';
+    console.warn(`⚠️  ${kind} ID ${JSON.stringify(id)} ${problem}; importing under a new ID`);
+    this.idConflicts.push({ kind, id, assigned_id: assignedId, reason });
+  }
+  
+  // Why a preserved ID can't be kept, or null if it can
+  private async sessionIdConflict(id: string): Promise<IdConflict['reason'] | null> {
+    if (!RecordIdSchema.safeParse(id).success) return 'invalid';
+    return (await storage.getSession(id)) ? 'taken' : null;
+  }
+  
+  private async imageIdConflict(id: string): Promise<IdConflict['reason'] | null> {
+    if (!RecordIdSchema.safeParse(id).success) return 'invalid';
+    return (await storage.getImage(id)) ? 'taken' : null;
   }
   
+  // zip is null for JSON-only imports
   private async processImages(
-    arrayBuffer: ArrayBuffer,
+    zip: ZipReader | null,
     metadata: ImportMetadata,
     sessionId: string,
     options: ImportOptions,
-    userId: string,
-    isZip: boolean
-  ): Promise<{ imported: number; skipped: number }> {
+    userId: string
+  ): Promise<{ imported: number; skipped: number; integrity?: IntegrityReport }> {
     let imported = 0;
     let skipped = 0;
     
     console.log(`🔄 Processing ${metadata.images.length} images for session ${sessionId}`);
     
-    // Load ZIP if needed for image files
-    let zip: JSZip | null = null;
-    if (isZip) {
-      zip = new JSZip();
-      await zip.loadAsync(arrayBuffer);
-      console.log('📦 ZIP loaded successfully');
-    }
+    // Images whose file failed verification are reported once and not imported
+    const integrity = zip && metadata.manifest ? await this.verifyArchive(zip, metadata) : undefined;
+    const damaged = new Map<string, IntegrityIssue>(integrity?.issues.map(issue => [issue.path, issue]));
     
     // Get existing images for duplicate detection
     const existingImages = options.mode === 'merge' 
       ? await storage.listImages(sessionId)
       : [];
     
+    // Replaced images are only deleted once the import can no longer be cancelled;
+    // until then the new file is stored under a temporary name next to the old one
+    const replacements: { existingId: string; imageId: string; filename: string }[] = [];
+    
     // Process each image
     for (let i = 0; i < metadata.images.length; i++) {
       const imageData = metadata.images[i];
+      this.throwIfCancelled();
       
       this.updateProgress({
         processed: i + 1,
+        skipped,
         currentFile: imageData.original_filename,
       });
       
       try {
         console.log(`📸 Processing image ${i + 1}/${metadata.images.length}: ${imageData.original_filename}`);
         
-        // Skip if no required data
-        if (!imageData.filename || !imageData.original_filename) {
-          console.warn('⚠️  Skipping image with missing filename data');
+        const loaded = await this.loadImage(zip, imageData, damaged);
+        if ('problem' in loaded) {
+          console.warn(`⚠️  Skipping ${imageData.original_filename || 'image'}: ${loaded.problem}`);
+          if (loaded.error) this.progress.errors.push(loaded.error);
           skipped++;
           continue;
         }
+        const { buffer: imageBuffer, hashes } = loaded;
         
-        // Check for duplicates if merging
-        if (options.mode === 'merge') {
-          const duplicate = await this.checkDuplicate(imageData, existingImages);
-          
-          if (duplicate) {
-            if (options.duplicateStrategy === 'skip') {
-              console.log('⏭️  Skipping duplicate');
-              skipped++;
-              continue;
-            } else if (options.duplicateStrategy === 'replace') {
-              console.log('🔄 Replacing existing image');
-              await storage.deleteImage(duplicate.existing.id);
-            }
-          }
+        // Check for duplicates if merging; the preview may have picked a strategy for this image
+        const duplicate = options.mode === 'merge'
+          ? await this.checkDuplicate(imageData, existingImages, hashes)
+          : null;
+        const strategy = options.strategyOverrides?.[i] ?? options.duplicateStrategy;
+        
+        if (duplicate && strategy === 'skip') {
+          console.log('⏭️  Skipping duplicate');
+          skipped++;
+          continue;
+        }
+        const replacing = duplicate && strategy === 'replace' ? duplicate.existing : null;
+        if (replacing) {
+          console.log('🔄 Replacing existing image');
         }
         
         // Generate new filename
-        const newFilename = (options.duplicateStrategy === 'rename' && options.mode === 'merge')
+        const newFilename = (strategy === 'rename' && options.mode === 'merge') || replacing
           ? this.generateUniqueFilename(imageData.filename!, existingImages)
           : imageData.filename!;
         
         // Build correct paths
-        const sessionPath = path.join(process.cwd(), 'data', 'sessions', sessionId);
+        const sessionPath = dataPath('sessions', sessionId);
         const imagesPath = path.join(sessionPath, 'images');
         const absoluteFilePath = path.join(imagesPath, newFilename);
         
@@ -219,29 +490,21 @@ export class ImportService {
         await mkdir(imagesPath, { recursive: true });
         
         // Handle file extraction properly
-        if (isZip && zip) {
-          if (!imageData.file_path) {
-            console.warn(`⚠️  No file_path in metadata for ${imageData.original_filename}`);
-            skipped++;
-            continue;
-          }
-          
-          // Clean up the path from metadata
-          const metadataPath = imageData.file_path.replace(/^\/+/, '');
-          const imageFile = zip.file(metadataPath);
-          
-          if (!imageFile) {
-            console.error(`❌ Image file not found in ZIP: ${metadataPath}`);
-            this.progress.errors.push(`Image file not found in ZIP: ${imageData.original_filename}`);
-            skipped++;
-            continue;
-          }
-          
-          console.log('📦 Extracting image from ZIP...');
-          const imageBuffer = await imageFile.async('nodebuffer');
+        let info: ImageInfo | null = null;
+        let fileSize = imageData.file_size || 0;
+        
+        if (imageBuffer) {
           await writeFile(absoluteFilePath, imageBuffer);
           console.log(`✅ Image extracted: ${absoluteFilePath}`);
           
+          // Prefer what the file says over exported metadata (older exports have 0x0 dimensions)
+          fileSize = imageBuffer.length;
+          try {
+            info = await readImageInfo(imageBuffer);
+          } catch (infoError) {
+            console.warn(`⚠️  Could not read image info for ${imageData.original_filename}:`, infoError);
+          }
+          
           // Verify file was written
           try {
             await access(absoluteFilePath);
@@ -250,34 +513,58 @@ export class ImportService {
             console.error('❌ File verification failed:', verifyError);
             throw new Error(`Failed to verify written file: ${absoluteFilePath}`);
           }
-        } else if (!isZip) {
-          console.log('📄 JSON-only import - skipping file extraction');
         } else {
-          console.warn('⚠️  ZIP mode but no ZIP object available');
-          skipped++;
-          continue;
+          console.log('📄 JSON-only import - skipping file extraction');
         }
         
         // Create image record with proper type casting
         console.log('💾 Creating image record in storage...');
         
-        const imageRecord = await storage.createImage({
+        let imageId = nanoid();
+        if (options.preserveIds && imageData.id) {
+          const conflict = await this.imageIdConflict(imageData.id);
+          if (conflict) {
+            this.reportIdConflict('image', imageData.id, imageId, conflict);
+          } else {
+            imageId = imageData.id;
+          }
+        }
+        
+        // Written as-is so the exported upload time and uploader survive the round trip;
+        // updated_at is the import time so delta exports of this session pick the image up
+        const imageRecord = await storage.restoreImage({
+          id: imageId,
           session_id: sessionId,
           filename: newFilename,
           original_filename: imageData.original_filename || newFilename,
           file_path: absoluteFilePath,
-          file_size: imageData.file_size || 0,
-          image_dimensions: imageData.image_dimensions || { width: 0, height: 0 },
+          file_size: fileSize,
+          image_dimensions: info
+            ? { width: info.width, height: info.height }
+            : imageData.image_dimensions || { width: 0, height: 0 },
+          mime_type: info?.mime_type ?? imageData.mime_type,
+          color_space: info?.color_space ?? imageData.color_space,
+          content_hash: hashes?.content_hash,
+          perceptual_hash: hashes?.perceptual_hash,
           prompt: imageData.prompt || '',
           generator_used: imageData.generator_used || 'other',
-          ai_scores: (imageData.ai_scores as Record<string, number>) || {},
+          // Exported settings already include what was embedded in the file at upload
+          generation_settings: imageData.generation_settings ?? info?.generation_settings,
+          user_description: imageData.user_description,
+          ai_scores: imageData.ai_scores,
           quality_rating: imageData.quality_rating,
           tags: imageData.tags || [],
-          notes: imageData.notes || '',
-          uploaded_by: userId,
+          notes: imageData.notes,
+          upload_timestamp: imageData.upload_timestamp || new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+          uploaded_by: imageData.uploaded_by || userId,
         });
         
         console.log(`✅ Image record created with ID: ${imageRecord.id}`);
+        this.createdImageIds.push(imageRecord.id);
+        if (replacing) {
+          replacements.push({ existingId: replacing.id, imageId: imageRecord.id, filename: imageData.filename! });
+        }
         imported++;
         
       } catch (error) {
@@ -289,14 +576,130 @@ export class ImportService {
       }
     }
     
+    this.throwIfCancelled();
+    await this.completeReplacements(sessionId, replacements);
+    this.updateProgress({ skipped });
+    
     console.log(`🎉 Import complete: ${imported} imported, ${skipped} skipped`);
-    return { imported, skipped };
+    return { imported, skipped, integrity };
+  }
+  
+  // Delete the replaced images and move their replacements to the original file names
+  private async completeReplacements(
+    sessionId: string,
+    replacements: { existingId: string; imageId: string; filename: string }[]
+  ): Promise<void> {
+    const deleted = new Set<string>();
+    const imagesPath = dataPath('sessions', sessionId, 'images');
+    
+    for (const { existingId, imageId, filename } of replacements) {
+      try {
+        if (!deleted.has(existingId)) {
+          await storage.deleteImage(existingId);
+          deleted.add(existingId);
+        }
+        
+        const image = await storage.getImage(imageId);
+        const target = path.join(imagesPath, filename);
+        // Another image of this import may already have taken the name back
+        if (!image || image.file_path === target || await access(target).then(() => true, () => false)) {
+          continue;
+        }
+        await rename(image.file_path, target);
+        await storage.updateImage(imageId, { filename, file_path: target });
+      } catch (error) {
+        console.error('❌ Failed to complete replacement:', error);
+        this.progress.errors.push(`Failed to replace ${filename}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+  
+  private async loadImage(
+    zip: ZipReader | null,
+    imageData: Partial<ImageRecord>,
+    damaged: Map<string, IntegrityIssue>
+  ): Promise<LoadedImage> {
+    if (!imageData.filename || !imageData.original_filename) {
+      return { problem: 'Missing filename data' };
+    }
+    
+    // Read the image bytes up front so duplicates can be matched by content
+    let buffer: Buffer | null = null;
+    if (zip) {
+      if (!imageData.file_path) {
+        return { problem: 'No file_path in metadata' };
+      }
+      
+      // Clean up the path from metadata
+      const metadataPath = imageData.file_path.replace(/^\/+/, '');
+      
+      // Already reported by the verification
+      const issue = damaged.get(metadataPath);
+      if (issue) {
+        return { problem: `File ${INTEGRITY_PROBLEMS[issue.problem]}` };
+      }
+      
+      if (!zip.has(metadataPath)) {
+        return {
+          problem: 'Image file not found in ZIP',
+          error: `Image file not found in ZIP: ${imageData.original_filename}`,
+        };
+      }
+      
+      buffer = await zip.read(metadataPath);
+    }
+    
+    // JSON-only imports can still carry the hashes of the original export
+    let hashes: ImageHashes | null = null;
+    if (buffer) {
+      try {
+        hashes = await computeImageHashes(buffer);
+      } catch (hashError) {
+        console.warn(`⚠️  Could not hash ${imageData.original_filename}:`, hashError);
+      }
+    } else if (imageData.content_hash && imageData.perceptual_hash) {
+      hashes = { content_hash: imageData.content_hash, perceptual_hash: imageData.perceptual_hash };
+    }
+    
+    return { buffer, hashes };
+  }
+  
+  // Check every file against the export manifest and add one error per damaged file
+  private async verifyArchive(zip: ZipReader, metadata: ImportMetadata): Promise<IntegrityReport> {
+    this.updateProgress({ status: 'validating', currentFile: 'Verifying checksums...' });
+    
+    const report = await verifyManifest(metadata.manifest!, filePath => {
+      this.throwIfCancelled();
+      return zip.read(filePath);
+    });
+    
+    for (const issue of report.issues) {
+      this.progress.errors.push(`${issue.path}: ${INTEGRITY_PROBLEMS[issue.problem]}`);
+    }
+    if (!report.digest_valid) {
+      this.progress.errors.push('The manifest does not match its archive digest; it may have been edited');
+    }
+    
+    console.log(`🔐 Verified ${report.checked} files: ${report.issues.length} problems`);
+    this.updateProgress({ status: 'importing', currentFile: undefined });
+    return report;
   }
   
   private async checkDuplicate(
     importing: Partial<ImageRecord>,
-    existing: ImageRecord[]
+    existing: ImageRecord[],
+    hashes: ImageHashes | null
   ): Promise<DuplicateImage | null> {
+    // Check by content
+    const sameHash = hashes && existing.find(e => e.content_hash === hashes.content_hash);
+    if (sameHash) {
+      return {
+        existing: sameHash,
+        importing,
+        reason: 'same_hash',
+      };
+    }
+    
     // Check by filename
     const sameFilename = existing.find(e => e.filename === importing.filename);
     if (sameFilename) {
@@ -317,6 +720,19 @@ export class ImportService {
       };
     }
     
+    // Check for re-encoded or slightly edited copies
+    if (hashes) {
+      let closest: DuplicateImage | null = null;
+      for (const e of existing) {
+        if (!e.perceptual_hash) continue;
+        const distance = hammingDistance(e.perceptual_hash, hashes.perceptual_hash);
+        if (distance <= NEAR_DUPLICATE_DISTANCE && (!closest || distance < closest.distance!)) {
+          closest = { existing: e, importing, reason: 'similar_hash', distance };
+        }
+      }
+      if (closest) return closest;
+    }
+    
     return null;
   }
   
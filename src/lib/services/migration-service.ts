@@ -0,0 +1,200 @@
+/**
+ * Copies sessions and images between storage adapters without changing IDs
+ * @filepath src/lib/services/migration-service.ts
+ */
+
+import path from 'path';
+import { access } from 'fs/promises';
+import { StorageAdapter } from '@/lib/storage/base';
+import { ImageRecord, Session } from '@/lib/types';
+import {
+  MigrationIssue,
+  MigrationOptions,
+  MigrationReport,
+  SessionMigrationReport,
+} from '@/lib/types/migration';
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class MigrationService {
+  private source: StorageAdapter;
+  private target: StorageAdapter;
+  private dataDir: string;
+  
+  constructor(source: StorageAdapter, target: StorageAdapter, dataDir: string = './data') {
+    this.source = source;
+    this.target = target;
+    this.dataDir = path.resolve(dataDir);
+  }
+  
+  async run(options: MigrationOptions): Promise<MigrationReport> {
+    const report: MigrationReport = {
+      dryRun: options.dryRun,
+      sessions: [],
+      totals: { sessions: 0, images: 0, repairedPaths: 0, missingFiles: 0 },
+      issues: [],
+      verificationErrors: [],
+      verified: false,
+    };
+    
+    const sessions = await this.source.listSessions();
+    
+    for (const session of sessions) {
+      const sessionReport = await this.migrateSession(session, options, report.issues);
+      report.sessions.push(sessionReport);
+      
+      report.totals.sessions++;
+      report.totals.images += sessionReport.images;
+      report.totals.repairedPaths += sessionReport.repairedPaths;
+      report.totals.missingFiles += sessionReport.missingFiles;
+    }
+    
+    if (!options.dryRun) {
+      for (const session of sessions) {
+        report.verificationErrors.push(...await this.verifySession(session));
+      }
+      report.verified = report.verificationErrors.length === 0;
+    }
+    
+    return report;
+  }
+  
+  private async migrateSession(
+    session: Session,
+    options: MigrationOptions,
+    issues: MigrationIssue[]
+  ): Promise<SessionMigrationReport> {
+    const images = await this.source.listImages(session.id);
+    const existing = await this.target.getSession(session.id);
+    
+    const sessionReport: SessionMigrationReport = {
+      sessionId: session.id,
+      name: session.name,
+      images: images.length,
+      exportHistory: session.export_history?.length || 0,
+      repairedPaths: 0,
+      missingFiles: 0,
+      existsInTarget: !!existing,
+    };
+    
+    if (session.image_count !== images.length) {
+      issues.push({
+        sessionId: session.id,
+        message: `image_count is ${session.image_count} but ${images.length} records exist; using ${images.length}`,
+      });
+    }
+    
+    if (!options.dryRun) {
+      await this.target.restoreSession({
+        ...session,
+        export_history: session.export_history || [],
+        image_count: images.length,
+      });
+    }
+    
+    for (const image of images) {
+      // Records missing from the lookup index are still migrated
+      if (!await this.source.getImage(image.id)) {
+        issues.push({
+          sessionId: session.id,
+          imageId: image.id,
+          message: 'Image is not reachable by ID in the source (missing from image mapping)',
+        });
+      }
+      
+      const resolvedPath = await this.resolveFilePath(image);
+      if (!resolvedPath) {
+        sessionReport.missingFiles++;
+        issues.push({
+          sessionId: session.id,
+          imageId: image.id,
+          message: `Image file not found: ${image.file_path}`,
+        });
+      } else if (resolvedPath !== image.file_path) {
+        sessionReport.repairedPaths++;
+        issues.push({
+          sessionId: session.id,
+          imageId: image.id,
+          message: `Repaired file path: ${image.file_path} -> ${resolvedPath}`,
+        });
+      }
+      
+      if (!options.dryRun) {
+        await this.target.restoreImage({
+          ...image,
+          file_path: resolvedPath || image.file_path,
+        });
+      }
+    }
+    
+    return sessionReport;
+  }
+  
+  // Stored path first, then the canonical session images directory
+  private async resolveFilePath(image: ImageRecord): Promise<string | null> {
+    const candidates = [
+      image.file_path,
+      path.join(this.dataDir, 'sessions', image.session_id, 'images', image.filename),
+    ];
+    
+    for (const candidate of candidates) {
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+    
+    return null;
+  }
+  
+  private async verifySession(session: Session): Promise<MigrationIssue[]> {
+    const errors: MigrationIssue[] = [];
+    const sourceImages = await this.source.listImages(session.id);
+    
+    const migrated = await this.target.getSession(session.id);
+    if (!migrated) {
+      return [{ sessionId: session.id, message: 'Session missing in target' }];
+    }
+    
+    if ((migrated.export_history?.length || 0) !== (session.export_history?.length || 0)) {
+      errors.push({ sessionId: session.id, message: 'export_history length mismatch' });
+    }
+    
+    const targetImages = await this.target.listImages(session.id);
+    if (targetImages.length !== sourceImages.length || migrated.image_count !== sourceImages.length) {
+      errors.push({
+        sessionId: session.id,
+        message: `Image count mismatch: source ${sourceImages.length}, target ${targetImages.length} (image_count ${migrated.image_count})`,
+      });
+    }
+    
+    for (const image of sourceImages) {
+      const copy = await this.target.getImage(image.id);
+      if (!copy || copy.session_id !== session.id) {
+        errors.push({ sessionId: session.id, imageId: image.id, message: 'Image missing in target' });
+        continue;
+      }
+      
+      if (JSON.stringify(copy.ai_scores || {}) !== JSON.stringify(image.ai_scores || {})) {
+        errors.push({ sessionId: session.id, imageId: image.id, message: 'ai_scores mismatch' });
+      }
+      
+      // Files the source could not find either are already reported as issues
+      if (!await fileExists(copy.file_path) && await this.resolveFilePath(image)) {
+        errors.push({
+          sessionId: session.id,
+          imageId: image.id,
+          message: `Image file not present at ${copy.file_path}`,
+        });
+      }
+    }
+    
+    return errors;
+  }
+}
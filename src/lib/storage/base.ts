@@ -3,7 +3,14 @@
  * @filepath src/lib/storage/base.ts
  */
 
-import { Session, ImageRecord } from '@/lib/types';
+import {
+  Session,
+  ImageRecord,
+  ImageFilters,
+  ImageQueryParams,
+  ImageSearchResult,
+  PaginatedResponse,
+} from '@/lib/types';
 
 export interface StorageAdapter {
   // Session operations
@@ -11,14 +18,37 @@ export interface StorageAdapter {
   getSession(id: string): Promise<Session | null>;
   listSessions(userId?: string): Promise<Session[]>;
   updateSession(id: string, updates: Partial<Session>): Promise<Session>;
+  // Read-modify-write that no other session write can interleave with; `mutate` returns the updates
+  mutateSession(id: string, mutate: (session: Session) => Partial<Session>): Promise<Session>;
   deleteSession(id: string): Promise<void>;
+  restoreSession(session: Session): Promise<Session>;
   
   // Image operations
   createImage(image: Omit<ImageRecord, 'id' | 'upload_timestamp'>): Promise<ImageRecord>;
+  restoreImage(image: ImageRecord): Promise<ImageRecord>;
   getImage(id: string): Promise<ImageRecord | null>;
-  listImages(sessionId: string, params?: any): Promise<ImageRecord[]>;
+  listImages(sessionId: string, filters?: ImageFilters): Promise<ImageRecord[]>;
+  queryImages(sessionId: string, params: ImageQueryParams): Promise<PaginatedResponse<ImageRecord>>;
   updateImage(id: string, updates: Partial<ImageRecord>): Promise<ImageRecord>;
   deleteImage(id: string): Promise<void>;
+  deleteAllSessionImages(sessionId: string): Promise<void>;
+  
+  // Batch operations on images of one session; all-or-nothing, throw if any ID is not in the session
+  updateImages(
+    sessionId: string,
+    imageIds: string[],
+    update: (image: ImageRecord) => Partial<ImageRecord>
+  ): Promise<ImageRecord[]>;
+  deleteImages(sessionId: string, imageIds: string[]): Promise<void>;
+  moveImages(sessionId: string, imageIds: string[], targetSessionId: string): Promise<ImageRecord[]>;
+  // Copies get new IDs and their own files; prompt, scores, tags and notes are kept
+  copyImages(sessionId: string, imageIds: string[], targetSessionId: string): Promise<ImageRecord[]>;
+  
+  // Ranked full-text search across all of a user's sessions
+  searchImages(userId: string, query: string, limit: number): Promise<ImageSearchResult[]>;
+  
+  // Images across all of a user's sessions whose file has this SHA-256 content hash
+  findImagesByContentHash(userId: string, contentHash: string): Promise<ImageRecord[]>;
   
   // Utility operations
   getSessionStats(sessionId: string): Promise<any>;
@@ -0,0 +1,98 @@
+/**
+ * File locking and atomic writes for the JSON storage backend
+ * Serializes writers per file within the process (promise queue) and across
+ * processes (exclusive lock file), and replaces files via write-temp-then-rename
+ * @filepath src/lib/storage/file-lock.ts
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { nanoid } from 'nanoid';
+
+const LOCK_CONFIG = {
+  RETRY_DELAY_MS: 15,
+  TIMEOUT_MS: 10_000,
+  STALE_MS: 30_000, // Lock files older than this are left over from a crash
+};
+
+// Tail of the pending-operation chain for each file
+const queues = new Map<string, Promise<unknown>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function acquireLockFile(lockPath: string): Promise<void> {
+  const deadline = Date.now() + LOCK_CONFIG.TIMEOUT_MS;
+  
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      return;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+    
+    try {
+      const stats = await fs.stat(lockPath);
+      if (Date.now() - stats.mtimeMs > LOCK_CONFIG.STALE_MS) {
+        console.warn(`⚠️  Removing stale lock: ${lockPath}`);
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      // Lock released between open and stat - retry immediately
+      continue;
+    }
+    
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on ${path.basename(lockPath, '.lock')}`);
+    }
+    await sleep(LOCK_CONFIG.RETRY_DELAY_MS);
+  }
+}
+
+/**
+ * Runs fn while holding the lock for filePath. Never nest locks on different
+ * files inside fn - callers take one lock at a time so there is no lock ordering.
+ */
+export async function withFileLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+  const key = path.resolve(filePath);
+  const previous = queues.get(key) || Promise.resolve();
+  
+  const run = previous.catch(() => undefined).then(async () => {
+    const lockPath = `${key}.lock`;
+    await fs.mkdir(path.dirname(key), { recursive: true });
+    await acquireLockFile(lockPath);
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  });
+  
+  queues.set(key, run);
+  try {
+    return await run;
+  } finally {
+    // Drop the queue entry once nothing else is waiting behind us
+    if (queues.get(key) === run) {
+      queues.delete(key);
+    }
+  }
+}
+
+/**
+ * Writes to a temp file in the same directory and renames it over the target,
+ * so readers never observe a truncated file
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${nanoid(8)}.tmp`;
+  try {
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
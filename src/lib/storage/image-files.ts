@@ -0,0 +1,157 @@
+/**
+ * Relocation and duplication of image files between session directories
+ * Used by adapters when records change session; every step can be undone
+ * @filepath src/lib/storage/image-files.ts
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ImageRecord } from '@/lib/types';
+import { toAbsolutePath } from './paths';
+
+export interface FileRelocation {
+  from: string;
+  to: string;
+}
+
+export interface PlacedFile {
+  filename: string;
+  filePath: string;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Keep the original name unless it is already taken in the target directory
+async function uniqueFilename(dir: string, filename: string, reserved: Set<string>): Promise<string> {
+  const ext = path.extname(filename);
+  const base = filename.slice(0, filename.length - ext.length);
+  
+  let candidate = filename;
+  let counter = 1;
+  while (reserved.has(candidate) || await exists(path.join(dir, candidate))) {
+    candidate = `${base}_${counter}${ext}`;
+    counter++;
+  }
+  
+  reserved.add(candidate);
+  return candidate;
+}
+
+async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.rename(from, to);
+  } catch (error: any) {
+    // Different filesystem: fall back to copy + delete
+    if (error.code !== 'EXDEV') throw error;
+    await fs.copyFile(from, to);
+    await fs.unlink(from);
+  }
+}
+
+/**
+ * Move the files of the given images (absolute file_path) into targetDir.
+ * Records whose file is missing still get a target path so metadata stays consistent.
+ * On failure, files already moved are put back before the error is rethrown.
+ */
+export async function relocateImageFiles(
+  images: ImageRecord[],
+  targetDir: string
+): Promise<{ placed: Map<string, PlacedFile>; relocations: FileRelocation[] }> {
+  await fs.mkdir(targetDir, { recursive: true });
+  
+  const placed = new Map<string, PlacedFile>();
+  const relocations: FileRelocation[] = [];
+  const reserved = new Set<string>();
+  
+  try {
+    for (const image of images) {
+      const filename = await uniqueFilename(targetDir, image.filename, reserved);
+      const filePath = path.resolve(targetDir, filename);
+      
+      if (await exists(image.file_path)) {
+        await moveFile(image.file_path, filePath);
+        relocations.push({ from: image.file_path, to: filePath });
+      } else {
+        console.warn(`⚠️  File missing for image ${image.id}, moving record only`);
+      }
+      
+      placed.set(image.id, { filename, filePath });
+    }
+  } catch (error) {
+    await undoRelocations(relocations);
+    throw error;
+  }
+  
+  return { placed, relocations };
+}
+
+// Best effort: put files back where they were
+export async function undoRelocations(relocations: FileRelocation[]): Promise<void> {
+  for (const { from, to } of [...relocations].reverse()) {
+    try {
+      await moveFile(to, from);
+    } catch (error) {
+      console.error(`❌ Failed to restore ${from}:`, error);
+    }
+  }
+}
+
+/**
+ * Copy the files of the given images (absolute file_path) into targetDir under new IDs.
+ * `placed` is keyed by the new image ID; on failure, copies already made are removed.
+ */
+export async function copyImageFiles(
+  images: { newId: string; image: ImageRecord }[],
+  targetDir: string
+): Promise<{ placed: Map<string, PlacedFile>; created: string[] }> {
+  await fs.mkdir(targetDir, { recursive: true });
+  
+  const placed = new Map<string, PlacedFile>();
+  const created: string[] = [];
+  const reserved = new Set<string>();
+  
+  try {
+    for (const { newId, image } of images) {
+      const filename = await uniqueFilename(targetDir, image.filename, reserved);
+      const filePath = path.resolve(targetDir, filename);
+      
+      if (await exists(image.file_path)) {
+        await fs.copyFile(image.file_path, filePath);
+        created.push(filePath);
+      } else {
+        console.warn(`⚠️  File missing for image ${image.id}, copying record only`);
+      }
+      
+      placed.set(newId, { filename, filePath });
+    }
+  } catch (error) {
+    await removeFiles(created);
+    throw error;
+  }
+  
+  return { placed, created };
+}
+
+// Best effort cleanup of files created by a failed operation
+export async function removeFiles(filePaths: string[]): Promise<void> {
+  await Promise.all(filePaths.map(filePath => fs.unlink(filePath).catch(() => undefined)));
+}
+
+// Delete archived files of replaced images (see ImageVersionService) when the images go away
+export async function removeVersionFiles(images: ImageRecord[]): Promise<void> {
+  for (const image of images) {
+    for (const version of image.versions || []) {
+      const filePath = toAbsolutePath(version.file_path);
+      await fs.unlink(filePath).catch(() => undefined);
+      // Only succeeds once the image's version directory is empty
+      await fs.rmdir(path.dirname(filePath)).catch(() => undefined);
+    }
+  }
+}
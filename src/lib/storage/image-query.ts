@@ -0,0 +1,84 @@
+/**
+ * In-memory filtering, sorting and pagination of image records
+ * Shared by storage adapters so every backend answers queries the same way
+ * @filepath src/lib/storage/image-query.ts
+ */
+
+import { ImageFilters, ImageQueryParams, ImageRecord, PaginatedResponse } from '@/lib/types';
+
+export function filterImages(images: ImageRecord[], filters: ImageFilters = {}): ImageRecord[] {
+  const tag = filters.tag?.toLowerCase();
+  
+  return images.filter(img => {
+    if (filters.generator_used && img.generator_used !== filters.generator_used) return false;
+    if (tag && !img.tags?.some(t => t.toLowerCase() === tag)) return false;
+    
+    if (filters.min_rating !== undefined || filters.max_rating !== undefined) {
+      if (img.quality_rating === undefined) return false;
+      if (filters.min_rating !== undefined && img.quality_rating < filters.min_rating) return false;
+      if (filters.max_rating !== undefined && img.quality_rating > filters.max_rating) return false;
+    }
+    
+    if (filters.score_field) {
+      const score = img.ai_scores?.[filters.score_field];
+      if (score === undefined) return false;
+      if (filters.min_score !== undefined && score < filters.min_score) return false;
+      if (filters.max_score !== undefined && score > filters.max_score) return false;
+    }
+    
+    return true;
+  });
+}
+
+function getSortValue(image: ImageRecord, sortBy: string): number | undefined {
+  switch (sortBy) {
+    case 'upload_timestamp':
+      return new Date(image.upload_timestamp).getTime();
+    case 'quality_rating':
+      return image.quality_rating;
+    case 'file_size':
+      return image.file_size;
+    default:
+      return image.ai_scores?.[sortBy];
+  }
+}
+
+// Records without a value for the sort key always come last
+export function sortImages(
+  images: ImageRecord[],
+  sortBy: string = 'upload_timestamp',
+  order: 'asc' | 'desc' = 'asc'
+): ImageRecord[] {
+  const direction = order === 'desc' ? -1 : 1;
+  
+  return [...images].sort((a, b) => {
+    const av = getSortValue(a, sortBy);
+    const bv = getSortValue(b, sortBy);
+    
+    if (av === undefined && bv === undefined) return 0;
+    if (av === undefined) return 1;
+    if (bv === undefined) return -1;
+    return (av - bv) * direction || a.id.localeCompare(b.id);
+  });
+}
+
+export function paginate<T>(items: T[], page: number, limit: number): PaginatedResponse<T> {
+  const start = (page - 1) * limit;
+  
+  return {
+    items: items.slice(start, start + limit),
+    total: items.length,
+    page,
+    pages: Math.ceil(items.length / limit),
+    limit,
+  };
+}
+
+export function queryImageList(
+  images: ImageRecord[],
+  params: ImageQueryParams
+): PaginatedResponse<ImageRecord> {
+  const filtered = filterImages(images, params);
+  const sorted = sortImages(filtered, params.sort_by, params.order);
+  return paginate(sorted, params.page, params.limit);
+}
@@ -0,0 +1,153 @@
+/**
+ * Full-text ranking and snippet highlighting for image search
+ * Adapters narrow down candidates however they like; ranking always happens here
+ * @filepath src/lib/storage/image-search.ts
+ */
+
+import { ImageRecord, ImageSearchResult, SearchableField, SearchSnippetPart } from '@/lib/types';
+
+// Relative importance of a hit in each field
+const FIELD_WEIGHTS: Record<SearchableField, number> = {
+  prompt: 3,
+  tags: 3,
+  user_description: 2,
+  original_filename: 2,
+  notes: 1,
+};
+
+// Order in which fields are considered for the snippet
+const SNIPPET_FIELDS: SearchableField[] = ['prompt', 'user_description', 'notes', 'tags', 'original_filename'];
+
+const SNIPPET_LENGTH = 160;
+
+export const SEARCHABLE_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchableField[];
+
+export function tokenizeQuery(query: string): string[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return Array.from(new Set(terms));
+}
+
+export function getFieldText(image: ImageRecord, field: SearchableField): string {
+  if (field === 'tags') return (image.tags || []).join(', ');
+  return image[field] || '';
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+function isWordMatch(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text);
+}
+
+function buildSnippet(text: string, terms: string[]): SearchSnippetPart[] {
+  const lower = text.toLowerCase();
+  const firstHit = Math.min(...terms.map(t => lower.indexOf(t)).filter(i => i !== -1));
+  
+  // Center the window on the first hit
+  let start = Math.max(0, firstHit - Math.floor(SNIPPET_LENGTH / 3));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, end - SNIPPET_LENGTH);
+  
+  const windowText = text.slice(start, end);
+  const windowLower = windowText.toLowerCase();
+  
+  // Mark every matched character, then collapse into runs
+  const marked = new Array<boolean>(windowText.length).fill(false);
+  for (const term of terms) {
+    let index = windowLower.indexOf(term);
+    while (index !== -1) {
+      marked.fill(true, index, index + term.length);
+      index = windowLower.indexOf(term, index + term.length);
+    }
+  }
+  
+  const parts: SearchSnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+  
+  let runStart = 0;
+  for (let i = 1; i <= windowText.length; i++) {
+    if (i === windowText.length || marked[i] !== marked[runStart]) {
+      parts.push({ text: windowText.slice(runStart, i), match: marked[runStart] });
+      runStart = i;
+    }
+  }
+  
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+}
+
+/**
+ * Score one image against the query terms.
+ * Every term must match at least one field; returns null otherwise.
+ */
+export function rankImage(
+  image: ImageRecord,
+  terms: string[],
+  sessionName: string
+): ImageSearchResult | null {
+  if (terms.length === 0) return null;
+  
+  const texts = Object.fromEntries(
+    SEARCHABLE_FIELDS.map(field => [field, getFieldText(image, field).toLowerCase()])
+  ) as Record<SearchableField, string>;
+  
+  let score = 0;
+  const matchedFields = new Set<SearchableField>();
+  
+  for (const term of terms) {
+    let termMatched = false;
+    
+    for (const field of SEARCHABLE_FIELDS) {
+      const occurrences = countOccurrences(texts[field], term);
+      if (occurrences === 0) continue;
+      
+      termMatched = true;
+      matchedFields.add(field);
+      
+      // Repeated hits help a little, whole words and exact tags help more
+      let fieldScore = FIELD_WEIGHTS[field] * (1 + Math.log(occurrences));
+      if (isWordMatch(texts[field], term)) fieldScore *= 1.5;
+      if (field === 'tags' && image.tags.some(tag => tag.toLowerCase() === term)) fieldScore *= 2;
+      score += fieldScore;
+    }
+    
+    if (!termMatched) return null;
+  }
+  
+  const snippetField = SNIPPET_FIELDS.find(field => matchedFields.has(field))!;
+  
+  return {
+    image,
+    session_name: sessionName,
+    score: Math.round(score * 100) / 100,
+    matched_fields: SEARCHABLE_FIELDS.filter(field => matchedFields.has(field)),
+    snippet_field: snippetField,
+    snippet: buildSnippet(getFieldText(image, snippetField), terms),
+  };
+}
+
+// Best matches first; newer images win ties
+export function rankImages(
+  candidates: { image: ImageRecord; sessionName: string }[],
+  query: string,
+  limit: number
+): ImageSearchResult[] {
+  const terms = tokenizeQuery(query);
+  
+  return candidates
+    .map(({ image, sessionName }) => rankImage(image, terms, sessionName))
+    .filter((result): result is ImageSearchResult => result !== null)
+    .sort((a, b) =>
+      b.score - a.score ||
+      b.image.upload_timestamp.localeCompare(a.image.upload_timestamp)
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,36 @@
+/**
+ * Storage backend selection
+ * Picks the adapter from app-config.json, overridable with STORAGE_BACKEND
+ * @filepath src/lib/storage/index.ts
+ */
+
+import appConfig from '@/lib/config/app-config.json';
+import path from 'path';
+import { StorageAdapter } from './base';
+import { JsonStorage } from './json-storage';
+import { SqliteStorage } from './sqlite-storage';
+import { DATA_DIR } from './paths';
+
+export type StorageBackend = 'json' | 'sqlite';
+
+export function createStorage(
+  backend: string = process.env.STORAGE_BACKEND || appConfig.storage.backend
+): StorageAdapter {
+  switch (backend as StorageBackend) {
+    case 'json':
+      return new JsonStorage(DATA_DIR);
+    case 'sqlite':
+      // A relative sqlitePath in the config lives inside the data directory
+      return new SqliteStorage(
+        process.env.SQLITE_PATH || path.resolve(DATA_DIR, appConfig.storage.sqlitePath),
+        DATA_DIR
+      );
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
+}
+
+// Export singleton instance
+export const storage = createStorage();
+
+export type { StorageAdapter } from './base';
@@ -0,0 +1,104 @@
+/**
+ * Concurrency of JsonStorage writes (per-file locks and atomic renames)
+ * @filepath src/lib/storage/json-storage.test.ts
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { JsonStorage } from './json-storage';
+import { DATA_DIR } from './paths';
+import { ImageRecord, Session } from '@/lib/types';
+
+const PARALLEL_WRITES = 200;
+
+function newImage(sessionId: string, index: number): Omit<ImageRecord, 'id' | 'upload_timestamp'> {
+  return {
+    session_id: sessionId,
+    filename: `image-${index}.png`,
+    original_filename: `image-${index}.png`,
+    file_path: path.join(DATA_DIR, 'sessions', sessionId, 'images', `image-${index}.png`),
+    file_size: 100,
+    image_dimensions: { width: 1, height: 1 },
+    prompt: `prompt ${index}`,
+    generator_used: 'other',
+    uploaded_by: 'u1',
+    tags: [],
+  };
+}
+
+describe('JsonStorage concurrent writes', () => {
+  let storage: JsonStorage;
+  let session: Session;
+  
+  beforeEach(async () => {
+    storage = new JsonStorage(DATA_DIR);
+    session = await storage.createSession({
+      name: 'Stress',
+      created_by: 'u1',
+      image_count: 0,
+      status: 'active',
+      export_history: [],
+    });
+  });
+  
+  it('keeps every image when many createImage calls run at once', async () => {
+    const created = await Promise.all(
+      Array.from({ length: PARALLEL_WRITES }, (_, i) => storage.createImage(newImage(session.id, i)))
+    );
+    
+    const stored = await storage.listImages(session.id);
+    expect(stored).toHaveLength(PARALLEL_WRITES);
+    expect(new Set(stored.map(image => image.id))).toEqual(new Set(created.map(image => image.id)));
+    
+    // The global mapping is a second file written by every call
+    const mapping = JSON.parse(await readFile(path.join(DATA_DIR, 'image-mapping.json'), 'utf-8'));
+    for (const image of created) {
+      expect(mapping[image.id]).toBe(session.id);
+    }
+    
+    expect((await storage.getSession(session.id))!.image_count).toBe(PARALLEL_WRITES);
+  });
+  
+  it('keeps every image when parallel writes span several sessions', async () => {
+    const other = await storage.createSession({
+      name: 'Stress 2',
+      created_by: 'u1',
+      image_count: 0,
+      status: 'active',
+      export_history: [],
+    });
+    
+    await Promise.all(
+      Array.from({ length: PARALLEL_WRITES }, (_, i) =>
+        storage.createImage(newImage(i % 2 ? other.id : session.id, i))
+      )
+    );
+    
+    expect(await storage.listImages(session.id)).toHaveLength(PARALLEL_WRITES / 2);
+    expect(await storage.listImages(other.id)).toHaveLength(PARALLEL_WRITES / 2);
+  });
+  
+  it('keeps every export record when many mutateSession calls append at once', async () => {
+    await Promise.all(
+      Array.from({ length: PARALLEL_WRITES }, (_, i) =>
+        storage.mutateSession(session.id, current => ({
+          export_history: [
+            ...current.export_history,
+            {
+              id: `export-${i}`,
+              exported_at: new Date().toISOString(),
+              exported_by: 'u1',
+              format: 'zip' as const,
+              file_path: `exports/export-${i}.zip`,
+              image_count: 0,
+            },
+          ],
+        }))
+      )
+    );
+    
+    const { export_history } = (await storage.getSession(session.id))!;
+    expect(export_history).toHaveLength(PARALLEL_WRITES);
+  });
+});
@@ -1,21 +1,39 @@
 /**
  * Fixed JSON storage with relative path handling
+ * Every read-modify-write holds a per-file lock and replaces files atomically
  * @filepath src/lib/storage/json-storage.ts
  */
 
 import fs from 'fs/promises';
 import path from 'path';
 import { nanoid } from 'nanoid';
-import { Session, ImageRecord } from '@/lib/types';
+import {
+  Session,
+  ImageRecord,
+  ImageFilters,
+  ImageQueryParams,
+  ImageSearchResult,
+  PaginatedResponse,
+} from '@/lib/types';
 import { StorageAdapter } from './base';
+import { toRelativePath, toAbsolutePath } from './paths';
+import { withFileLock, writeFileAtomic } from './file-lock';
+import { filterImages, queryImageList } from './image-query';
+import { rankImages } from './image-search';
+import {
+  copyImageFiles,
+  relocateImageFiles,
+  removeFiles,
+  removeVersionFiles,
+  undoRelocations,
+} from './image-files';
+import { appendTombstones } from './tombstones';
 
 export class JsonStorage implements StorageAdapter {
   private dataDir: string;
-  private projectRoot: string;
   
   constructor(dataDir: string = './data') {
     this.dataDir = dataDir;
-    this.projectRoot = process.cwd();
   }
   
   private async ensureDir(dirPath: string) {
@@ -30,24 +48,20 @@ export class JsonStorage implements StorageAdapter {
     return path.join(this.dataDir, 'sessions', sessionId);
   }
   
-  // Convert absolute path to relative for storage
-  private toRelativePath(absolutePath: string): string {
-    if (absolutePath.startsWith(this.projectRoot)) {
-      return path.relative(this.projectRoot, absolutePath);
-    }
-    return absolutePath;
+  private getMetadataPath(sessionId: string) {
+    return path.join(this.getSessionPath(sessionId), 'metadata.json');
   }
   
-  // Convert relative path to absolute for file operations
-  private toAbsolutePath(relativePath: string): string {
-    if (path.isAbsolute(relativePath)) {
-      return relativePath;
-    }
-    return path.join(this.projectRoot, relativePath);
+  private getConfigPath(sessionId: string) {
+    return path.join(this.getSessionPath(sessionId), 'session_config.json');
+  }
+  
+  private getMappingPath() {
+    return path.join(this.dataDir, 'image-mapping.json');
   }
   
   private async readMetadata(sessionId: string): Promise<any> {
-    const metadataPath = path.join(this.getSessionPath(sessionId), 'metadata.json');
+    const metadataPath = this.getMetadataPath(sessionId);
     try {
       const data = await fs.readFile(metadataPath, 'utf-8');
       return JSON.parse(data);
@@ -56,26 +70,55 @@ export class JsonStorage implements StorageAdapter {
     }
   }
   
-  private async writeMetadata(sessionId: string, metadata: any) {
-    const metadataPath = path.join(this.getSessionPath(sessionId), 'metadata.json');
-    await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
+  // Read-modify-write of a session's metadata.json under its lock
+  private async mutateMetadata<T>(sessionId: string, mutate: (metadata: any) => T): Promise<T> {
+    const metadataPath = this.getMetadataPath(sessionId);
+    return withFileLock(metadataPath, async () => {
+      const metadata = await this.readMetadata(sessionId);
+      const result = mutate(metadata);
+      await writeFileAtomic(metadataPath, JSON.stringify(metadata, null, 2));
+      return result;
+    });
   }
   
   // Add image mapping functions
   private async getImageMapping(): Promise<Record<string, string>> {
-    const mappingPath = path.join(this.dataDir, 'image-mapping.json');
     try {
-      const data = await fs.readFile(mappingPath, 'utf-8');
+      const data = await fs.readFile(this.getMappingPath(), 'utf-8');
       return JSON.parse(data);
     } catch {
       return {};
     }
   }
   
-  private async saveImageMapping(mapping: Record<string, string>) {
-    const mappingPath = path.join(this.dataDir, 'image-mapping.json');
-    await this.ensureDir(this.dataDir);
-    await fs.writeFile(mappingPath, JSON.stringify(mapping, null, 2));
+  private async mutateImageMapping(mutate: (mapping: Record<string, string>) => void): Promise<void> {
+    const mappingPath = this.getMappingPath();
+    await withFileLock(mappingPath, async () => {
+      const mapping = await this.getImageMapping();
+      mutate(mapping);
+      await writeFileAtomic(mappingPath, JSON.stringify(mapping, null, 2));
+    });
+  }
+  
+  // Recount from metadata.json so concurrent writers can't leave a stale count;
+  // images that left the session get a tombstone in the same write
+  private async refreshImageCount(sessionId: string, removedIds: string[] = []): Promise<void> {
+    const configPath = this.getConfigPath(sessionId);
+    await withFileLock(configPath, async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) return;
+      
+      const metadata = await this.readMetadata(sessionId);
+      const updated = {
+        ...session,
+        image_count: Object.keys(metadata.images).length,
+        updated_at: new Date().toISOString(),
+        deleted_images: removedIds.length > 0
+          ? appendTombstones(session.deleted_images, removedIds)
+          : session.deleted_images,
+      };
+      await writeFileAtomic(configPath, JSON.stringify(updated, null, 2));
+    });
   }
   
   async createSession(data: Omit<Session, 'id' | 'created_at' | 'updated_at'>): Promise<Session> {
@@ -88,20 +131,26 @@ export class JsonStorage implements StorageAdapter {
       export_history: [],
     };
     
+    return this.restoreSession(session);
+  }
+  
+  // Write a complete session record as-is (IDs and timestamps preserved)
+  async restoreSession(session: Session): Promise<Session> {
     const sessionPath = this.getSessionPath(session.id);
     await this.ensureDir(sessionPath);
     await this.ensureDir(path.join(sessionPath, 'images'));
     
-    const configPath = path.join(sessionPath, 'session_config.json');
-    await fs.writeFile(configPath, JSON.stringify(session, null, 2));
+    const configPath = this.getConfigPath(session.id);
+    await withFileLock(configPath, () =>
+      writeFileAtomic(configPath, JSON.stringify(session, null, 2))
+    );
     
     return session;
   }
   
   async getSession(id: string): Promise<Session | null> {
     try {
-      const configPath = path.join(this.getSessionPath(id), 'session_config.json');
-      const data = await fs.readFile(configPath, 'utf-8');
+      const data = await fs.readFile(this.getConfigPath(id), 'utf-8');
       return JSON.parse(data);
     } catch {
       return null;
@@ -126,67 +175,85 @@ export class JsonStorage implements StorageAdapter {
   }
   
   async updateSession(id: string, updates: Partial<Session>): Promise<Session> {
-    const session = await this.getSession(id);
-    if (!session) throw new Error('Session not found');
-    
-    const updated = {
-      ...session,
-      ...updates,
-      updated_at: new Date().toISOString(),
-    };
-    
-    const configPath = path.join(this.getSessionPath(id), 'session_config.json');
-    await fs.writeFile(configPath, JSON.stringify(updated, null, 2));
-    
-    return updated;
+    return this.mutateSession(id, () => updates);
+  }
+  
+  // Runs while holding the lock on the session config file
+  async mutateSession(id: string, mutate: (session: Session) => Partial<Session>): Promise<Session> {
+    const configPath = this.getConfigPath(id);
+    
+    return withFileLock(configPath, async () => {
+      const session = await this.getSession(id);
+      if (!session) throw new Error('Session not found');
+      
+      const updated = {
+        ...session,
+        ...mutate(session),
+        updated_at: new Date().toISOString(),
+      };
+      
+      await writeFileAtomic(configPath, JSON.stringify(updated, null, 2));
+      return updated;
+    });
   }
   
   async deleteSession(id: string): Promise<void> {
+    await removeVersionFiles(await this.listImages(id));
+    
     const sessionPath = this.getSessionPath(id);
     await fs.rm(sessionPath, { recursive: true, force: true });
     
     // Clean up image mappings
-    const mapping = await this.getImageMapping();
-    const updatedMapping: Record<string, string> = {};
-    
-    for (const [imageId, sessionId] of Object.entries(mapping)) {
-      if (sessionId !== id) {
-        updatedMapping[imageId] = sessionId;
+    await this.mutateImageMapping(mapping => {
+      for (const [imageId, sessionId] of Object.entries(mapping)) {
+        if (sessionId === id) {
+          delete mapping[imageId];
+        }
       }
-    }
-    
-    await this.saveImageMapping(updatedMapping);
+    });
   }
   
   async createImage(data: Omit<ImageRecord, 'id' | 'upload_timestamp'>): Promise<ImageRecord> {
+    const now = new Date().toISOString();
     const image: ImageRecord = {
       ...data,
       // Store relative path
-      file_path: this.toRelativePath(data.file_path),
+      file_path: toRelativePath(data.file_path),
       id: nanoid(),
-      upload_timestamp: new Date().toISOString(),
+      upload_timestamp: now,
+      updated_at: now,
     };
     
-    const metadata = await this.readMetadata(data.session_id);
-    metadata.images[image.id] = image;
-    await this.writeMetadata(data.session_id, metadata);
+    await this.mutateMetadata(data.session_id, metadata => {
+      metadata.images[image.id] = image;
+    });
     
     // Update image mapping
-    const mapping = await this.getImageMapping();
-    mapping[image.id] = data.session_id;
-    await this.saveImageMapping(mapping);
+    await this.mutateImageMapping(mapping => {
+      mapping[image.id] = data.session_id;
+    });
     
     // Update session image count
-    const session = await this.getSession(data.session_id);
-    if (session) {
-      await this.updateSession(data.session_id, {
-        image_count: Object.keys(metadata.images).length,
-      });
-    }
+    await this.refreshImageCount(data.session_id);
     
     return image;
   }
   
+  // Write a complete image record as-is; session image_count is left to the caller
+  async restoreImage(image: ImageRecord): Promise<ImageRecord> {
+    const stored = { ...image, file_path: toRelativePath(image.file_path) };
+    
+    await this.mutateMetadata(image.session_id, metadata => {
+      metadata.images[image.id] = stored;
+    });
+    
+    await this.mutateImageMapping(mapping => {
+      mapping[image.id] = image.session_id;
+    });
+    
+    return { ...stored, file_path: toAbsolutePath(stored.file_path) };
+  }
+  
   async getImage(id: string): Promise<ImageRecord | null> {
     const mapping = await this.getImageMapping();
     const sessionId = mapping[id];
@@ -201,42 +268,46 @@ export class JsonStorage implements StorageAdapter {
     // Return with absolute path for file operations
     return {
       ...image,
-      file_path: this.toAbsolutePath(image.file_path),
+      file_path: toAbsolutePath(image.file_path),
     };
   }
   
-  async listImages(sessionId: string): Promise<ImageRecord[]> {
+  async listImages(sessionId: string, filters?: ImageFilters): Promise<ImageRecord[]> {
     const metadata = await this.readMetadata(sessionId);
-    const images = Object.values(metadata.images || {}) as ImageRecord[];
+    const images = filterImages(Object.values(metadata.images || {}) as ImageRecord[], filters);
     
     // Convert to absolute paths for file operations
     return images.map(img => ({
       ...img,
-      file_path: this.toAbsolutePath(img.file_path),
+      file_path: toAbsolutePath(img.file_path),
     }));
   }
   
+  async queryImages(sessionId: string, params: ImageQueryParams): Promise<PaginatedResponse<ImageRecord>> {
+    return queryImageList(await this.listImages(sessionId), params);
+  }
+  
   async updateImage(id: string, updates: Partial<ImageRecord>): Promise<ImageRecord> {
     const mapping = await this.getImageMapping();
     const sessionId = mapping[id];
     
     if (!sessionId) throw new Error('Image not found');
     
-    const metadata = await this.readMetadata(sessionId);
-    if (!metadata.images[id]) throw new Error('Image not found');
-    
     // If updating file_path, convert to relative
     if (updates.file_path) {
-      updates.file_path = this.toRelativePath(updates.file_path);
+      updates.file_path = toRelativePath(updates.file_path);
     }
     
-    metadata.images[id] = { ...metadata.images[id], ...updates };
-    await this.writeMetadata(sessionId, metadata);
+    const updated: ImageRecord = await this.mutateMetadata(sessionId, metadata => {
+      if (!metadata.images[id]) throw new Error('Image not found');
+      metadata.images[id] = { ...metadata.images[id], ...updates, updated_at: new Date().toISOString() };
+      return metadata.images[id];
+    });
     
     // Return with absolute path
     return {
-      ...metadata.images[id],
-      file_path: this.toAbsolutePath(metadata.images[id].file_path),
+      ...updated,
+      file_path: toAbsolutePath(updated.file_path),
     };
   }
   
@@ -246,34 +317,246 @@ export class JsonStorage implements StorageAdapter {
     
     if (!sessionId) throw new Error('Image not found');
     
-    const metadata = await this.readMetadata(sessionId);
-    const image = metadata.images[id];
-    
-    if (!image) throw new Error('Image not found');
+    // Remove from metadata
+    const image: ImageRecord = await this.mutateMetadata(sessionId, metadata => {
+      const existing = metadata.images[id];
+      if (!existing) throw new Error('Image not found');
+      delete metadata.images[id];
+      return existing;
+    });
     
     // Delete file (handle both relative and absolute paths)
     try {
-      const filePath = this.toAbsolutePath(image.file_path);
+      const filePath = toAbsolutePath(image.file_path);
       await fs.unlink(filePath);
     } catch {
       // File might not exist
     }
-    
-    // Remove from metadata
-    delete metadata.images[id];
-    await this.writeMetadata(sessionId, metadata);
+    await removeVersionFiles([image]);
     
     // Remove from mapping
-    delete mapping[id];
-    await this.saveImageMapping(mapping);
+    await this.mutateImageMapping(mapping => {
+      delete mapping[id];
+    });
     
     // Update session count
-    const session = await this.getSession(sessionId);
-    if (session) {
-      await this.updateSession(sessionId, {
-        image_count: Object.keys(metadata.images).length,
+    await this.refreshImageCount(sessionId, [id]);
+  }
+  
+  // Every change lands in a single metadata.json write, so a failure leaves nothing half-applied
+  async updateImages(
+    sessionId: string,
+    imageIds: string[],
+    update: (image: ImageRecord) => Partial<ImageRecord>
+  ): Promise<ImageRecord[]> {
+    const now = new Date().toISOString();
+    const updated: ImageRecord[] = await this.mutateMetadata(sessionId, metadata => {
+      const missing = imageIds.filter(id => !metadata.images[id]);
+      if (missing.length > 0) {
+        throw new Error(`Images not found in session: ${missing.join(', ')}`);
+      }
+      
+      return imageIds.map(id => {
+        const image: ImageRecord = metadata.images[id];
+        const updates = update({ ...image, file_path: toAbsolutePath(image.file_path) });
+        const next = { ...image, ...updates, id, session_id: sessionId, updated_at: now };
+        
+        if (updates.file_path) {
+          next.file_path = toRelativePath(updates.file_path);
+        }
+        
+        metadata.images[id] = next;
+        return next;
+      });
+    });
+    
+    return updated.map(img => ({
+      ...img,
+      file_path: toAbsolutePath(img.file_path),
+    }));
+  }
+  
+  async deleteImages(sessionId: string, imageIds: string[]): Promise<void> {
+    const removed: ImageRecord[] = await this.mutateMetadata(sessionId, metadata => {
+      const missing = imageIds.filter(id => !metadata.images[id]);
+      if (missing.length > 0) {
+        throw new Error(`Images not found in session: ${missing.join(', ')}`);
+      }
+      
+      return imageIds.map(id => {
+        const image = metadata.images[id];
+        delete metadata.images[id];
+        return image;
+      });
+    });
+    
+    for (const image of removed) {
+      try {
+        await fs.unlink(toAbsolutePath(image.file_path));
+      } catch {
+        // File might not exist
+      }
+    }
+    await removeVersionFiles(removed);
+    
+    await this.mutateImageMapping(mapping => {
+      for (const id of imageIds) {
+        delete mapping[id];
+      }
+    });
+    
+    await this.refreshImageCount(sessionId, imageIds);
+  }
+  
+  // Detach from the source, move files, attach to the target; each step is undone if a later one fails
+  async moveImages(sessionId: string, imageIds: string[], targetSessionId: string): Promise<ImageRecord[]> {
+    if (sessionId === targetSessionId) throw new Error('Images are already in this session');
+    if (!(await this.getSession(targetSessionId))) throw new Error('Target session not found');
+    
+    const removed: ImageRecord[] = await this.mutateMetadata(sessionId, metadata => {
+      const missing = imageIds.filter(id => !metadata.images[id]);
+      if (missing.length > 0) {
+        throw new Error(`Images not found in session: ${missing.join(', ')}`);
+      }
+      
+      return imageIds.map(id => {
+        const image = metadata.images[id];
+        delete metadata.images[id];
+        return image;
       });
+    });
+    
+    const reattach = () => this.mutateMetadata(sessionId, metadata => {
+      for (const image of removed) {
+        metadata.images[image.id] = image;
+      }
+    });
+    
+    let moved: ImageRecord[];
+    const now = new Date().toISOString();
+    try {
+      const targetDir = path.join(this.getSessionPath(targetSessionId), 'images');
+      const { placed, relocations } = await relocateImageFiles(
+        removed.map(img => ({ ...img, file_path: toAbsolutePath(img.file_path) })),
+        targetDir
+      );
+      
+      moved = removed.map(img => ({
+        ...img,
+        session_id: targetSessionId,
+        filename: placed.get(img.id)!.filename,
+        file_path: toRelativePath(placed.get(img.id)!.filePath),
+        updated_at: now,
+      }));
+      
+      try {
+        await this.mutateMetadata(targetSessionId, metadata => {
+          for (const image of moved) {
+            metadata.images[image.id] = image;
+          }
+        });
+      } catch (error) {
+        await undoRelocations(relocations);
+        throw error;
+      }
+    } catch (error) {
+      await reattach();
+      throw error;
     }
+    
+    await this.mutateImageMapping(mapping => {
+      for (const id of imageIds) {
+        mapping[id] = targetSessionId;
+      }
+    });
+    
+    await this.refreshImageCount(sessionId, imageIds);
+    await this.refreshImageCount(targetSessionId);
+    
+    return moved.map(img => ({
+      ...img,
+      file_path: toAbsolutePath(img.file_path),
+    }));
+  }
+  
+  async copyImages(sessionId: string, imageIds: string[], targetSessionId: string): Promise<ImageRecord[]> {
+    if (!(await this.getSession(targetSessionId))) throw new Error('Target session not found');
+    
+    const metadata = await this.readMetadata(sessionId);
+    const missing = imageIds.filter(id => !metadata.images[id]);
+    if (missing.length > 0) {
+      throw new Error(`Images not found in session: ${missing.join(', ')}`);
+    }
+    
+    const sources = imageIds.map(id => ({
+      newId: nanoid(),
+      image: { ...metadata.images[id], file_path: toAbsolutePath(metadata.images[id].file_path) } as ImageRecord,
+    }));
+    
+    const targetDir = path.join(this.getSessionPath(targetSessionId), 'images');
+    const { placed, created } = await copyImageFiles(sources, targetDir);
+    const now = new Date().toISOString();
+    
+    const copies: ImageRecord[] = sources.map(({ newId, image }) => ({
+      ...image,
+      id: newId,
+      session_id: targetSessionId,
+      filename: placed.get(newId)!.filename,
+      file_path: toRelativePath(placed.get(newId)!.filePath),
+      thumbnail_path: undefined,
+      versions: undefined,
+      upload_timestamp: now,
+      updated_at: now,
+    }));
+    
+    try {
+      await this.mutateMetadata(targetSessionId, target => {
+        for (const copy of copies) {
+          target.images[copy.id] = copy;
+        }
+      });
+    } catch (error) {
+      await removeFiles(created);
+      throw error;
+    }
+    
+    await this.mutateImageMapping(mapping => {
+      for (const copy of copies) {
+        mapping[copy.id] = targetSessionId;
+      }
+    });
+    
+    await this.refreshImageCount(targetSessionId);
+    
+    return copies.map(img => ({
+      ...img,
+      file_path: toAbsolutePath(img.file_path),
+    }));
+  }
+  
+  // No index on disk: scan every session the user owns
+  async searchImages(userId: string, query: string, limit: number): Promise<ImageSearchResult[]> {
+    const sessions = await this.listSessions(userId);
+    const candidates: { image: ImageRecord; sessionName: string }[] = [];
+    
+    for (const session of sessions) {
+      const images = await this.listImages(session.id);
+      candidates.push(...images.map(image => ({ image, sessionName: session.name })));
+    }
+    
+    return rankImages(candidates, query, limit);
+  }
+  
+  // No index here: every metadata file of the user is read
+  async findImagesByContentHash(userId: string, contentHash: string): Promise<ImageRecord[]> {
+    const matches: ImageRecord[] = [];
+    
+    for (const session of await this.listSessions(userId)) {
+      const images = await this.listImages(session.id);
+      matches.push(...images.filter(image => image.content_hash === contentHash));
+    }
+    
+    return matches;
   }
   
   // Delete all images in a session
@@ -310,7 +593,7 @@ export class JsonStorage implements StorageAdapter {
     // Convert back to relative paths for export
     const exportImages = images.map(img => ({
       ...img,
-      file_path: this.toRelativePath(img.file_path),
+      file_path: toRelativePath(img.file_path),
     }));
     
     const exportData = {
@@ -326,6 +609,3 @@ export class JsonStorage implements StorageAdapter {
     return exportPath;
   }
 }
-
-// Export singleton instance
-export const storage = new JsonStorage();
\ No newline at end of file
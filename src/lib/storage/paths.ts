@@ -0,0 +1,31 @@
+/**
+ * Path helpers shared by storage adapters
+ * Records keep paths relative to the project root so data directories stay portable
+ * @filepath src/lib/storage/paths.ts
+ */
+
+import path from 'path';
+import appConfig from '@/lib/config/app-config.json';
+
+// Root of everything the app stores on disk (storage.dataDir, overridable with DATA_DIR)
+export const DATA_DIR = path.resolve(process.env.DATA_DIR || appConfig.storage.dataDir);
+
+export function dataPath(...segments: string[]): string {
+  return path.join(DATA_DIR, ...segments);
+}
+
+// Convert absolute path to relative for storage
+export function toRelativePath(absolutePath: string, projectRoot: string = process.cwd()): string {
+  if (absolutePath.startsWith(projectRoot)) {
+    return path.relative(projectRoot, absolutePath);
+  }
+  return absolutePath;
+}
+
+// Convert relative path to absolute for file operations
+export function toAbsolutePath(relativePath: string, projectRoot: string = process.cwd()): string {
+  if (path.isAbsolute(relativePath)) {
+    return relativePath;
+  }
+  return path.join(projectRoot, relativePath);
+}
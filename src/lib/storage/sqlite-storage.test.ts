@@ -0,0 +1,62 @@
+/**
+ * Lookups behave the same on both backends: case folding of non-ASCII letters in search and
+ * tag filters, and content hash lookups scoped to the user's sessions
+ * @filepath src/lib/storage/sqlite-storage.test.ts
+ */
+
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { StorageAdapter } from './base';
+import { JsonStorage } from './json-storage';
+import { DATA_DIR } from './paths';
+import { SqliteStorage } from './sqlite-storage';
+
+async function seed(storage: StorageAdapter, userId = 'u1') {
+  const session = await storage.createSession({
+    name: 'Unicode',
+    created_by: userId,
+    image_count: 0,
+    status: 'active',
+    export_history: [],
+  });
+  await storage.createImage({
+    session_id: session.id,
+    filename: 'image.png',
+    original_filename: 'image.png',
+    file_path: path.join(DATA_DIR, 'sessions', session.id, 'images', 'image.png'),
+    file_size: 100,
+    image_dimensions: { width: 1, height: 1 },
+    prompt: 'Breakfast at the CAFÉ ÜBER the river',
+    generator_used: 'other',
+    uploaded_by: userId,
+    tags: ['Ärger'],
+    content_hash: 'a'.repeat(64),
+  });
+  return session;
+}
+
+describe.each([
+  ['json', () => new JsonStorage(path.join(DATA_DIR, 'unicode-json'))],
+  ['sqlite', () => new SqliteStorage(path.join(DATA_DIR, 'unicode.db'), path.join(DATA_DIR, 'unicode-sqlite'))],
+])('%s backend lookups', (_, createStorage) => {
+  it('matches non-ASCII letters regardless of case', async () => {
+    const storage = createStorage();
+    const session = await seed(storage);
+    
+    for (const query of ['café', 'Café', 'über', 'ÜBER']) {
+      expect(await storage.searchImages('u1', query, 10)).toHaveLength(1);
+    }
+    expect(await storage.listImages(session.id, { tag: 'ärger' })).toHaveLength(1);
+    expect(await storage.listImages(session.id, { tag: 'ÄRGER' })).toHaveLength(1);
+  });
+  
+  it('finds images by content hash in the user\'s sessions only', async () => {
+    const storage = createStorage();
+    const session = await seed(storage, 'hash-owner');
+    await seed(storage, 'someone-else');
+    
+    const found = await storage.findImagesByContentHash('hash-owner', 'a'.repeat(64));
+    expect(found.map(image => image.session_id)).toEqual([session.id]);
+    expect(await storage.findImagesByContentHash('hash-owner', 'b'.repeat(64))).toEqual([]);
+  });
+});
@@ -0,0 +1,686 @@
+/**
+ * SQLite storage backed by an embedded database file
+ * Records are kept as JSON documents next to indexed lookup columns
+ * @filepath src/lib/storage/sqlite-storage.ts
+ */
+
+import fs from 'fs/promises';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { nanoid } from 'nanoid';
+import {
+  Session,
+  ImageRecord,
+  ImageFilters,
+  ImageQueryParams,
+  ImageSearchResult,
+  PaginatedResponse,
+} from '@/lib/types';
+import { StorageAdapter } from './base';
+import { toRelativePath, toAbsolutePath } from './paths';
+import { SEARCHABLE_FIELDS, rankImages, tokenizeQuery } from './image-search';
+import {
+  copyImageFiles,
+  relocateImageFiles,
+  removeFiles,
+  removeVersionFiles,
+  undoRelocations,
+} from './image-files';
+import { appendTombstones } from './tombstones';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    created_by TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_sessions_created_by ON sessions (created_by);
+
+  CREATE TABLE IF NOT EXISTS images (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    uploaded_by TEXT NOT NULL,
+    upload_timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_images_session_id ON images (session_id, upload_timestamp);
+  CREATE INDEX IF NOT EXISTS idx_images_uploaded_by ON images (uploaded_by);
+  CREATE INDEX IF NOT EXISTS idx_images_content_hash ON images (json_extract(data, '$.content_hash'));
+`;
+
+interface DocumentRow {
+  data: string;
+}
+
+interface SearchRow extends DocumentRow {
+  session_name: string;
+}
+
+// SQLite's lower() only folds ASCII; this one folds like the JSON backend's toLowerCase()
+const UNICODE_LOWER = 'unicode_lower';
+
+// Lower-cased concatenation of every searchable field, used to pre-filter search candidates
+const SEARCH_TEXT = `${UNICODE_LOWER}(${SEARCHABLE_FIELDS
+  .map(field => `coalesce(json_extract(i.data, '$.${field}'), '')`)
+  .join(" || ' ' || ")})`;
+
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// JSON path for an ai_scores key, quoted so arbitrary field names are safe
+function scorePath(field: string): string {
+  return `$.ai_scores."${field.replace(/"/g, '')}"`;
+}
+
+// Translates image filters into a WHERE clause over the JSON documents
+function buildImageWhere(sessionId: string, filters: ImageFilters = {}) {
+  const clauses = ['session_id = @sessionId'];
+  const params: Record<string, unknown> = { sessionId };
+  
+  if (filters.generator_used) {
+    clauses.push("json_extract(data, '$.generator_used') = @generator");
+    params.generator = filters.generator_used;
+  }
+  if (filters.tag) {
+    clauses.push(`EXISTS (SELECT 1 FROM json_each(data, '$.tags') WHERE ${UNICODE_LOWER}(value) = @tag)`);
+    params.tag = filters.tag.toLowerCase();
+  }
+  if (filters.min_rating !== undefined || filters.max_rating !== undefined) {
+    clauses.push("json_extract(data, '$.quality_rating') IS NOT NULL");
+  }
+  if (filters.min_rating !== undefined) {
+    clauses.push("json_extract(data, '$.quality_rating') >= @minRating");
+    params.minRating = filters.min_rating;
+  }
+  if (filters.max_rating !== undefined) {
+    clauses.push("json_extract(data, '$.quality_rating') <= @maxRating");
+    params.maxRating = filters.max_rating;
+  }
+  if (filters.score_field) {
+    params.scorePath = scorePath(filters.score_field);
+    clauses.push('json_extract(data, @scorePath) IS NOT NULL');
+    if (filters.min_score !== undefined) {
+      clauses.push('json_extract(data, @scorePath) >= @minScore');
+      params.minScore = filters.min_score;
+    }
+    if (filters.max_score !== undefined) {
+      clauses.push('json_extract(data, @scorePath) <= @maxScore');
+      params.maxScore = filters.max_score;
+    }
+  }
+  
+  return { where: clauses.join(' AND '), params };
+}
+
+function buildImageOrder(sortBy: string = 'upload_timestamp', order: 'asc' | 'desc' = 'asc') {
+  const direction = order === 'desc' ? 'DESC' : 'ASC';
+  
+  switch (sortBy) {
+    case 'upload_timestamp':
+      return { orderBy: `upload_timestamp ${direction}, id ASC`, params: {} };
+    case 'quality_rating':
+    case 'file_size': {
+      const expr = `json_extract(data, '$.${sortBy}')`;
+      return { orderBy: `${expr} IS NULL, ${expr} ${direction}, id ASC`, params: {} };
+    }
+    default:
+      // Records without the score sort last, matching the JSON backend
+      return {
+        orderBy: `json_extract(data, @sortPath) IS NULL, json_extract(data, @sortPath) ${direction}, id ASC`,
+        params: { sortPath: scorePath(sortBy) },
+      };
+  }
+}
+
+export class SqliteStorage implements StorageAdapter {
+  private dataDir: string;
+  private dbPath: string;
+  private db: Database.Database | null = null;
+  
+  constructor(dbPath: string = './data/synthcollect.db', dataDir: string = './data') {
+    this.dbPath = dbPath;
+    this.dataDir = dataDir;
+  }
+  
+  // Open lazily so importing the module never touches the disk
+  private getDb(): Database.Database {
+    if (!this.db) {
+      mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      this.db = new Database(this.dbPath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('busy_timeout = 5000');
+      this.db.function(UNICODE_LOWER, { deterministic: true }, (value: unknown) =>
+        typeof value === 'string' ? value.toLowerCase() : value
+      );
+      this.db.exec(SCHEMA);
+    }
+    return this.db;
+  }
+  
+  private getSessionPath(sessionId: string) {
+    return path.join(this.dataDir, 'sessions', sessionId);
+  }
+  
+  private toImage(row: DocumentRow): ImageRecord {
+    const image = JSON.parse(row.data) as ImageRecord;
+    // Return with absolute path for file operations
+    return {
+      ...image,
+      file_path: toAbsolutePath(image.file_path),
+    };
+  }
+  
+  private writeSession(session: Session) {
+    this.getDb()
+      .prepare(`
+        INSERT INTO sessions (id, created_by, updated_at, data)
+        VALUES (@id, @created_by, @updated_at, @data)
+        ON CONFLICT (id) DO UPDATE SET
+          created_by = excluded.created_by,
+          updated_at = excluded.updated_at,
+          data = excluded.data
+      `)
+      .run({
+        id: session.id,
+        created_by: session.created_by,
+        updated_at: session.updated_at,
+        data: JSON.stringify(session),
+      });
+  }
+  
+  private writeImage(image: ImageRecord) {
+    this.getDb()
+      .prepare(`
+        INSERT INTO images (id, session_id, uploaded_by, upload_timestamp, data)
+        VALUES (@id, @session_id, @uploaded_by, @upload_timestamp, @data)
+        ON CONFLICT (id) DO UPDATE SET
+          session_id = excluded.session_id,
+          uploaded_by = excluded.uploaded_by,
+          upload_timestamp = excluded.upload_timestamp,
+          data = excluded.data
+      `)
+      .run({
+        id: image.id,
+        session_id: image.session_id,
+        uploaded_by: image.uploaded_by,
+        upload_timestamp: image.upload_timestamp,
+        data: JSON.stringify(image),
+      });
+  }
+  
+  // Tombstones for images that left the session; call inside the transaction that removes them
+  private addTombstones(sessionId: string, imageIds: string[]) {
+    const row = this.getDb()
+      .prepare('SELECT data FROM sessions WHERE id = ?')
+      .get(sessionId) as DocumentRow | undefined;
+    if (!row) return;
+    
+    const session = JSON.parse(row.data) as Session;
+    this.writeSession({ ...session, deleted_images: appendTombstones(session.deleted_images, imageIds) });
+  }
+  
+  // Keep the denormalized image_count in step with the images table
+  private refreshImageCount(sessionId: string) {
+    const now = new Date().toISOString();
+    this.getDb()
+      .prepare(`
+        UPDATE sessions SET
+          updated_at = @now,
+          data = json_set(
+            data,
+            '$.image_count', (SELECT COUNT(*) FROM images WHERE session_id = @sessionId),
+            '$.updated_at', @now
+          )
+        WHERE id = @sessionId
+      `)
+      .run({ sessionId, now });
+  }
+  
+  async createSession(data: Omit<Session, 'id' | 'created_at' | 'updated_at'>): Promise<Session> {
+    const session: Session = {
+      ...data,
+      id: nanoid(),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      image_count: 0,
+      export_history: [],
+    };
+    
+    return this.restoreSession(session);
+  }
+  
+  // Write a complete session record as-is (IDs and timestamps preserved)
+  async restoreSession(session: Session): Promise<Session> {
+    // Image files still live on disk next to the other backends
+    await fs.mkdir(path.join(this.getSessionPath(session.id), 'images'), { recursive: true });
+    this.writeSession(session);
+    
+    return session;
+  }
+  
+  async getSession(id: string): Promise<Session | null> {
+    const row = this.getDb()
+      .prepare('SELECT data FROM sessions WHERE id = ?')
+      .get(id) as DocumentRow | undefined;
+    
+    return row ? JSON.parse(row.data) : null;
+  }
+  
+  async listSessions(userId?: string): Promise<Session[]> {
+    const rows = (userId
+      ? this.getDb()
+          .prepare('SELECT data FROM sessions WHERE created_by = ? ORDER BY updated_at DESC')
+          .all(userId)
+      : this.getDb()
+          .prepare('SELECT data FROM sessions ORDER BY updated_at DESC')
+          .all()) as DocumentRow[];
+    
+    return rows.map(row => JSON.parse(row.data));
+  }
+  
+  async updateSession(id: string, updates: Partial<Session>): Promise<Session> {
+    return this.mutateSession(id, () => updates);
+  }
+  
+  // IMMEDIATE takes the write lock before the read, so another process can't write in between
+  async mutateSession(id: string, mutate: (session: Session) => Partial<Session>): Promise<Session> {
+    const db = this.getDb();
+    return db.transaction(() => {
+      const row = db.prepare('SELECT data FROM sessions WHERE id = ?').get(id) as DocumentRow | undefined;
+      if (!row) throw new Error('Session not found');
+      
+      const session: Session = JSON.parse(row.data);
+      const updated = {
+        ...session,
+        ...mutate(session),
+        updated_at: new Date().toISOString(),
+      };
+      
+      this.writeSession(updated);
+      return updated;
+    }).immediate();
+  }
+  
+  async deleteSession(id: string): Promise<void> {
+    await removeVersionFiles(await this.listImages(id));
+    
+    const db = this.getDb();
+    db.transaction(() => {
+      db.prepare('DELETE FROM images WHERE session_id = ?').run(id);
+      db.prepare('DELETE FROM sessions WHERE id = ?').run(id);
+    })();
+    
+    await fs.rm(this.getSessionPath(id), { recursive: true, force: true });
+  }
+  
+  async createImage(data: Omit<ImageRecord, 'id' | 'upload_timestamp'>): Promise<ImageRecord> {
+    const now = new Date().toISOString();
+    const image: ImageRecord = {
+      ...data,
+      // Store relative path
+      file_path: toRelativePath(data.file_path),
+      id: nanoid(),
+      upload_timestamp: now,
+      updated_at: now,
+    };
+    
+    const db = this.getDb();
+    db.transaction(() => {
+      this.writeImage(image);
+      this.refreshImageCount(image.session_id);
+    })();
+    
+    return {
+      ...image,
+      file_path: toAbsolutePath(image.file_path),
+    };
+  }
+  
+  // Write a complete image record as-is; session image_count is left to the caller
+  async restoreImage(image: ImageRecord): Promise<ImageRecord> {
+    const stored = { ...image, file_path: toRelativePath(image.file_path) };
+    this.writeImage(stored);
+    
+    return { ...stored, file_path: toAbsolutePath(stored.file_path) };
+  }
+  
+  async getImage(id: string): Promise<ImageRecord | null> {
+    const row = this.getDb()
+      .prepare('SELECT data FROM images WHERE id = ?')
+      .get(id) as DocumentRow | undefined;
+    
+    return row ? this.toImage(row) : null;
+  }
+  
+  async listImages(sessionId: string, filters?: ImageFilters): Promise<ImageRecord[]> {
+    const { where, params } = buildImageWhere(sessionId, filters);
+    const rows = this.getDb()
+      .prepare(`SELECT data FROM images WHERE ${where} ORDER BY upload_timestamp, id`)
+      .all(params) as DocumentRow[];
+    
+    return rows.map(row => this.toImage(row));
+  }
+  
+  async queryImages(sessionId: string, query: ImageQueryParams): Promise<PaginatedResponse<ImageRecord>> {
+    const db = this.getDb();
+    const { where, params } = buildImageWhere(sessionId, query);
+    const { orderBy, params: orderParams } = buildImageOrder(query.sort_by, query.order);
+    
+    const { total } = db
+      .prepare(`SELECT COUNT(*) AS total FROM images WHERE ${where}`)
+      .get(params) as { total: number };
+    
+    const rows = db
+      .prepare(`SELECT data FROM images WHERE ${where} ORDER BY ${orderBy} LIMIT @limit OFFSET @offset`)
+      .all({
+        ...params,
+        ...orderParams,
+        limit: query.limit,
+        offset: (query.page - 1) * query.limit,
+      }) as DocumentRow[];
+    
+    return {
+      items: rows.map(row => this.toImage(row)),
+      total,
+      page: query.page,
+      pages: Math.ceil(total / query.limit),
+      limit: query.limit,
+    };
+  }
+  
+  async updateImage(id: string, updates: Partial<ImageRecord>): Promise<ImageRecord> {
+    const db = this.getDb();
+    
+    const updated = db.transaction(() => {
+      const row = db
+        .prepare('SELECT data FROM images WHERE id = ?')
+        .get(id) as DocumentRow | undefined;
+      if (!row) throw new Error('Image not found');
+      
+      const image: ImageRecord = {
+        ...JSON.parse(row.data),
+        ...updates,
+        id,
+        updated_at: new Date().toISOString(),
+      };
+      
+      // If updating file_path, convert to relative
+      if (updates.file_path) {
+        image.file_path = toRelativePath(updates.file_path);
+      }
+      
+      this.writeImage(image);
+      return image;
+    })();
+    
+    // Return with absolute path
+    return {
+      ...updated,
+      file_path: toAbsolutePath(updated.file_path),
+    };
+  }
+  
+  async deleteImage(id: string): Promise<void> {
+    const image = await this.getImage(id);
+    if (!image) throw new Error('Image not found');
+    
+    // Delete file (might already be gone)
+    try {
+      await fs.unlink(image.file_path);
+    } catch {
+      // File might not exist
+    }
+    await removeVersionFiles([image]);
+    
+    const db = this.getDb();
+    db.transaction(() => {
+      db.prepare('DELETE FROM images WHERE id = ?').run(id);
+      this.addTombstones(image.session_id, [id]);
+      this.refreshImageCount(image.session_id);
+    })();
+  }
+  
+  // Rows for the given IDs, throwing unless every one belongs to the session
+  private selectSessionImages(sessionId: string, imageIds: string[]): ImageRecord[] {
+    const rows = this.getDb()
+      .prepare(`
+        SELECT data FROM images
+        WHERE session_id = @sessionId AND id IN (SELECT value FROM json_each(@ids))
+      `)
+      .all({ sessionId, ids: JSON.stringify(imageIds) }) as DocumentRow[];
+    
+    const found = new Map(rows.map(row => {
+      const image = JSON.parse(row.data) as ImageRecord;
+      return [image.id, image];
+    }));
+    
+    const missing = imageIds.filter(id => !found.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Images not found in session: ${missing.join(', ')}`);
+    }
+    
+    return imageIds.map(id => found.get(id)!);
+  }
+  
+  async updateImages(
+    sessionId: string,
+    imageIds: string[],
+    update: (image: ImageRecord) => Partial<ImageRecord>
+  ): Promise<ImageRecord[]> {
+    const db = this.getDb();
+    const now = new Date().toISOString();
+    
+    const updated = db.transaction(() => {
+      return this.selectSessionImages(sessionId, imageIds).map(image => {
+        const updates = update({ ...image, file_path: toAbsolutePath(image.file_path) });
+        const next: ImageRecord = { ...image, ...updates, id: image.id, session_id: sessionId, updated_at: now };
+        
+        if (updates.file_path) {
+          next.file_path = toRelativePath(updates.file_path);
+        }
+        
+        this.writeImage(next);
+        return next;
+      });
+    })();
+    
+    return updated.map(img => ({
+      ...img,
+      file_path: toAbsolutePath(img.file_path),
+    }));
+  }
+  
+  async deleteImages(sessionId: string, imageIds: string[]): Promise<void> {
+    const db = this.getDb();
+    
+    const removed = db.transaction(() => {
+      const images = this.selectSessionImages(sessionId, imageIds);
+      db.prepare('DELETE FROM images WHERE id IN (SELECT value FROM json_each(?))')
+        .run(JSON.stringify(imageIds));
+      this.addTombstones(sessionId, imageIds);
+      this.refreshImageCount(sessionId);
+      return images;
+    })();
+    
+    for (const image of removed) {
+      try {
+        await fs.unlink(toAbsolutePath(image.file_path));
+      } catch {
+        // File might not exist
+      }
+    }
+    await removeVersionFiles(removed);
+  }
+  
+  // Files move first; if the row update fails they are moved back
+  async moveImages(sessionId: string, imageIds: string[], targetSessionId: string): Promise<ImageRecord[]> {
+    if (sessionId === targetSessionId) throw new Error('Images are already in this session');
+    if (!(await this.getSession(targetSessionId))) throw new Error('Target session not found');
+    
+    const db = this.getDb();
+    const images = this.selectSessionImages(sessionId, imageIds);
+    const targetDir = path.join(this.getSessionPath(targetSessionId), 'images');
+    const { placed, relocations } = await relocateImageFiles(
+      images.map(img => ({ ...img, file_path: toAbsolutePath(img.file_path) })),
+      targetDir
+    );
+    
+    try {
+      const moved = db.transaction(() => {
+        // Re-check inside the transaction in case an image was deleted meanwhile
+        const current = this.selectSessionImages(sessionId, imageIds);
+        const now = new Date().toISOString();
+        const records = current.map(img => ({
+          ...img,
+          session_id: targetSessionId,
+          filename: placed.get(img.id)!.filename,
+          file_path: toRelativePath(placed.get(img.id)!.filePath),
+          updated_at: now,
+        }));
+        
+        records.forEach(record => this.writeImage(record));
+        this.addTombstones(sessionId, imageIds);
+        this.refreshImageCount(sessionId);
+        this.refreshImageCount(targetSessionId);
+        return records;
+      })();
+      
+      return moved.map(img => ({
+        ...img,
+        file_path: toAbsolutePath(img.file_path),
+      }));
+    } catch (error) {
+      await undoRelocations(relocations);
+      throw error;
+    }
+  }
+  
+  async copyImages(sessionId: string, imageIds: string[], targetSessionId: string): Promise<ImageRecord[]> {
+    if (!(await this.getSession(targetSessionId))) throw new Error('Target session not found');
+    
+    const db = this.getDb();
+    const sources = this.selectSessionImages(sessionId, imageIds).map(image => ({
+      newId: nanoid(),
+      image: { ...image, file_path: toAbsolutePath(image.file_path) },
+    }));
+    
+    const targetDir = path.join(this.getSessionPath(targetSessionId), 'images');
+    const { placed, created } = await copyImageFiles(sources, targetDir);
+    const now = new Date().toISOString();
+    
+    const copies: ImageRecord[] = sources.map(({ newId, image }) => ({
+      ...image,
+      id: newId,
+      session_id: targetSessionId,
+      filename: placed.get(newId)!.filename,
+      file_path: toRelativePath(placed.get(newId)!.filePath),
+      thumbnail_path: undefined,
+      versions: undefined,
+      upload_timestamp: now,
+      updated_at: now,
+    }));
+    
+    try {
+      db.transaction(() => {
+        copies.forEach(copy => this.writeImage(copy));
+        this.refreshImageCount(targetSessionId);
+      })();
+    } catch (error) {
+      await removeFiles(created);
+      throw error;
+    }
+    
+    return copies.map(img => ({
+      ...img,
+      file_path: toAbsolutePath(img.file_path),
+    }));
+  }
+  
+  async searchImages(userId: string, query: string, limit: number): Promise<ImageSearchResult[]> {
+    const terms = tokenizeQuery(query);
+    if (terms.length === 0) return [];
+    
+    // Every term has to appear somewhere; ranking happens in image-search
+    const params: Record<string, unknown> = { userId };
+    const clauses = terms.map((term, i) => {
+      params[`term${i}`] = `%${escapeLike(term)}%`;
+      return `${SEARCH_TEXT} LIKE @term${i} ESCAPE '\\'`;
+    });
+    
+    const rows = this.getDb()
+      .prepare(`
+        SELECT i.data, json_extract(s.data, '$.name') AS session_name
+        FROM images i JOIN sessions s ON s.id = i.session_id
+        WHERE s.created_by = @userId AND ${clauses.join(' AND ')}
+      `)
+      .all(params) as SearchRow[];
+    
+    return rankImages(
+      rows.map(row => ({ image: this.toImage(row), sessionName: row.session_name })),
+      query,
+      limit
+    );
+  }
+  
+  async findImagesByContentHash(userId: string, contentHash: string): Promise<ImageRecord[]> {
+    const rows = this.getDb()
+      .prepare(`
+        SELECT i.data FROM images i JOIN sessions s ON s.id = i.session_id
+        WHERE json_extract(i.data, '$.content_hash') = ? AND s.created_by = ?
+      `)
+      .all(contentHash, userId) as DocumentRow[];
+    
+    return rows.map(row => this.toImage(row));
+  }
+  
+  // Delete all images in a session
+  async deleteAllSessionImages(sessionId: string): Promise<void> {
+    const images = await this.listImages(sessionId);
+    
+    for (const image of images) {
+      try {
+        await this.deleteImage(image.id);
+      } catch (error) {
+        console.error(`Failed to delete image ${image.id}:`, error);
+      }
+    }
+  }
+  
+  async getSessionStats(sessionId: string): Promise<any> {
+    const images = await this.listImages(sessionId);
+    const generators = images.reduce((acc, img) => {
+      acc[img.generator_used] = (acc[img.generator_used] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    
+    return {
+      total_images: images.length,
+      generators,
+      average_quality: images.reduce((sum, img) => sum + (img.quality_rating || 0), 0) / images.length || 0,
+    };
+  }
+  
+  async exportSession(sessionId: string, format: 'json' | 'csv' | 'zip'): Promise<string> {
+    const session = await this.getSession(sessionId);
+    const images = await this.listImages(sessionId);
+    
+    // Convert back to relative paths for export
+    const exportData = {
+      session,
+      images: images.map(img => ({
+        ...img,
+        file_path: toRelativePath(img.file_path),
+      })),
+      exported_at: new Date().toISOString(),
+    };
+    
+    const exportPath = path.join(this.dataDir, 'exports', `${sessionId}_${Date.now()}.json`);
+    await fs.mkdir(path.join(this.dataDir, 'exports'), { recursive: true });
+    await fs.writeFile(exportPath, JSON.stringify(exportData, null, 2));
+    
+    return exportPath;
+  }
+}
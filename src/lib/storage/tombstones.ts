@@ -0,0 +1,20 @@
+/**
+ * Tombstones for images that left a session, shared by storage adapters
+ * Delta exports list them so downstream copies can drop the images too
+ * @filepath src/lib/storage/tombstones.ts
+ */
+
+import { ImageTombstone } from '@/lib/types';
+
+// An image deleted twice (e.g. moved back in, then deleted again) keeps only its latest tombstone
+export function appendTombstones(
+  existing: ImageTombstone[] | undefined,
+  imageIds: string[],
+  deletedAt: string = new Date().toISOString()
+): ImageTombstone[] {
+  const ids = new Set(imageIds);
+  return [
+    ...(existing || []).filter(tombstone => !ids.has(tombstone.id)),
+    ...imageIds.map(id => ({ id, deleted_at: deletedAt })),
+  ];
+}
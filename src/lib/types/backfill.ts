@@ -0,0 +1,27 @@
+/**
+ * Image info backfill types
+ * @filepath src/lib/types/backfill.ts
+ */
+
+export interface BackfillOptions {
+  dryRun: boolean;
+  // Re-read every image, not only ones missing dimensions, MIME type or hashes
+  force: boolean;
+  sessionId?: string;
+}
+
+export interface BackfillIssue {
+  sessionId: string;
+  imageId: string;
+  message: string;
+}
+
+export interface BackfillReport {
+  dryRun: boolean;
+  sessions: number;
+  scanned: number;
+  updated: number;
+  upToDate: number;
+  missingFiles: number;
+  issues: BackfillIssue[];
+}
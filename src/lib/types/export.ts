@@ -0,0 +1,251 @@
+/**
+ * Background export job types
+ * @filepath src/lib/types/export.ts
+ */
+
+import type { ImageRecord, ImageTombstone } from './index';
+
+// full: ZIP with images + metadata.json; full_csv additionally carries metadata.csv;
+// hf_imagefolder and coco are ZIPs laid out for training tools (see dataset-formats.ts);
+// webdataset writes .tar shards for sessions too large for one archive
+export type ExportMode = 'json' | 'csv' | 'full' | 'full_csv' | 'hf_imagefolder' | 'coco' | 'webdataset';
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export interface CsvExportOptions {
+  // Column keys in output order, see CSV_COLUMNS
+  columns: string[];
+  delimiter: CsvDelimiter;
+}
+
+export interface WebDatasetOptions {
+  // Samples per .tar shard
+  shard_size: number;
+}
+
+// original keeps each image's own format
+export type TransformFormat = 'original' | 'jpeg' | 'png' | 'webp';
+
+// Applied to the images of ZIP exports; the files on the server are left alone
+export interface ImageTransformOptions {
+  // Longest side in pixels; smaller images are not enlarged
+  max_edge?: number;
+  // Square crop: center keeps the middle, attention the most salient region (skin tones, detail, saturation)
+  crop: 'none' | 'center' | 'attention';
+  format: TransformFormat;
+  // 1-100, for JPEG and WebP output
+  quality: number;
+  // Drop EXIF, XMP and IPTC; the EXIF orientation is applied to the pixels first
+  strip_metadata: boolean;
+}
+
+export type SplitName = 'train' | 'val' | 'test';
+
+export interface SplitConfig {
+  // Fractions of each split, summing to 1
+  ratios: Record<SplitName, number>;
+  seed: string;
+  // 'generator_used', 'quality_rating' or 'ai_scores.<field>'; see STRATIFY_KEYS
+  stratify_by: string[];
+  // Number of equal-width buckets AI scores are binned into for stratification
+  score_buckets: number;
+}
+
+// Kept on the session so later exports put every image in the same split
+export interface SessionSplits {
+  config: SplitConfig;
+  assignments: Record<string, SplitName>;
+  updated_at: string;
+}
+
+export interface SplitOptions extends SplitConfig {
+  // directories: <split>/ folders inside archives; column: a split field in the metadata
+  output: 'directories' | 'column';
+  // Discard stored assignments and split all images again with this config
+  reshuffle?: boolean;
+}
+
+// Written into export metadata so a split can be reproduced
+export interface SplitSummary extends SplitConfig {
+  output: SplitOptions['output'];
+  counts: Record<SplitName, number>;
+}
+
+// Subset of a session's images to export; every set condition must hold
+export interface ExportFilter {
+  min_rating?: number;
+  max_rating?: number;
+  tags?: string[];
+  // any: at least one of the tags (default); all: every tag
+  tag_match?: 'any' | 'all';
+  generators?: ImageRecord['generator_used'][];
+  // ISO timestamps, inclusive
+  uploaded_from?: string;
+  uploaded_to?: string;
+  // Images without a score for a listed field are left out
+  scores?: Record<string, { min?: number; max?: number }>;
+  // An explicit selection, e.g. from the image grid
+  image_ids?: string[];
+  exclude_ids?: string[];
+}
+
+export interface DeltaOptions {
+  // Export to compare against; the session's latest export when omitted
+  baseline_export_id?: string;
+}
+
+export interface ExportDeltaBase {
+  baseline_export_id: string;
+  // Images added or changed after this moment are exported
+  since: string;
+}
+
+// Written into the metadata of delta exports
+export interface ExportDelta extends ExportDeltaBase {
+  // Images deleted or moved out of the session since the baseline
+  deleted: ImageTombstone[];
+}
+
+// Mode-specific options of an export job
+export interface ExportOptions {
+  csv?: CsvExportOptions;
+  webdataset?: WebDatasetOptions;
+  split?: SplitOptions;
+  filter?: ExportFilter;
+  delta?: DeltaOptions;
+  transform?: ImageTransformOptions;
+}
+
+// An image as written by an export, with its split and path inside the archive when splits are used
+export interface ExportImage extends ImageRecord {
+  split?: SplitName;
+  archive_path?: string;
+}
+
+export type ExportJobStatus = 'queued' | 'validating' | 'processing' | 'complete' | 'error';
+
+export interface ExportJobProgress {
+  total: number;
+  processed: number;
+  failed: number;
+  percentage: number;
+  message: string;
+  current_image?: string;
+}
+
+// Persisted under data/exports/jobs/<id>.json so jobs can be polled after a reload
+export interface ExportJob {
+  id: string;
+  session_id: string;
+  user_id: string;
+  mode: ExportMode;
+  // Only for csv and full_csv
+  csv?: CsvExportOptions;
+  // Only for webdataset
+  webdataset?: WebDatasetOptions;
+  split?: SplitOptions;
+  filter?: ExportFilter;
+  // Resolved from the baseline export when the job is created
+  delta?: ExportDeltaBase;
+  // Only for ZIP modes
+  transform?: ImageTransformOptions;
+  status: ExportJobStatus;
+  progress: ExportJobProgress;
+  created_at: string;
+  // Bumped on every save; unfinished jobs that stop saving were interrupted
+  updated_at: string;
+  started_at?: string;
+  completed_at?: string;
+  // Set once the artifact is written and recorded in the session's export_history
+  record_id?: string;
+  file_size?: number;
+  error?: string;
+}
+
+// Checksums of every other file in a ZIP export, verified on import
+export interface ManifestEntry {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface ExportManifest {
+  algorithm: 'sha256';
+  files: ManifestEntry[];
+  // Digest of the whole archive: SHA-256 over the files' "<sha256>  <path>" lines in path order
+  digest: string;
+}
+
+// manifest.json next to the shards of a WebDataset export
+export interface WebDatasetShard {
+  name: string;
+  split?: SplitName;
+  samples: number;
+  size: number;
+  // Sample keys in shard order; each sample is <key>.jpg + <key>.json
+  keys: string[];
+}
+
+export interface WebDatasetManifest {
+  format: 'webdataset';
+  session: { id: string; name: string };
+  export_timestamp: string;
+  export_version: string;
+  shard_size: number;
+  total_samples: number;
+  // Brace pattern for webdataset.WebDataset(), e.g. shard-{000000..000003}.tar;
+  // when shards are written per split there is one pattern per split instead
+  shard_pattern?: string;
+  split_patterns?: Partial<Record<SplitName, string>>;
+  split?: SplitSummary;
+  filter?: ExportFilter;
+  delta?: ExportDelta;
+  shards: WebDatasetShard[];
+}
+
+// COCO-style dataset (https://cocodataset.org/#format-data) with image-level labels:
+// every tag is a category and every tag of an image an annotation without geometry
+export interface CocoImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+  date_captured: string;
+  // SynthCollect fields that COCO has no place for
+  attributes: {
+    synthcollect_id: string;
+    original_filename: string;
+    prompt: string;
+    generator_used: string;
+    user_description?: string;
+    quality_rating?: number;
+    notes?: string;
+    ai_scores: Record<string, number>;
+    split?: SplitName;
+  };
+}
+
+export interface CocoCategory {
+  id: number;
+  name: string;
+  supercategory: string;
+}
+
+export interface CocoAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+}
+
+export interface CocoDataset {
+  info: {
+    description: string;
+    version: string;
+    date_created: string;
+    contributor: string;
+  };
+  licenses: unknown[];
+  images: CocoImage[];
+  categories: CocoCategory[];
+  annotations: CocoAnnotation[];
+}
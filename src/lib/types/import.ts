@@ -4,23 +4,36 @@
  */
 
 import { Session, ImageRecord } from './index';
+import { ExportManifest } from './export';
 
 export interface ImportMetadata {
   session: Partial<Session>;
   images: Partial<ImageRecord>[];
   export_timestamp: string;
   export_version: string;
+  // From metadata.json, or checksums.json in dataset layouts; absent in older exports
+  manifest?: ExportManifest;
 }
 
+// The uploaded file; a File works, as does a request body streamed straight from the client
+export interface ImportUpload {
+  name: string;
+  stream(): ReadableStream<Uint8Array>;
+}
+
+export type DuplicateStrategy = 'skip' | 'replace' | 'rename';
+
 export interface ImportOptions {
   mode: 'new' | 'merge';
   targetSessionId?: string;
-  duplicateStrategy: 'skip' | 'replace' | 'rename';
+  duplicateStrategy: DuplicateStrategy;
+  // Per-image choices from the preview, keyed by index in the export's image list
+  strategyOverrides?: Record<string, DuplicateStrategy>;
   preserveIds: boolean;
 }
 
 export interface ImportProgress {
-  status: 'validating' | 'importing' | 'processing' | 'complete' | 'error';
+  status: 'validating' | 'importing' | 'processing' | 'complete' | 'error' | 'cancelled';
   total: number;
   processed: number;
   skipped: number;
@@ -28,16 +41,77 @@ export interface ImportProgress {
   currentFile?: string;
 }
 
+// A file whose contents don't match the export manifest
+export interface IntegrityIssue {
+  path: string;
+  problem: 'missing' | 'size_mismatch' | 'checksum_mismatch';
+}
+
+export interface IntegrityReport {
+  // Files listed in the manifest
+  checked: number;
+  // Whether the manifest's entries add up to its archive digest
+  digest_valid: boolean;
+  issues: IntegrityIssue[];
+}
+
+// An exported ID that was already taken, so the record was imported under a new one
+export interface IdConflict {
+  kind: 'session' | 'image';
+  id: string;
+  assigned_id: string;
+  // taken: already used on this instance; invalid: not an ID the app could have generated
+  reason: 'taken' | 'invalid';
+}
+
 export interface ImportResult {
   success: boolean;
   sessionId: string;
   imported: number;
   skipped: number;
   errors: string[];
+  // Only for ZIPs that carry a manifest
+  integrity?: IntegrityReport;
+  // Only with preserveIds
+  id_conflicts?: IdConflict[];
+}
+
+// An import running in the background; the upload is already on disk when the job starts
+export interface ImportJob {
+  id: string;
+  user_id: string;
+  filename: string;
+  progress: ImportProgress;
+  // Set once the import has finished, failed or been cancelled
+  result?: ImportResult;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface DuplicateImage {
   existing: ImageRecord;
   importing: Partial<ImageRecord>;
-  reason: 'same_hash' | 'same_name' | 'same_prompt';
+  reason: 'same_hash' | 'similar_hash' | 'same_name' | 'same_prompt';
+  distance?: number; // perceptual hash distance for similar_hash
+}
+
+// One image of a dry run, by its index in the export's image list
+export interface ImportPreviewImage {
+  index: number;
+  filename: string;
+  original_filename: string;
+  status: 'new' | 'duplicate' | 'invalid';
+  duplicate?: DuplicateImage;
+  // Why an invalid image can't be imported
+  problem?: string;
+  // With preserveIds: the exported ID is taken, so the image would get a new one
+  id_conflict?: boolean;
+}
+
+export interface ImportPreview {
+  session_name: string;
+  total: number;
+  counts: Record<ImportPreviewImage['status'], number>;
+  images: ImportPreviewImage[];
+  integrity?: IntegrityReport;
 }
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import type { ExportDeltaBase, ExportFilter, SessionSplits } from './export';
 
 // Session types
 export interface Session {
@@ -16,15 +17,27 @@ export interface Session {
   image_count: number;
   status: 'active' | 'archived' | 'exported';
   export_history: ExportRecord[];
+  splits?: SessionSplits;
+  // Images deleted from or moved out of the session, for delta exports
+  deleted_images?: ImageTombstone[];
 }
 
 export interface ExportRecord {
   id: string;
   exported_at: string;
   exported_by: string;
-  format: 'json' | 'csv' | 'zip';
+  // webdataset exports are a directory of .tar shards plus manifest.json
+  format: 'json' | 'csv' | 'zip' | 'webdataset';
   file_path: string;
   image_count: number;
+  file_size?: number;
+  job_id?: string;
+  shard_count?: number;
+  // Which images went into the export; absent for whole-session exports
+  filter?: ExportFilter;
+  // When the image list was read; delta exports based on this one start here
+  snapshot_at?: string;
+  delta?: ExportDeltaBase & { deleted_count: number };
 }
 
 // Image types
@@ -37,6 +50,10 @@ export interface ImageRecord {
   thumbnail_path?: string;
   file_size: number;
   image_dimensions: { width: number; height: number };
+  mime_type?: string; // detected from file contents
+  color_space?: string; // e.g. srgb, cmyk, b-w
+  content_hash?: string; // SHA-256 of the file
+  perceptual_hash?: string; // dHash, for near-duplicate detection
   
   // Generation metadata
   prompt: string;
@@ -49,10 +66,32 @@ export interface ImageRecord {
   
   // Metadata
   upload_timestamp: string;
+  updated_at?: string; // last change to the record; absent on images stored before it was tracked
   uploaded_by: string;
   tags: string[];
   quality_rating?: number; // 1-5
   notes?: string;
+  
+  // Earlier files of this image, newest last (see ImageVersionService)
+  versions?: ImageVersion[];
+}
+
+export interface ImageTombstone {
+  id: string;
+  deleted_at: string;
+}
+
+// A replaced file kept on disk so it can be restored
+export interface ImageVersion {
+  id: string;
+  filename: string;
+  file_path: string; // relative to the project root
+  file_size: number;
+  image_dimensions: { width: number; height: number };
+  mime_type?: string;
+  color_space?: string;
+  replaced_at: string;
+  replaced_by: string;
 }
 
 // User types
@@ -79,6 +118,98 @@ export interface PaginationParams {
   order?: 'asc' | 'desc';
 }
 
+// Image listing filters (shared by listImages and queryImages)
+export interface ImageFilters {
+  generator_used?: ImageRecord['generator_used'];
+  tag?: string;
+  min_rating?: number;
+  max_rating?: number;
+  score_field?: string;
+  min_score?: number;
+  max_score?: number;
+}
+
+// sort_by accepts upload_timestamp, quality_rating, file_size or any ai_scores key
+export type ImageQueryParams = PaginationParams & ImageFilters;
+
+// Bulk image actions
+export type BulkImageStatus = 'updated' | 'deleted' | 'moved' | 'copied' | 'failed' | 'skipped';
+
+export interface BulkImageItemResult {
+  id: string;
+  status: BulkImageStatus;
+  error?: string;
+}
+
+// applied is false when nothing was changed (results explain why per image)
+export interface BulkImageResult {
+  applied: boolean;
+  action: string;
+  results: BulkImageItemResult[];
+}
+
+// Full-text search
+export type SearchableField = 'prompt' | 'user_description' | 'notes' | 'tags' | 'original_filename';
+
+export interface SearchSnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface ImageSearchResult {
+  image: ImageRecord;
+  session_name: string;
+  score: number;
+  matched_fields: SearchableField[];
+  snippet_field: SearchableField;
+  snippet: SearchSnippetPart[];
+}
+
+// Duplicate detection
+export type DuplicateKind = 'exact' | 'near';
+
+// A stored image that matches a newly uploaded one
+export interface DuplicateMatch {
+  image_id: string;
+  session_id: string;
+  session_name: string;
+  original_filename: string;
+  kind: DuplicateKind;
+  distance: number; // perceptual hash bits that differ (0 for exact)
+}
+
+export interface ImageUploadResponse extends ApiResponse<ImageRecord> {
+  duplicates?: DuplicateMatch[];
+}
+
+export interface DuplicateGroupImage {
+  image: ImageRecord;
+  session_name: string;
+}
+
+// exact: every image has the same content hash; near: perceptual hashes within the threshold
+export interface DuplicateGroup {
+  id: string;
+  kind: DuplicateKind;
+  max_distance: number;
+  images: DuplicateGroupImage[];
+}
+
+export interface DuplicateReport {
+  session_id?: string; // absent when all of the user's sessions were scanned
+  threshold: number;
+  scanned: number;
+  hashed: number; // images without stored hashes, hashed while building the report
+  unreadable: number;
+  groups: DuplicateGroup[];
+}
+
+export interface DuplicateResolution {
+  action: 'merge' | 'delete';
+  kept: ImageRecord;
+  deleted: string[];
+}
+
 export interface PaginatedResponse<T> {
   items: T[];
   total: number;
@@ -0,0 +1,39 @@
+/**
+ * Storage migration types
+ * @filepath src/lib/types/migration.ts
+ */
+
+export interface MigrationOptions {
+  dryRun: boolean;
+}
+
+export interface MigrationIssue {
+  sessionId: string;
+  imageId?: string;
+  message: string;
+}
+
+export interface SessionMigrationReport {
+  sessionId: string;
+  name: string;
+  images: number;
+  exportHistory: number;
+  repairedPaths: number;
+  missingFiles: number;
+  existsInTarget: boolean;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  sessions: SessionMigrationReport[];
+  totals: {
+    sessions: number;
+    images: number;
+    repairedPaths: number;
+    missingFiles: number;
+  };
+  issues: MigrationIssue[];
+  // Post-migration checks (always empty on dry runs)
+  verificationErrors: MigrationIssue[];
+  verified: boolean;
+}
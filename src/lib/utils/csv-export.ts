@@ -0,0 +1,97 @@
+/**
+ * Flattens image records into CSV rows for export
+ * Every scoring field from scoring-fields.json becomes its own column
+ * @filepath src/lib/utils/csv-export.ts
+ */
+
+import scoringFieldsConfig from '@/lib/config/scoring-fields.json';
+import { CsvDelimiter, CsvExportOptions, ExportImage } from '@/lib/types/export';
+import { archiveImagePath } from './dataset-formats';
+
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+// Tags share one cell; pipelines split them with e.g. df.tags.str.split('|')
+export const CSV_TAG_SEPARATOR = '|';
+
+export interface CsvColumn {
+  key: string;
+  label: string;
+  value: (image: ExportImage) => string | number | undefined;
+}
+
+const BASE_COLUMNS: CsvColumn[] = [
+  { key: 'id', label: 'ID', value: image => image.id },
+  // Same relative path the image has inside ZIP exports
+  { key: 'file_path', label: 'File path', value: image => archiveImagePath(image) },
+  { key: 'filename', label: 'Filename', value: image => image.filename },
+  { key: 'original_filename', label: 'Original filename', value: image => image.original_filename },
+  { key: 'prompt', label: 'Prompt', value: image => image.prompt },
+  { key: 'generator_used', label: 'Generator', value: image => image.generator_used },
+  { key: 'user_description', label: 'Description', value: image => image.user_description },
+  { key: 'tags', label: 'Tags', value: image => image.tags.join(CSV_TAG_SEPARATOR) },
+  { key: 'quality_rating', label: 'Rating', value: image => image.quality_rating },
+  { key: 'notes', label: 'Notes', value: image => image.notes },
+  { key: 'width', label: 'Width', value: image => image.image_dimensions.width },
+  { key: 'height', label: 'Height', value: image => image.image_dimensions.height },
+  { key: 'file_size', label: 'File size', value: image => image.file_size },
+  { key: 'mime_type', label: 'MIME type', value: image => image.mime_type },
+  { key: 'content_hash', label: 'SHA-256', value: image => image.content_hash },
+  { key: 'upload_timestamp', label: 'Uploaded at', value: image => image.upload_timestamp },
+  { key: 'uploaded_by', label: 'Uploaded by', value: image => image.uploaded_by },
+  { key: 'session_id', label: 'Session ID', value: image => image.session_id },
+  // Empty unless the export generates splits
+  { key: 'split', label: 'Split', value: image => image.split },
+];
+
+const SCORE_COLUMNS: CsvColumn[] = scoringFieldsConfig.fields.map(field => ({
+  key: `ai_scores.${field.name}`,
+  label: `Score: ${field.name}`,
+  value: image => image.ai_scores?.[field.name],
+}));
+
+export const CSV_COLUMNS: CsvColumn[] = [...BASE_COLUMNS, ...SCORE_COLUMNS];
+
+export const DEFAULT_CSV_OPTIONS: CsvExportOptions = {
+  columns: [
+    'file_path',
+    'prompt',
+    'generator_used',
+    'tags',
+    'quality_rating',
+    ...SCORE_COLUMNS.map(column => column.key),
+  ],
+  delimiter: ',',
+};
+
+function escapeCell(value: string | number | undefined, delimiter: CsvDelimiter): string {
+  if (value === undefined || value === null) return '';
+  
+  const text = String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Build a CSV document with a header row, in the given column order.
+ * Unknown column keys are ignored.
+ */
+export function buildCsv(images: ExportImage[], columnKeys: string[], delimiter: CsvDelimiter = ','): string {
+  const columns = columnKeys
+    .map(key => CSV_COLUMNS.find(column => column.key === key))
+    .filter((column): column is CsvColumn => column !== undefined);
+  
+  const rows = [
+    columns.map(column => escapeCell(column.key, delimiter)).join(delimiter),
+    ...images.map(image =>
+      columns.map(column => escapeCell(column.value(image), delimiter)).join(delimiter)
+    ),
+  ];
+  
+  return rows.join('\r\n') + '\r\n';
+}
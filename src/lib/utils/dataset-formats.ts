@@ -0,0 +1,210 @@
+/**
+ * Conversion between SynthCollect records and dataset layouts used by training tools:
+ * Hugging Face `imagefolder` (metadata.jsonl) and COCO-style JSON
+ * Both directions live here so exported archives can be imported back
+ * @filepath src/lib/utils/dataset-formats.ts
+ */
+
+import scoringFieldsConfig from '@/lib/config/scoring-fields.json';
+import { ImageRecord, Session } from '@/lib/types';
+import { CocoDataset, CocoImage, ExportImage } from '@/lib/types/export';
+import { ImportMetadata } from '@/lib/types/import';
+import { EXPORT_SCHEMA_VERSION } from '@/lib/utils/export-schema';
+
+export const HF_METADATA_FILE = 'metadata.jsonl';
+export const COCO_ANNOTATIONS_FILE = 'annotations.json';
+
+const SCORE_FIELDS = scoringFieldsConfig.fields.map(field => field.name);
+const GENERATORS: ImageRecord['generator_used'][] = ['midjourney', 'dalle', 'stable-diffusion', 'other'];
+
+type Row = Record<string, any>;
+
+// Path of an image inside every ZIP export; split exports may place it in a split folder
+export function archiveImagePath(image: Pick<ExportImage, 'filename' | 'archive_path'>): string {
+  return image.archive_path || `images/${image.filename}`;
+}
+
+function toGenerator(value: unknown): ImageRecord['generator_used'] {
+  return GENERATORS.includes(value as ImageRecord['generator_used'])
+    ? value as ImageRecord['generator_used']
+    : 'other';
+}
+
+function basename(filePath: string): string {
+  return filePath.split('/').pop() || filePath;
+}
+
+function definedScores(row: Row): Record<string, number> {
+  const scores: Record<string, number> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value === 'number') scores[key] = value;
+  }
+  return scores;
+}
+
+/**
+ * One metadata.jsonl row per image. Every row has the same keys (missing values are null)
+ * so `datasets` infers one schema; each scoring field is a top-level column.
+ * file_name is relative to the metadata file, which sits in `baseDir` of the archive.
+ */
+export function toHfMetadataRows(images: ExportImage[], baseDir: string = ''): Row[] {
+  return images.map(image => {
+    const filePath = archiveImagePath(image);
+    const row: Row = {
+      file_name: baseDir && filePath.startsWith(baseDir) ? filePath.slice(baseDir.length) : filePath,
+      id: image.id,
+      original_filename: image.original_filename,
+      prompt: image.prompt,
+      generator_used: image.generator_used,
+      user_description: image.user_description ?? null,
+      tags: image.tags,
+      quality_rating: image.quality_rating ?? null,
+      notes: image.notes || null,
+      width: image.image_dimensions.width,
+      height: image.image_dimensions.height,
+      upload_timestamp: image.upload_timestamp,
+    };
+    
+    for (const field of SCORE_FIELDS) {
+      row[field] = image.ai_scores?.[field] ?? null;
+    }
+    
+    if (image.split) row.split = image.split;
+    
+    return row;
+  });
+}
+
+// `baseDir` is the archive folder holding metadata.jsonl, e.g. images/train/
+export function fromHfMetadata(jsonl: string, sessionName: string, baseDir: string = ''): ImportMetadata {
+  const rows: Row[] = jsonl
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid ${HF_METADATA_FILE}: line ${index + 1} is not JSON`);
+      }
+    });
+  
+  return {
+    session: { name: sessionName },
+    images: rows.map(row => {
+      const scores: Row = {};
+      for (const field of SCORE_FIELDS) scores[field] = row[field];
+      
+      return {
+        id: row.id ?? undefined,
+        filename: basename(row.file_name),
+        original_filename: row.original_filename || basename(row.file_name),
+        file_path: baseDir + row.file_name,
+        file_size: 0,
+        image_dimensions: { width: row.width || 0, height: row.height || 0 },
+        prompt: row.prompt || '',
+        generator_used: toGenerator(row.generator_used),
+        user_description: row.user_description ?? undefined,
+        tags: Array.isArray(row.tags) ? row.tags : [],
+        quality_rating: row.quality_rating ?? undefined,
+        notes: row.notes ?? undefined,
+        ai_scores: definedScores(scores),
+        upload_timestamp: row.upload_timestamp ?? undefined,
+      };
+    }),
+    export_timestamp: new Date().toISOString(),
+    export_version: EXPORT_SCHEMA_VERSION,
+  };
+}
+
+export function toCocoDataset(session: Session, images: ExportImage[]): CocoDataset {
+  const tags = Array.from(new Set(images.flatMap(image => image.tags))).sort();
+  const categoryIds = new Map(tags.map((tag, index) => [tag, index + 1]));
+  
+  const dataset: CocoDataset = {
+    info: {
+      description: session.name,
+      version: '1.0',
+      date_created: new Date().toISOString(),
+      contributor: 'SynthCollect',
+    },
+    licenses: [],
+    images: [],
+    categories: tags.map(tag => ({ id: categoryIds.get(tag)!, name: tag, supercategory: 'tag' })),
+    annotations: [],
+  };
+  
+  images.forEach((image, index) => {
+    const imageId = index + 1;
+    
+    dataset.images.push({
+      id: imageId,
+      file_name: archiveImagePath(image),
+      width: image.image_dimensions.width,
+      height: image.image_dimensions.height,
+      date_captured: image.upload_timestamp,
+      attributes: {
+        synthcollect_id: image.id,
+        original_filename: image.original_filename,
+        prompt: image.prompt,
+        generator_used: image.generator_used,
+        user_description: image.user_description,
+        quality_rating: image.quality_rating,
+        notes: image.notes || undefined,
+        ai_scores: image.ai_scores || {},
+        split: image.split,
+      },
+    });
+    
+    for (const tag of image.tags) {
+      dataset.annotations.push({
+        id: dataset.annotations.length + 1,
+        image_id: imageId,
+        category_id: categoryIds.get(tag)!,
+      });
+    }
+  });
+  
+  return dataset;
+}
+
+export function isCocoDataset(data: any): data is CocoDataset {
+  return Array.isArray(data?.images) && Array.isArray(data?.categories) && Array.isArray(data?.annotations);
+}
+
+export function fromCocoDataset(dataset: CocoDataset, fallbackName: string): ImportMetadata {
+  const categories = new Map(dataset.categories.map(category => [category.id, category.name]));
+  
+  const tagsByImage = new Map<number, string[]>();
+  for (const annotation of dataset.annotations) {
+    const tag = categories.get(annotation.category_id);
+    if (!tag) continue;
+    tagsByImage.set(annotation.image_id, [...(tagsByImage.get(annotation.image_id) || []), tag]);
+  }
+  
+  return {
+    session: { name: dataset.info?.description || fallbackName },
+    images: dataset.images.map((image: CocoImage) => {
+      const attributes: Partial<CocoImage['attributes']> = image.attributes || {};
+      
+      return {
+        id: attributes.synthcollect_id,
+        filename: basename(image.file_name),
+        original_filename: attributes.original_filename || basename(image.file_name),
+        file_path: image.file_name,
+        file_size: 0,
+        image_dimensions: { width: image.width || 0, height: image.height || 0 },
+        prompt: attributes.prompt || '',
+        generator_used: toGenerator(attributes.generator_used),
+        user_description: attributes.user_description,
+        tags: Array.from(new Set(tagsByImage.get(image.id) || [])),
+        quality_rating: attributes.quality_rating,
+        notes: attributes.notes,
+        ai_scores: definedScores(attributes.ai_scores || {}),
+        upload_timestamp: image.date_captured || undefined,
+      };
+    }),
+    export_timestamp: dataset.info?.date_created || new Date().toISOString(),
+    export_version: EXPORT_SCHEMA_VERSION,
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * Extracts generator settings embedded in image files
+ * Understands Stable Diffusion WebUI "parameters" (PNG text or EXIF UserComment),
+ * ComfyUI prompt graphs, common EXIF text tags and XMP descriptions
+ * @filepath src/lib/utils/embedded-metadata.ts
+ */
+
+import type { Metadata } from 'sharp';
+
+type Settings = Record<string, any>;
+
+// EXIF tags worth keeping, by IFD
+const IFD0_TAGS: Record<number, string> = {
+  0x010e: 'image_description',
+  0x010f: 'make',
+  0x0110: 'model',
+  0x0131: 'software',
+  0x0132: 'date_time',
+  0x013b: 'artist',
+};
+const EXIF_IFD_POINTER = 0x8769;
+const EXIF_TAGS: Record<number, string> = {
+  0x9003: 'date_time_original',
+  0x9286: 'user_comment',
+};
+
+// XMP properties worth keeping, mapped to setting keys
+const XMP_PROPERTIES: Record<string, string> = {
+  'dc:description': 'description',
+  'dc:title': 'title',
+  'dc:creator': 'creator',
+  'xmp:CreatorTool': 'creator_tool',
+  'Iptc4xmpExt:DigitalSourceType': 'digital_source_type',
+};
+
+function toSnakeCase(key: string): string {
+  return key.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function parseValue(value: string): string | number {
+  const trimmed = value.trim();
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  return trimmed;
+}
+
+export function looksLikeSdParameters(text: string): boolean {
+  return /(^|\n)Steps: \d+/.test(text);
+}
+
+/**
+ * Parse the Stable Diffusion WebUI "parameters" text:
+ * prompt lines, an optional "Negative prompt:" block, then "Steps: 20, Sampler: Euler a, ..."
+ */
+export function parseSdParameters(text: string): Settings {
+  const lines = text.replace(/\r\n/g, '\n').trim().split('\n');
+  const settings: Settings = {};
+  
+  // The key/value line is the last one starting with "Steps:"
+  let settingsIndex = -1;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines[i].startsWith('Steps: ')) {
+      settingsIndex = i;
+      break;
+    }
+  }
+  
+  const promptLines = settingsIndex > -1 ? lines.slice(0, settingsIndex) : lines;
+  const negativeIndex = promptLines.findIndex(line => line.startsWith('Negative prompt:'));
+  
+  const prompt = (negativeIndex > -1 ? promptLines.slice(0, negativeIndex) : promptLines).join('\n').trim();
+  if (prompt) settings.prompt = prompt;
+  
+  if (negativeIndex > -1) {
+    settings.negative_prompt = promptLines
+      .slice(negativeIndex)
+      .join('\n')
+      .replace(/^Negative prompt:/, '')
+      .trim();
+  }
+  
+  if (settingsIndex > -1) {
+    // Values may be quoted and contain commas, e.g. Lora hashes: "a: 1, b: 2"
+    const pairPattern = /\s*([^:,]+):\s*("(?:\\.|[^\\"])*"|[^,]*)(?:,|$)/g;
+    for (const match of lines.slice(settingsIndex).join(', ').matchAll(pairPattern)) {
+      const key = toSnakeCase(match[1]);
+      if (key) settings[key] = parseValue(match[2]);
+    }
+  }
+  
+  return settings;
+}
+
+function readAscii(buffer: Buffer, offset: number, length: number): string {
+  return buffer.toString('latin1', offset, offset + length).replace(/\0+$/, '').trim();
+}
+
+// UserComment starts with an 8 byte character code
+function decodeUserComment(value: Buffer, littleEndian: boolean): string {
+  const code = value.toString('latin1', 0, 8).replace(/\0+$/, '');
+  const body = value.subarray(8);
+  
+  if (code === 'UNICODE') {
+    // Writers disagree on byte order; ASCII-range text gives it away, else follow the TIFF header
+    const data = Buffer.from(body.subarray(0, body.length - (body.length % 2)));
+    const bigEndian = data.length > 1 && data[0] !== data[1] ? data[0] === 0 : !littleEndian;
+    if (bigEndian) data.swap16();
+    return data.toString('utf16le').replace(/\0+$/, '').trim();
+  }
+  
+  return body.toString(code === 'ASCII' ? 'latin1' : 'utf8').replace(/\0+$/, '').trim();
+}
+
+/**
+ * Read a few text tags from a raw EXIF block (as returned by sharp).
+ * Malformed data ends parsing quietly with whatever was read so far.
+ */
+export function parseExif(exif: Buffer): Settings {
+  const result: Settings = {};
+  const start = exif.toString('latin1', 0, 6) === 'Exif\0\0' ? 6 : 0;
+  const tiff = exif.subarray(start);
+  if (tiff.length < 8) return result;
+  
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return result;
+  const littleEndian = byteOrder === 'II';
+  
+  const u16 = (offset: number) => littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const u32 = (offset: number) => littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+  
+  const readIfd = (offset: number, tags: Record<number, string>): number | null => {
+    let exifPointer: number | null = null;
+    const count = u16(offset);
+    
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const length = u32(entry + 4);
+      
+      if (tag === EXIF_IFD_POINTER) {
+        exifPointer = u32(entry + 8);
+        continue;
+      }
+      
+      const key = tags[tag];
+      // Only ASCII (2) and UNDEFINED (7) values carry text
+      if (!key || (type !== 2 && type !== 7)) continue;
+      
+      const valueOffset = length > 4 ? u32(entry + 8) : entry + 8;
+      if (valueOffset + length > tiff.length) continue;
+      
+      const value = key === 'user_comment'
+        ? decodeUserComment(tiff.subarray(valueOffset, valueOffset + length), littleEndian)
+        : readAscii(tiff, valueOffset, length);
+      if (value) result[key] = value;
+    }
+    
+    return exifPointer;
+  };
+  
+  try {
+    const exifPointer = readIfd(u32(4), IFD0_TAGS);
+    if (exifPointer) readIfd(exifPointer, EXIF_TAGS);
+  } catch {
+    // Truncated or corrupt EXIF
+  }
+  
+  return result;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Pull a handful of properties out of an XMP packet.
+ * Handles both attribute (prop="...") and element (<prop>...</prop>, incl. rdf:Alt/Seq) forms.
+ */
+export function parseXmp(xmp: string): Settings {
+  const result: Settings = {};
+  
+  for (const [property, key] of Object.entries(XMP_PROPERTIES)) {
+    const attribute = xmp.match(new RegExp(`${property}="([^"]*)"`));
+    const element = xmp.match(new RegExp(`<${property}[^>]*>([\\s\\S]*?)</${property}>`));
+    
+    let value: string | undefined;
+    if (attribute) {
+      value = attribute[1];
+    } else if (element) {
+      const items = Array.from(element[1].matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g), m => m[1]);
+      value = items.length > 0 ? items.join(', ') : element[1].replace(/<[^>]+>/g, '');
+    }
+    
+    value = value && decodeXmlEntities(value).trim();
+    if (value) result[key] = value;
+  }
+  
+  return result;
+}
+
+/**
+ * Combine everything the file says about how it was generated.
+ * Stable Diffusion fields are flattened into the top level; other sources are nested.
+ */
+export function extractGenerationSettings(metadata: Metadata): Settings {
+  let settings: Settings = {};
+  
+  const pngText: Settings = {};
+  for (const { keyword, text } of metadata.comments || []) {
+    if (keyword === 'parameters' && looksLikeSdParameters(text)) {
+      settings = { ...settings, ...parseSdParameters(text) };
+    } else if (keyword === 'prompt' || keyword === 'workflow') {
+      // ComfyUI stores its graphs as JSON; the workflow is UI layout only
+      if (keyword === 'prompt') {
+        try {
+          settings.comfyui_prompt = JSON.parse(text);
+        } catch {
+          pngText[keyword] = text;
+        }
+      }
+    } else {
+      pngText[toSnakeCase(keyword) || keyword] = text;
+    }
+  }
+  if (Object.keys(pngText).length > 0) settings.png_text = pngText;
+  
+  if (metadata.exif) {
+    const exif = parseExif(metadata.exif);
+    
+    // WebUI writes its parameters into UserComment for JPEG and WebP output
+    for (const key of ['user_comment', 'image_description']) {
+      if (exif[key] && looksLikeSdParameters(exif[key]) && !settings.steps) {
+        settings = { ...parseSdParameters(exif[key]), ...settings };
+        delete exif[key];
+      }
+    }
+    
+    if (Object.keys(exif).length > 0) settings.exif = exif;
+  }
+  
+  const xmpText = metadata.xmpAsString || metadata.xmp?.toString('utf8');
+  if (xmpText) {
+    const xmp = parseXmp(xmpText);
+    if (Object.keys(xmp).length > 0) settings.xmp = xmp;
+  }
+  
+  return settings;
+}
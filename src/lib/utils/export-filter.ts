@@ -0,0 +1,108 @@
+/**
+ * Selects the images of an export and describes the selection for export history
+ * @filepath src/lib/utils/export-filter.ts
+ */
+
+import { ImageFilters, ImageRecord } from '@/lib/types';
+import { ExportFilter } from '@/lib/types/export';
+
+export function isEmptyFilter(filter?: ExportFilter): boolean {
+  if (!filter) return true;
+  
+  return Object.entries(filter).every(([key, value]) => {
+    if (key === 'tag_match') return true;
+    if (Array.isArray(value)) return value.length === 0;
+    if (value && typeof value === 'object') return Object.keys(value).length === 0;
+    return value === undefined || value === '';
+  });
+}
+
+export function applyExportFilter<T extends ImageRecord>(images: T[], filter: ExportFilter): T[] {
+  const ids = filter.image_ids?.length ? new Set(filter.image_ids) : null;
+  const excluded = new Set(filter.exclude_ids || []);
+  const tags = (filter.tags || []).map(tag => tag.toLowerCase());
+  const from = filter.uploaded_from ? new Date(filter.uploaded_from).getTime() : null;
+  const to = filter.uploaded_to ? new Date(filter.uploaded_to).getTime() : null;
+  
+  return images.filter(image => {
+    if (ids && !ids.has(image.id)) return false;
+    if (excluded.has(image.id)) return false;
+    
+    if (filter.min_rating !== undefined || filter.max_rating !== undefined) {
+      if (image.quality_rating === undefined) return false;
+      if (filter.min_rating !== undefined && image.quality_rating < filter.min_rating) return false;
+      if (filter.max_rating !== undefined && image.quality_rating > filter.max_rating) return false;
+    }
+    
+    if (tags.length > 0) {
+      const imageTags = new Set((image.tags || []).map(tag => tag.toLowerCase()));
+      const matches = filter.tag_match === 'all'
+        ? tags.every(tag => imageTags.has(tag))
+        : tags.some(tag => imageTags.has(tag));
+      if (!matches) return false;
+    }
+    
+    if (filter.generators?.length && !filter.generators.includes(image.generator_used)) return false;
+    
+    if (from !== null || to !== null) {
+      const uploaded = new Date(image.upload_timestamp).getTime();
+      if (from !== null && uploaded < from) return false;
+      if (to !== null && uploaded > to) return false;
+    }
+    
+    for (const [field, range] of Object.entries(filter.scores || {})) {
+      const score = image.ai_scores?.[field];
+      if (score === undefined) return false;
+      if (range.min !== undefined && score < range.min) return false;
+      if (range.max !== undefined && score > range.max) return false;
+    }
+    
+    return true;
+  });
+}
+
+// The image grid's "select all matching" selection as an export filter
+export function filterFromGridSelection(filters: ImageFilters, excludeIds: string[]): ExportFilter {
+  return {
+    min_rating: filters.min_rating,
+    max_rating: filters.max_rating,
+    tags: filters.tag ? [filters.tag] : undefined,
+    generators: filters.generator_used ? [filters.generator_used] : undefined,
+    scores: filters.score_field
+      ? { [filters.score_field]: { min: filters.min_score, max: filters.max_score } }
+      : undefined,
+    exclude_ids: excludeIds.length ? excludeIds : undefined,
+  };
+}
+
+// Short human-readable summary, e.g. "rating ≥ 4 · tags: cat, dog"
+export function describeExportFilter(filter: ExportFilter): string {
+  const parts: string[] = [];
+  const date = (value: string) => value.slice(0, 10);
+  
+  if (filter.image_ids?.length) parts.push(`${filter.image_ids.length} selected`);
+  if (filter.min_rating !== undefined && filter.max_rating !== undefined) {
+    parts.push(`rating ${filter.min_rating}–${filter.max_rating}`);
+  } else if (filter.min_rating !== undefined) {
+    parts.push(`rating ≥ ${filter.min_rating}`);
+  } else if (filter.max_rating !== undefined) {
+    parts.push(`rating ≤ ${filter.max_rating}`);
+  }
+  if (filter.tags?.length) {
+    parts.push(`${filter.tag_match === 'all' ? 'all tags' : 'tags'}: ${filter.tags.join(', ')}`);
+  }
+  if (filter.generators?.length) parts.push(filter.generators.join(', '));
+  if (filter.uploaded_from && filter.uploaded_to) {
+    parts.push(`${date(filter.uploaded_from)} – ${date(filter.uploaded_to)}`);
+  } else if (filter.uploaded_from) {
+    parts.push(`from ${date(filter.uploaded_from)}`);
+  } else if (filter.uploaded_to) {
+    parts.push(`until ${date(filter.uploaded_to)}`);
+  }
+  for (const [field, range] of Object.entries(filter.scores || {})) {
+    parts.push(`${field.replace(/_/g, ' ')} ${range.min ?? '…'}–${range.max ?? '…'}`);
+  }
+  if (filter.exclude_ids?.length) parts.push(`${filter.exclude_ids.length} excluded`);
+  
+  return parts.join(' · ');
+}
@@ -0,0 +1,55 @@
+/**
+ * Export schema versions: upgrading older metadata and rejecting what can't be read
+ * @filepath src/lib/utils/export-schema.test.ts
+ */
+
+import { describe, expect, it } from 'vitest';
+import { EXPORT_SCHEMA_VERSION, compareVersions, migrateExportMetadata } from './export-schema';
+
+const metadata = {
+  session: { name: 'Session' },
+  images: [],
+  export_timestamp: '2025-01-01T00:00:00.000Z',
+};
+
+describe('compareVersions', () => {
+  it('compares each part numerically', () => {
+    expect(compareVersions('1.0.0', '1.0.0')).toBe(0);
+    expect(compareVersions('1.0.0', '1.1.0')).toBeLessThan(0);
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('2.0.0', '1.99.99')).toBeGreaterThan(0);
+  });
+});
+
+describe('migrateExportMetadata', () => {
+  it('upgrades 1.0.0 metadata to the current version', () => {
+    const migrated = migrateExportMetadata({ ...metadata, export_version: '1.0.0' });
+    expect(migrated).toEqual({ ...metadata, export_version: EXPORT_SCHEMA_VERSION });
+  });
+  
+  it('treats metadata without a version as 1.0.0', () => {
+    expect(migrateExportMetadata(metadata).export_version).toBe(EXPORT_SCHEMA_VERSION);
+  });
+  
+  it('leaves current metadata as it is', () => {
+    const current = { ...metadata, export_version: EXPORT_SCHEMA_VERSION };
+    expect(migrateExportMetadata(current)).toEqual(current);
+  });
+  
+  it('rejects a newer version with a message to update the app', () => {
+    expect(() => migrateExportMetadata({ ...metadata, export_version: '99.0.0' }))
+      .toThrow(/newer version of the app.*Update the app/);
+  });
+  
+  it('rejects a malformed version', () => {
+    expect(() => migrateExportMetadata({ ...metadata, export_version: 'v1' }))
+      .toThrow('unrecognized export version "v1"');
+    expect(() => migrateExportMetadata({ ...metadata, export_version: 1 }))
+      .toThrow('unrecognized export version 1');
+  });
+  
+  it('rejects an older version no migration starts from', () => {
+    expect(() => migrateExportMetadata({ ...metadata, export_version: '1.0.5' }))
+      .toThrow('no migration from export format 1.0.5');
+  });
+});
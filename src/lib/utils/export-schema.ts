@@ -0,0 +1,69 @@
+/**
+ * Export schema versions and the migrations that upgrade older export metadata on import
+ * @filepath src/lib/utils/export-schema.ts
+ */
+
+// Written to every export; bump it and add a migration whenever the exported records change
+export const EXPORT_SCHEMA_VERSION = '1.1.0';
+
+// Exports written before versions were checked all say 1.0.0; files without one are treated the same
+const OLDEST_VERSION = '1.0.0';
+
+interface ExportMigration {
+  from: string;
+  to: string;
+  // Takes metadata of version `from` (as parsed from JSON, before validation) to version `to`
+  migrate: (metadata: any) => any;
+}
+
+// Oldest first; every version but the current one is the `from` of exactly one step
+const MIGRATIONS: ExportMigration[] = [
+  {
+    // 1.1.0 only added optional fields (content hashes, MIME type, checksum manifest, split info),
+    // so 1.0.0 metadata is already valid
+    from: '1.0.0',
+    to: '1.1.0',
+    migrate: metadata => metadata,
+  },
+];
+
+function parseVersion(version: string): number[] | null {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version);
+  return match ? match.slice(1).map(Number) : null;
+}
+
+export function compareVersions(a: string, b: string): number {
+  const [left, right] = [parseVersion(a)!, parseVersion(b)!];
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+/**
+ * Upgrade export metadata step by step to the current schema version.
+ * Throws for versions newer than this app and for versions no migration starts from.
+ */
+export function migrateExportMetadata(metadata: any): any {
+  const version = metadata?.export_version ?? OLDEST_VERSION;
+  if (typeof version !== 'string' || !parseVersion(version)) {
+    throw new Error(`Invalid import file: unrecognized export version ${JSON.stringify(version)}`);
+  }
+  if (compareVersions(version, EXPORT_SCHEMA_VERSION) > 0) {
+    throw new Error(
+      `This export was made with a newer version of the app (export format ${version}); ` +
+      `this app reads up to ${EXPORT_SCHEMA_VERSION}. Update the app to import it.`
+    );
+  }
+  
+  let migrated = { ...metadata, export_version: version };
+  while (migrated.export_version !== EXPORT_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find(migration => migration.from === migrated.export_version);
+    if (!step) {
+      throw new Error(`Invalid import file: no migration from export format ${migrated.export_version}`);
+    }
+    migrated = { ...step.migrate(migrated), export_version: step.to };
+  }
+  
+  return migrated;
+}
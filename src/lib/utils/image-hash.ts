@@ -0,0 +1,65 @@
+/**
+ * Content and perceptual hashes used for duplicate detection
+ * @filepath src/lib/utils/image-hash.ts
+ */
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+
+export interface ImageHashes {
+  content_hash: string; // SHA-256 of the file bytes
+  perceptual_hash: string; // 64-bit dHash as 16 hex chars
+}
+
+// dHash bits that may differ for two images to still count as near duplicates
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+/**
+ * dHash: shrink to 9x8 greyscale and record whether each pixel is darker than its right neighbour.
+ * Survives re-encoding, resizing and small edits; EXIF orientation is applied first.
+ */
+async function differenceHash(input: Buffer): Promise<string> {
+  const pixels = await sharp(input)
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+  
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let nibbleBits = 0;
+    for (let col = 0; col < 8; col++) {
+      const offset = row * 9 + col;
+      nibbleBits = (nibbleBits << 1) | (pixels[offset] < pixels[offset + 1] ? 1 : 0);
+      if (col % 4 === 3) {
+        hash += nibbleBits.toString(16);
+        nibbleBits = 0;
+      }
+    }
+  }
+  
+  return hash;
+}
+
+export async function computeImageHashes(input: Buffer): Promise<ImageHashes> {
+  return {
+    content_hash: createHash('sha256').update(input).digest('hex'),
+    perceptual_hash: await differenceHash(input),
+  };
+}
+
+function popcount(value: number): number {
+  let bits = value - ((value >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return Math.imul((bits + (bits >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+// Number of differing bits between two perceptual hashes
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < 16; i += 8) {
+    distance += popcount((parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0);
+  }
+  return distance;
+}
@@ -0,0 +1,62 @@
+/**
+ * Reads basic properties of an image file with Sharp
+ * @filepath src/lib/utils/image-info.ts
+ */
+
+import sharp from 'sharp';
+import { extractGenerationSettings } from './embedded-metadata';
+
+export interface ImageInfo {
+  width: number;
+  height: number;
+  mime_type: string;
+  color_space: string;
+  // Generator settings found in the file itself (PNG text, EXIF, XMP)
+  generation_settings: Record<string, any>;
+}
+
+// Detected from the file contents, not the extension
+const MIME_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  heif: 'image/heif',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+};
+
+// Throws if the input is not an image Sharp can decode
+export async function readImageInfo(input: Buffer | string): Promise<ImageInfo> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch {
+    throw new Error('Unsupported or corrupt image file');
+  }
+  
+  if (!metadata.width || !metadata.height) {
+    throw new Error('Unsupported or corrupt image file');
+  }
+  
+  // EXIF orientations 5-8 are rotated by 90°, so the displayed size is swapped
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  
+  return {
+    width: rotated ? metadata.height : metadata.width,
+    height: rotated ? metadata.width : metadata.height,
+    mime_type: MIME_TYPES[metadata.format] || `image/${metadata.format}`,
+    color_space: metadata.space,
+    generation_settings: extractGenerationSettings(metadata),
+  };
+}
+
+// Existing values (user input, imported metadata) take precedence over embedded ones
+export function mergeGenerationSettings(
+  embedded: Record<string, any>,
+  existing?: Record<string, any>
+): Record<string, any> | undefined {
+  const merged = { ...embedded, ...existing };
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
@@ -0,0 +1,93 @@
+/**
+ * Export-time image transforms with sharp: resize, square crop, re-encode and metadata stripping
+ * @filepath src/lib/utils/image-transform.ts
+ */
+
+import sharp from 'sharp';
+import path from 'path';
+import { ExportImage, ImageTransformOptions, TransformFormat } from '@/lib/types/export';
+
+const OUTPUT_FORMATS: Record<Exclude<TransformFormat, 'original'>, { extension: string; mimeType: string }> = {
+  jpeg: { extension: '.jpg', mimeType: 'image/jpeg' },
+  png: { extension: '.png', mimeType: 'image/png' },
+  webp: { extension: '.webp', mimeType: 'image/webp' },
+};
+
+// A transform that would write every file unchanged
+export function isIdentityTransform(options: ImageTransformOptions): boolean {
+  return !options.max_edge && options.crop === 'none' && options.format === 'original' && !options.strip_metadata;
+}
+
+export async function transformImage(
+  input: Buffer,
+  options: ImageTransformOptions
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const metadata = await sharp(input).metadata();
+  // Orientation is applied before anything else, as it is lost once metadata is stripped
+  let image = sharp(input).autoOrient();
+  
+  if (options.crop !== 'none') {
+    const { width, height } = metadata.autoOrient;
+    const side = Math.min(width, height, options.max_edge || Infinity);
+    image = image.resize({
+      width: side,
+      height: side,
+      fit: 'cover',
+      position: options.crop === 'attention' ? sharp.strategy.attention : 'centre',
+    });
+  } else if (options.max_edge) {
+    image = image.resize({
+      width: options.max_edge,
+      height: options.max_edge,
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+  }
+  
+  if (!options.strip_metadata) {
+    image = image.keepMetadata();
+  }
+  
+  const format = options.format === 'original' ? metadata.format : options.format;
+  if (format === 'jpeg') {
+    // JPEG has no alpha channel
+    image = image.flatten({ background: '#ffffff' }).jpeg({ quality: options.quality });
+  } else if (format === 'webp') {
+    image = image.webp({ quality: options.quality });
+  } else {
+    image = image.toFormat(format);
+  }
+  
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  return { buffer: data, width: info.width, height: info.height };
+}
+
+/**
+ * The record of a transformed image as listed in the export metadata: file name, archive path
+ * and MIME type follow the output format, dimensions and size describe the exported file.
+ * The content hash is dropped since it no longer matches.
+ */
+export function toTransformedImage(
+  image: ExportImage,
+  archivePath: string,
+  result: { buffer: Buffer; width: number; height: number },
+  options: ImageTransformOptions
+): ExportImage {
+  const record: ExportImage = {
+    ...image,
+    archive_path: archivePath,
+    image_dimensions: { width: result.width, height: result.height },
+    file_size: result.buffer.length,
+    content_hash: undefined,
+  };
+  if (options.format === 'original') return record;
+  
+  const { extension, mimeType } = OUTPUT_FORMATS[options.format];
+  const rename = (file: string) => file.slice(0, file.length - path.extname(file).length) + extension;
+  return {
+    ...record,
+    filename: rename(image.filename),
+    archive_path: rename(archivePath),
+    mime_type: mimeType,
+  };
+}
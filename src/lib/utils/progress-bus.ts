@@ -0,0 +1,107 @@
+/**
+ * In-process publish/subscribe for progress of long-running jobs
+ * Jobs publish events under their job ID; SSE routes subscribe and push them to the browser
+ * @filepath src/lib/utils/progress-bus.ts
+ */
+
+import type { ExportJob } from '@/lib/types/export';
+import type { ImportJob } from '@/lib/types/import';
+
+// Payload published by each kind of job
+export interface ProgressPayloads {
+  export: ExportJob;
+  import: ImportJob;
+}
+
+export type JobKind = keyof ProgressPayloads;
+
+export type ProgressEvent<K extends JobKind = JobKind> = {
+  [P in K]: {
+    job_id: string;
+    kind: P;
+    // Owner of the job; subscribers only receive events of their own jobs
+    user_id: string;
+    // Last event of the job; streams close after it
+    done: boolean;
+    data: ProgressPayloads[P];
+    timestamp: number;
+  };
+}[K];
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+// Finished jobs stay replayable for a while so a subscriber that connects late still sees the result
+const RETAIN_FINISHED_MS = 5 * 60 * 1000;
+
+export class ProgressBus {
+  private listeners = new Map<string, Set<ProgressListener>>();
+  private latest = new Map<string, ProgressEvent>();
+  
+  publish<K extends JobKind>(
+    kind: K,
+    jobId: string,
+    userId: string,
+    data: ProgressPayloads[K],
+    done: boolean = false
+  ): void {
+    const event = {
+      job_id: jobId,
+      kind,
+      user_id: userId,
+      done,
+      data,
+      timestamp: Date.now(),
+    } as ProgressEvent;
+    
+    this.latest.set(jobId, event);
+    
+    for (const listener of Array.from(this.listeners.get(jobId) || [])) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn(`⚠️ Progress listener for ${jobId} failed:`, error);
+      }
+    }
+    
+    if (done) {
+      setTimeout(() => {
+        if (this.latest.get(jobId) === event) this.latest.delete(jobId);
+      }, RETAIN_FINISHED_MS).unref?.();
+    }
+  }
+  
+  /**
+   * Listen for events of one job. The latest event, if any, is replayed right away.
+   * Returns an unsubscribe function.
+   */
+  subscribe(jobId: string, listener: ProgressListener): () => void {
+    const listeners = this.listeners.get(jobId) || new Set<ProgressListener>();
+    listeners.add(listener);
+    this.listeners.set(jobId, listeners);
+    
+    // Deferred so the caller has the unsubscribe function before the first event arrives
+    const latest = this.latest.get(jobId);
+    if (latest) {
+      queueMicrotask(() => {
+        if (listeners.has(listener) && this.latest.get(jobId) === latest) listener(latest);
+      });
+    }
+    
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(jobId) === listeners) {
+        this.listeners.delete(jobId);
+      }
+    };
+  }
+  
+  getLatest(jobId: string): ProgressEvent | undefined {
+    return this.latest.get(jobId);
+  }
+}
+
+// Route handlers can be bundled separately, so the instance lives on globalThis to stay shared
+const globalForProgress = globalThis as typeof globalThis & { progressBus?: ProgressBus };
+
+export const progressBus = globalForProgress.progressBus ?? new ProgressBus();
+globalForProgress.progressBus = progressBus;
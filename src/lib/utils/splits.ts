@@ -0,0 +1,162 @@
+/**
+ * Seeded, stratified train/val/test assignment for exports
+ * Images are grouped into strata by the chosen keys and each stratum is split by the ratios,
+ * so every split gets the same mix of generators and score ranges
+ * @filepath src/lib/utils/splits.ts
+ */
+
+import scoringFieldsConfig from '@/lib/config/scoring-fields.json';
+import { ImageRecord } from '@/lib/types';
+import { SessionSplits, SplitConfig, SplitName } from '@/lib/types/export';
+
+export const SPLIT_NAMES: SplitName[] = ['train', 'val', 'test'];
+
+export const STRATIFY_KEYS: { key: string; label: string }[] = [
+  { key: 'generator_used', label: 'Generator' },
+  { key: 'quality_rating', label: 'Rating' },
+  ...scoringFieldsConfig.fields.map(field => ({
+    key: `ai_scores.${field.name}`,
+    label: field.name.replace(/_/g, ' '),
+  })),
+];
+
+export const DEFAULT_SPLIT_CONFIG: SplitConfig = {
+  ratios: { train: 0.8, val: 0.1, test: 0.1 },
+  seed: 'synthcollect',
+  stratify_by: ['generator_used'],
+  score_buckets: 3,
+};
+
+// mulberry32, seeded from a string hash, so the same seed always gives the same order
+function createRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 2654435761);
+  }
+  
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Equal-width bucket of a score within the field's configured range
+function scoreBucket(field: string, value: number | undefined, buckets: number): string {
+  if (value === undefined || value === null) return 'none';
+  
+  const config = scoringFieldsConfig.fields.find(f => f.name === field);
+  const min = config?.min ?? 0;
+  const max = config?.max ?? 1;
+  const position = max > min ? (value - min) / (max - min) : 0;
+  return String(Math.min(buckets - 1, Math.max(0, Math.floor(position * buckets))));
+}
+
+export function stratumOf(image: ImageRecord, config: SplitConfig): string {
+  return config.stratify_by
+    .map(key => {
+      if (key.startsWith('ai_scores.')) {
+        const field = key.slice('ai_scores.'.length);
+        return scoreBucket(field, image.ai_scores?.[field], config.score_buckets);
+      }
+      return String(image[key as keyof ImageRecord] ?? 'none');
+    })
+    .join('|');
+}
+
+/**
+ * Assign every image to a split. Images in `previous` keep their split. The rest are visited
+ * stratum by stratum, in seeded random order within each stratum, and each goes to the split
+ * furthest below its ratio. Consecutive images of a stratum are therefore spread over the splits
+ * in proportion, and rounding carries over between strata so the totals match the ratios.
+ * Assignments of images that no longer exist are dropped.
+ */
+export function assignSplits(
+  images: ImageRecord[],
+  config: SplitConfig,
+  previous: Record<string, SplitName> = {}
+): Record<string, SplitName> {
+  const assignments: Record<string, SplitName> = {};
+  const strata = new Map<string, ImageRecord[]>();
+  
+  for (const image of images) {
+    const stratum = stratumOf(image, config);
+    if (!strata.has(stratum)) strata.set(stratum, []);
+    strata.get(stratum)!.push(image);
+  }
+  
+  const random = createRandom(config.seed);
+  const sortedKeys = Array.from(strata.keys()).sort();
+  const counts: Record<SplitName, number> = { train: 0, val: 0, test: 0 };
+  
+  for (const image of images) {
+    const split = previous[image.id];
+    if (split) {
+      assignments[image.id] = split;
+      counts[split]++;
+    }
+  }
+  
+  for (const key of sortedKeys) {
+    // Sorted first so the result doesn't depend on storage order
+    const pending = strata.get(key)!
+      .filter(image => !assignments[image.id])
+      .sort((a, b) => a.id.localeCompare(b.id));
+    
+    for (const image of shuffle(pending, random)) {
+      const assigned = counts.train + counts.val + counts.test + 1;
+      const split = SPLIT_NAMES.reduce((best, name) =>
+        config.ratios[name] * assigned - counts[name] > config.ratios[best] * assigned - counts[best]
+          ? name
+          : best
+      );
+      
+      assignments[image.id] = split;
+      counts[split]++;
+    }
+  }
+  
+  return assignments;
+}
+
+/**
+ * Splits for an export. Stored splits are kept (and extended to new images) unless a
+ * reshuffle is requested; the config used is returned with the assignments.
+ */
+export function resolveSplits(
+  images: ImageRecord[],
+  requested: SplitConfig & { reshuffle?: boolean },
+  stored?: SessionSplits
+): SessionSplits {
+  const keep = stored && !requested.reshuffle;
+  const config: SplitConfig = keep
+    ? stored.config
+    : {
+      ratios: requested.ratios,
+      seed: requested.seed,
+      stratify_by: requested.stratify_by,
+      score_buckets: requested.score_buckets,
+    };
+  
+  return {
+    config,
+    assignments: assignSplits(images, config, keep ? stored.assignments : {}),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+export function countSplits(assignments: Record<string, SplitName>): Record<SplitName, number> {
+  const counts: Record<SplitName, number> = { train: 0, val: 0, test: 0 };
+  for (const split of Object.values(assignments)) counts[split]++;
+  return counts;
+}
@@ -0,0 +1,40 @@
+/**
+ * Thumbnail cache location and invalidation
+ * Cached files are named `<imageId>-<w>x<h>-q<quality>.jpg`
+ * @filepath src/lib/utils/thumbnail-cache.ts
+ */
+
+import { readdir, unlink } from 'fs/promises';
+import path from 'path';
+import { dataPath } from '@/lib/storage/paths';
+
+export const THUMBNAIL_CACHE_DIR = dataPath('thumbnails');
+
+// Remove every cached size of the given images; returns the number of files removed
+export async function clearThumbnailCache(imageIds: string | string[]): Promise<number> {
+  const ids = new Set(Array.isArray(imageIds) ? imageIds : [imageIds]);
+  
+  let files: string[];
+  try {
+    files = await readdir(THUMBNAIL_CACHE_DIR);
+  } catch {
+    // No cache yet
+    return 0;
+  }
+  
+  // The image ID is everything before the last "-<w>x<h>-q<q>.jpg" suffix
+  const stale = files.filter(file => {
+    const match = file.match(/^(.+)-\d+x\d+-q\d+\.jpg$/);
+    return match !== null && ids.has(match[1]);
+  });
+  
+  await Promise.all(
+    stale.map(file =>
+      unlink(path.join(THUMBNAIL_CACHE_DIR, file)).catch(error =>
+        console.warn(`⚠️ Failed to delete ${file}:`, error)
+      )
+    )
+  );
+  
+  return stale.length;
+}
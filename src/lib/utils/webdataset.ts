@@ -0,0 +1,54 @@
+/**
+ * Helpers for WebDataset (https://github.com/webdataset/webdataset) tar-shard exports
+ * Each sample is <key>.jpg + <key>.json; samples of one shard are written consecutively
+ * @filepath src/lib/utils/webdataset.ts
+ */
+
+import sharp from 'sharp';
+import { EXPORT_CONFIG } from '@/lib/config/export-config';
+import { ImageRecord } from '@/lib/types';
+import { ExportImage } from '@/lib/types/export';
+
+export const WEBDATASET_MANIFEST_FILE = 'manifest.json';
+
+const SHARD_DIGITS = 6;
+
+// Shards written per split are prefixed with the split name instead of "shard"
+export function shardName(index: number, prefix: string = 'shard'): string {
+  return `${prefix}-${String(index).padStart(SHARD_DIGITS, '0')}.tar`;
+}
+
+// Brace pattern covering all shards, as accepted by webdataset.WebDataset()
+export function shardPattern(shardCount: number, prefix: string = 'shard'): string {
+  if (shardCount <= 1) return shardName(0, prefix);
+  const last = String(shardCount - 1).padStart(SHARD_DIGITS, '0');
+  return `${prefix}-{${'0'.repeat(SHARD_DIGITS)}..${last}}.tar`;
+}
+
+/**
+ * WebDataset splits file names at the first dot to find the sample key,
+ * so keys must not contain dots. Image IDs are nanoids (A-Za-z0-9_-).
+ */
+export function sampleKey(image: Pick<ImageRecord, 'id'>): string {
+  return image.id.replace(/\./g, '_');
+}
+
+// ImageRecord metadata, scores and split; the server-side file path is left out
+export function toSampleJson(image: ExportImage): string {
+  const { file_path: _, archive_path: __, ...record } = image;
+  return JSON.stringify({ key: sampleKey(image), ...record });
+}
+
+function isJpeg(buffer: Buffer): boolean {
+  return buffer.length > 2 && buffer[0] === 0xff && buffer[1] === 0xd8;
+}
+
+// Every sample carries a .jpg so loaders can rely on one field name
+export async function toJpeg(buffer: Buffer): Promise<Buffer> {
+  if (isJpeg(buffer)) return buffer;
+  
+  return sharp(buffer)
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: EXPORT_CONFIG.WEBDATASET_JPEG_QUALITY })
+    .toBuffer();
+}
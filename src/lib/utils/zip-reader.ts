@@ -0,0 +1,184 @@
+/**
+ * Random-access ZIP reader over a file on disk, for imports too large to hold in memory
+ * Only the central directory is kept; entries are read and inflated one at a time
+ * @filepath src/lib/utils/zip-reader.ts
+ */
+
+import { open, FileHandle } from 'fs/promises';
+import { inflateRaw } from 'zlib';
+import { promisify } from 'util';
+
+const inflateRawAsync = promisify(inflateRaw);
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+// End of central directory record plus the longest possible archive comment
+const EOCD_SIZE = 22;
+const EOCD_SEARCH_SIZE = EOCD_SIZE + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+export class ZipReader {
+  private constructor(
+    private handle: FileHandle,
+    private entries: Map<string, ZipEntry>
+  ) {}
+  
+  static async open(filePath: string): Promise<ZipReader> {
+    const handle = await open(filePath, 'r');
+    try {
+      const entries = await readCentralDirectory(handle);
+      return new ZipReader(handle, entries);
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+  
+  // File entries in archive order; directories are left out
+  get names(): string[] {
+    return [...this.entries.keys()];
+  }
+  
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+  
+  // The entry's contents, or null if the archive has no such file
+  async read(name: string): Promise<Buffer | null> {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+    
+    const header = await readAt(this.handle, entry.localHeaderOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid ZIP file: bad local header for ${name}`);
+    }
+    // Local name and extra field lengths can differ from the central directory's
+    const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = await readAt(this.handle, dataOffset, entry.compressedSize);
+    
+    if (entry.method === STORED) return data;
+    if (entry.method === DEFLATED) {
+      // Bounded by the declared size so a forged entry can't inflate without limit
+      return inflateRawAsync(data, { maxOutputLength: Math.max(entry.size, 1) });
+    }
+    throw new Error(`Unsupported compression method ${entry.method} for ${name}`);
+  }
+  
+  async readText(name: string): Promise<string | null> {
+    const data = await this.read(name);
+    return data ? data.toString('utf8') : null;
+  }
+  
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead < length) {
+    throw new Error('Invalid ZIP file: unexpected end of archive');
+  }
+  return buffer;
+}
+
+async function readCentralDirectory(handle: FileHandle): Promise<Map<string, ZipEntry>> {
+  const { size: fileSize } = await handle.stat();
+  const tailSize = Math.min(fileSize, EOCD_SEARCH_SIZE);
+  const tailOffset = fileSize - tailSize;
+  const tail = await readAt(handle, tailOffset, tailSize);
+  
+  let eocd = -1;
+  for (let i = tail.length - EOCD_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Invalid ZIP file: end of central directory not found');
+  }
+  
+  let entryCount = tail.readUInt16LE(eocd + 10);
+  let directorySize = tail.readUInt32LE(eocd + 12);
+  let directoryOffset = tail.readUInt32LE(eocd + 16);
+  
+  // Archives over 4 GB or 65535 entries keep the real values in a ZIP64 record
+  const locator = eocd - 20;
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE) {
+    const record = await readAt(handle, Number(tail.readBigUInt64LE(locator + 8)), 56);
+    if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('Invalid ZIP file: bad ZIP64 end of central directory');
+    }
+    entryCount = Number(record.readBigUInt64LE(32));
+    directorySize = Number(record.readBigUInt64LE(40));
+    directoryOffset = Number(record.readBigUInt64LE(48));
+  }
+  
+  const directory = await readAt(handle, directoryOffset, directorySize);
+  const entries = new Map<string, ZipEntry>();
+  let offset = 0;
+  
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid ZIP file: bad central directory');
+    }
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const nameStart = offset + 46;
+    
+    const entry: ZipEntry = {
+      name: directory.toString('utf8', nameStart, nameStart + nameLength),
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      localHeaderOffset: directory.readUInt32LE(offset + 42),
+    };
+    applyZip64Extra(entry, directory.subarray(nameStart + nameLength, nameStart + nameLength + extraLength));
+    
+    if (!entry.name.endsWith('/')) {
+      entries.set(entry.name, entry);
+    }
+    offset = nameStart + nameLength + extraLength + commentLength;
+  }
+  
+  return entries;
+}
+
+// The ZIP64 extra field holds, in order, only the values whose 32-bit fields are saturated
+function applyZip64Extra(entry: ZipEntry, extra: Buffer) {
+  for (let offset = 0; offset + 4 <= extra.length;) {
+    const id = extra.readUInt16LE(offset);
+    const length = extra.readUInt16LE(offset + 2);
+    if (id === ZIP64_EXTRA_FIELD) {
+      let field = offset + 4;
+      const next = () => {
+        const value = Number(extra.readBigUInt64LE(field));
+        field += 8;
+        return value;
+      };
+      if (entry.size === 0xffffffff) entry.size = next();
+      if (entry.compressedSize === 0xffffffff) entry.compressedSize = next();
+      if (entry.localHeaderOffset === 0xffffffff) entry.localHeaderOffset = next();
+      return;
+    }
+    offset += 4 + length;
+  }
+}
@@ -4,6 +4,9 @@
  */
 
 import { z } from 'zod';
+import { CSV_COLUMNS } from '@/lib/utils/csv-export';
+import { STRATIFY_KEYS } from '@/lib/utils/splits';
+import { EXPORT_SCHEMA_VERSION } from '@/lib/utils/export-schema';
 
 // Session validation
 export const SessionSchema = z.object({
@@ -23,6 +26,139 @@ export const ImageUploadSchema = z.object({
   ai_scores: z.record(z.string(), z.number()).optional().default({}),
 });
 
+// Image filters (coerced so they work for URL search params and JSON bodies)
+export const ImageFiltersSchema = z.object({
+  generator_used: z.enum(['midjourney', 'dalle', 'stable-diffusion', 'other']).optional(),
+  tag: z.string().min(1).optional(),
+  min_rating: z.coerce.number().min(1).max(5).optional(),
+  max_rating: z.coerce.number().min(1).max(5).optional(),
+  score_field: z.string().min(1).optional(),
+  min_score: z.coerce.number().optional(),
+  max_score: z.coerce.number().optional(),
+});
+
+// Image listing query validation (URL search params are strings)
+export const ImageQuerySchema = ImageFiltersSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  sort_by: z.string().min(1).default('upload_timestamp'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+});
+
+// Bulk image actions
+const BulkTagsSchema = z.array(z.string().trim().min(1)).min(1);
+
+export const BulkImageActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('delete') }),
+  z.object({ type: z.literal('add_tags'), tags: BulkTagsSchema }),
+  z.object({ type: z.literal('remove_tags'), tags: BulkTagsSchema }),
+  z.object({ type: z.literal('set_rating'), quality_rating: z.number().int().min(1).max(5).nullable() }),
+  z.object({
+    type: z.literal('set_generator'),
+    generator_used: z.enum(['midjourney', 'dalle', 'stable-diffusion', 'other']),
+  }),
+  z.object({ type: z.literal('set_score'), field: z.string().min(1), value: z.number().nullable() }),
+  z.object({ type: z.literal('move'), target_session_id: z.string().min(1) }),
+  z.object({ type: z.literal('copy'), target_session_id: z.string().min(1) }),
+]);
+
+// Move or copy a single image to another session
+export const ImageTransferSchema = z.object({
+  target_session_id: z.string().min(1),
+});
+
+// Either explicit IDs or "everything matching these filters" (minus exclusions)
+export const BulkImageSchema = z.object({
+  image_ids: z.array(z.string().min(1)).min(1).optional(),
+  filters: ImageFiltersSchema.optional(),
+  exclude_ids: z.array(z.string()).default([]),
+  action: BulkImageActionSchema,
+}).refine(data => data.image_ids || data.filters, {
+  message: 'Either image_ids or filters is required',
+});
+
+// Full-text search query validation
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Duplicate report scope (all of the user's sessions unless session_id is given)
+export const DuplicateQuerySchema = z.object({
+  session_id: z.string().min(1).optional(),
+  threshold: z.coerce.number().int().min(0).max(64).optional(),
+});
+
+// Keep one image of a duplicate group and delete (optionally merging first) the others
+export const DuplicateResolveSchema = z.object({
+  action: z.enum(['merge', 'delete']),
+  keep_id: z.string().min(1),
+  image_ids: z.array(z.string().min(1)).min(1).max(200),
+});
+
+// Subset of a session's images to export
+export const ExportFilterSchema = z.object({
+  min_rating: z.number().int().min(1).max(5).optional(),
+  max_rating: z.number().int().min(1).max(5).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  tag_match: z.enum(['any', 'all']).optional(),
+  generators: z.array(z.enum(['midjourney', 'dalle', 'stable-diffusion', 'other'])).optional(),
+  uploaded_from: z.iso.datetime().optional(),
+  uploaded_to: z.iso.datetime().optional(),
+  scores: z.record(z.string(), z.object({
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })).optional(),
+  image_ids: z.array(z.string().min(1)).optional(),
+  exclude_ids: z.array(z.string().min(1)).optional(),
+});
+
+// Start a background export job
+export const ExportStartSchema = z.object({
+  mode: z.enum(['json', 'csv', 'full', 'full_csv', 'hf_imagefolder', 'coco', 'webdataset']),
+  csv: z.object({
+    columns: z.array(z.string())
+      .min(1)
+      .refine(keys => keys.every(key => CSV_COLUMNS.some(column => column.key === key)), 'Unknown CSV column'),
+    delimiter: z.enum([',', ';', '\t', '|']),
+  }).optional(),
+  webdataset: z.object({
+    shard_size: z.number().int().min(1).max(100000),
+  }).optional(),
+  split: z.object({
+    ratios: z.object({
+      train: z.number().min(0).max(1),
+      val: z.number().min(0).max(1),
+      test: z.number().min(0).max(1),
+    }).refine(ratios => Math.abs(ratios.train + ratios.val + ratios.test - 1) < 0.001, 'Split ratios must sum to 1'),
+    seed: z.string().min(1).max(100),
+    stratify_by: z.array(z.string())
+      .refine(keys => keys.every(key => STRATIFY_KEYS.some(option => option.key === key)), 'Unknown stratification key'),
+    score_buckets: z.number().int().min(1).max(10),
+    output: z.enum(['directories', 'column']),
+    reshuffle: z.boolean().optional(),
+  }).optional(),
+  filter: ExportFilterSchema.optional(),
+  // Only images changed since the baseline (default: the latest export), plus tombstones
+  delta: z.object({
+    baseline_export_id: z.string().min(1).optional(),
+  }).optional(),
+  // Resize, crop and re-encode the images of ZIP exports
+  transform: z.object({
+    max_edge: z.number().int().min(16).max(16384).optional(),
+    crop: z.enum(['none', 'center', 'attention']),
+    format: z.enum(['original', 'jpeg', 'png', 'webp']),
+    quality: z.number().int().min(1).max(100),
+    strip_metadata: z.boolean(),
+  }).optional(),
+}).refine(data => !(data.delta && data.mode === 'csv'), {
+  message: 'CSV exports have no place for deleted images; use Full Export + CSV for deltas',
+  path: ['delta'],
+}).refine(data => !data.transform || ['full', 'full_csv', 'hf_imagefolder', 'coco'].includes(data.mode), {
+  message: 'Image transforms apply to ZIP exports only',
+  path: ['transform'],
+});
+
 // User validation
 export const UserSchema = z.object({
   email: z.string().email(),
@@ -30,12 +166,24 @@ export const UserSchema = z.object({
   name: z.string().min(2).max(100),
 });
 
+// IDs as the app generates them (nanoid). Preserved IDs become file paths, so nothing else is kept
+export const RecordIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/);
+
 // **CRITICAL FIX**: Import metadata validation with proper types
 export const ImportMetadataSchema = z.object({
   session: z.object({
     name: z.string(),
     description: z.string().optional(),
     status: z.enum(['active', 'archived', 'exported']).optional(),
+    // Restored with preserveIds if it passes RecordIdSchema
+    id: z.string().optional(),
+    created_at: z.string().optional(),
+    updated_at: z.string().optional(),
+    splits: z.object({
+      config: z.record(z.string(), z.any()),
+      assignments: z.record(z.string(), z.enum(['train', 'val', 'test'])),
+      updated_at: z.string(),
+    }).optional(),
   }),
   images: z.array(z.object({
     filename: z.string(),
@@ -46,6 +194,10 @@ export const ImportMetadataSchema = z.object({
       width: z.number(),
       height: z.number(),
     }),
+    mime_type: z.string().optional(),
+    color_space: z.string().optional(),
+    content_hash: z.string().optional(),
+    perceptual_hash: z.string().optional(),
     prompt: z.string(),
     generator_used: z.enum(['midjourney', 'dalle', 'stable-diffusion', 'other']),
     ai_scores: z.record(z.string(), z.number()).optional(),
@@ -61,7 +213,17 @@ export const ImportMetadataSchema = z.object({
     user_description: z.string().optional(),
   })),
   export_timestamp: z.string(),
-  export_version: z.string(),
+  // Older versions are migrated before validation, see migrateExportMetadata
+  export_version: z.literal(EXPORT_SCHEMA_VERSION),
+  manifest: z.object({
+    algorithm: z.literal('sha256'),
+    files: z.array(z.object({
+      path: z.string(),
+      size: z.number().int().min(0),
+      sha256: z.string().regex(/^[0-9a-f]{64}$/),
+    })),
+    digest: z.string(),
+  }).optional(),
 });
 
 // Import options validation
@@ -69,12 +231,22 @@ export const ImportOptionsSchema = z.object({
   mode: z.enum(['new', 'merge']),
   targetSessionId: z.string().optional(),
   duplicateStrategy: z.enum(['skip', 'replace', 'rename']).default('skip'),
+  strategyOverrides: z.record(z.string().regex(/^\d+$/), z.enum(['skip', 'replace', 'rename'])).optional(),
   preserveIds: z.boolean().default(false),
 });
 
 // Type exports
 export type SessionInput = z.infer<typeof SessionSchema>;
 export type ImageUploadInput = z.infer<typeof ImageUploadSchema>;
+export type ImageQueryInput = z.infer<typeof ImageQuerySchema>;
+export type SearchQueryInput = z.infer<typeof SearchQuerySchema>;
+export type BulkImageActionInput = z.infer<typeof BulkImageActionSchema>;
+export type BulkImageInput = z.infer<typeof BulkImageSchema>;
+export type ImageTransferInput = z.infer<typeof ImageTransferSchema>;
+export type DuplicateQueryInput = z.infer<typeof DuplicateQuerySchema>;
+export type DuplicateResolveInput = z.infer<typeof DuplicateResolveSchema>;
+export type ExportFilterInput = z.infer<typeof ExportFilterSchema>;
+export type ExportStartInput = z.infer<typeof ExportStartSchema>;
 export type UserInput = z.infer<typeof UserSchema>;
 export type ImportMetadataInput = z.infer<typeof ImportMetadataSchema>;
 export type ImportOptionsInput = z.infer<typeof ImportOptionsSchema>;
@@ -1,16 +1,62 @@
 /**
  * Enhanced session store with update/delete actions
+ * Session images are loaded page by page from the paginated images API
  * @filepath src/stores/session-store.ts
  */
 
 import { create } from 'zustand';
-import { Session, ImageRecord } from '@/lib/types';
+import { Session, ImageRecord, ImageQueryParams, PaginatedResponse, BulkImageResult } from '@/lib/types';
+import { BulkImageActionInput } from '@/lib/validations';
+
+export type ImageQuery = Omit<ImageQueryParams, 'page' | 'limit'>;
+
+export const IMAGE_PAGE_SIZE = 48;
+
+export const DEFAULT_IMAGE_QUERY: ImageQuery = {
+  sort_by: 'upload_timestamp',
+  order: 'asc',
+};
+
+// Either explicit IDs or every image matching the current filters (minus exclusions)
+export interface ImageSelection {
+  allMatching: boolean;
+  ids: string[];
+  excludedIds: string[];
+}
+
+async function fetchImagePage(
+  sessionId: string,
+  query: ImageQuery,
+  page: number
+): Promise<PaginatedResponse<ImageRecord>> {
+  const params = new URLSearchParams({ page: String(page), limit: String(IMAGE_PAGE_SIZE) });
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  
+  const response = await fetch(`/api/sessions/${sessionId}/images?${params}`);
+  const data = await response.json();
+  
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to load images');
+  }
+  
+  return data.data;
+}
 
 interface SessionState {
   // State
   sessions: Session[];
   currentSession: Session | null;
   currentImages: ImageRecord[];
+  imageQuery: ImageQuery;
+  imagesTotal: number;
+  imagesPage: number;
+  imagesPages: number;
+  loadingImages: boolean;
+  highlightedImageId: string | null;
   loading: boolean;
   error: string | null;
   
@@ -22,6 +68,11 @@ interface SessionState {
   selectSession: (sessionId: string) => Promise<void>;
   clearError: () => void;
   refreshCurrentSession: () => Promise<void>;
+  refreshSessionDetails: () => Promise<void>;
+  loadMoreImages: () => Promise<void>;
+  setImageQuery: (query: ImageQuery) => Promise<void>;
+  revealImage: (imageId: string) => Promise<void>;
+  applyBulkAction: (selection: ImageSelection, action: BulkImageActionInput) => Promise<BulkImageResult>;
 }
 
 export const useSessionStore = create<SessionState>((set, get) => ({
@@ -29,6 +80,12 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   sessions: [],
   currentSession: null,
   currentImages: [],
+  imageQuery: DEFAULT_IMAGE_QUERY,
+  imagesTotal: 0,
+  imagesPage: 0,
+  imagesPages: 0,
+  loadingImages: false,
+  highlightedImageId: null,
   loading: false,
   error: null,
   
@@ -150,15 +207,23 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   
   // Select and load session details
   selectSession: async (sessionId: string) => {
-    set({ loading: true, error: null });
+    // Keep sort/filter choices when reloading the same session
+    const imageQuery = get().currentSession?.id === sessionId
+      ? get().imageQuery
+      : DEFAULT_IMAGE_QUERY;
+    
+    const highlightedImageId = get().currentSession?.id === sessionId
+      ? get().highlightedImageId
+      : null;
+    
+    set({ loading: true, error: null, imageQuery, highlightedImageId });
     try {
-      const [sessionRes, imagesRes] = await Promise.all([
+      const [sessionRes, imagesPage] = await Promise.all([
         fetch(`/api/sessions/${sessionId}`),
-        fetch(`/api/sessions/${sessionId}/images`),
+        fetchImagePage(sessionId, imageQuery, 1),
       ]);
       
       const sessionData = await sessionRes.json();
-      const imagesData = await imagesRes.json();
       
       if (!sessionData.success) {
         throw new Error(sessionData.error || 'Failed to load session');
@@ -166,7 +231,10 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       
       set({
         currentSession: sessionData.data,
-        currentImages: imagesData.data || [],
+        currentImages: imagesPage.items,
+        imagesTotal: imagesPage.total,
+        imagesPage: imagesPage.page,
+        imagesPages: imagesPage.pages,
         loading: false,
       });
     } catch (error) {
@@ -185,6 +253,118 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     }
   },
   
+  // Re-fetch only the session record (e.g. export history), leaving images and the page as they are
+  refreshSessionDetails: async () => {
+    const { currentSession } = get();
+    if (!currentSession) return;
+    
+    try {
+      const response = await fetch(`/api/sessions/${currentSession.id}`);
+      const data = await response.json();
+      
+      if (data.success && get().currentSession?.id === currentSession.id) {
+        set({ currentSession: data.data });
+      }
+    } catch (error) {
+      console.error('Failed to refresh session:', error);
+    }
+  },
+  
+  // Append the next page of images for infinite scroll
+  loadMoreImages: async () => {
+    const { currentSession, imageQuery, imagesPage, imagesPages, loadingImages } = get();
+    if (!currentSession || loadingImages || imagesPage >= imagesPages) return;
+    
+    set({ loadingImages: true });
+    try {
+      const page = await fetchImagePage(currentSession.id, imageQuery, imagesPage + 1);
+      
+      // Ignore results that arrive after the query or session changed
+      if (get().imageQuery !== imageQuery || get().currentSession?.id !== currentSession.id) return;
+      
+      set(state => ({
+        currentImages: [...state.currentImages, ...page.items],
+        imagesTotal: page.total,
+        imagesPage: page.page,
+        imagesPages: page.pages,
+      }));
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load images' });
+    } finally {
+      set({ loadingImages: false });
+    }
+  },
+  
+  // Change sort/filter and reload from the first page
+  setImageQuery: async (query: ImageQuery) => {
+    const { currentSession } = get();
+    set({ imageQuery: query });
+    if (!currentSession) return;
+    
+    set({ loadingImages: true });
+    try {
+      const page = await fetchImagePage(currentSession.id, query, 1);
+      if (get().imageQuery !== query) return;
+      
+      set({
+        currentImages: page.items,
+        imagesTotal: page.total,
+        imagesPage: page.page,
+        imagesPages: page.pages,
+      });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load images' });
+    } finally {
+      set({ loadingImages: false });
+    }
+  },
+  
+  // Page through the session until an image (e.g. a search hit) is loaded, then highlight it
+  revealImage: async (imageId: string) => {
+    const isLoaded = () => get().currentImages.some(img => img.id === imageId);
+    
+    if (!isLoaded() && get().imageQuery !== DEFAULT_IMAGE_QUERY) {
+      // Active filters may hide the image
+      await get().setImageQuery(DEFAULT_IMAGE_QUERY);
+    }
+    
+    while (!isLoaded() && get().imagesPage < get().imagesPages) {
+      const before = get().imagesPage;
+      await get().loadMoreImages();
+      if (get().imagesPage === before) break;
+    }
+    
+    set({ highlightedImageId: isLoaded() ? imageId : null });
+  },
+  
+  // Run one action over the selection server-side, then reload the session
+  applyBulkAction: async (selection: ImageSelection, action: BulkImageActionInput) => {
+    const { currentSession, imageQuery } = get();
+    if (!currentSession) throw new Error('No session selected');
+    
+    // Sorting doesn't affect which images match
+    const { sort_by, order, ...filters } = imageQuery;
+    const target = selection.allMatching
+      ? { filters, exclude_ids: selection.excludedIds }
+      : { image_ids: selection.ids };
+    
+    const response = await fetch(`/api/sessions/${currentSession.id}/images/bulk`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...target, action }),
+    });
+    
+    const data = await response.json();
+    
+    if (!data.success) {
+      const failed = data.data?.results?.find((r: { error?: string }) => r.error);
+      throw new Error(failed?.error || data.error || 'Bulk action failed');
+    }
+    
+    await get().refreshCurrentSession();
+    return data.data;
+  },
+  
   // Clear error
   clearError: () => set({ error: null }),
 }));
\ No newline at end of file
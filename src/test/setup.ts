@@ -0,0 +1,18 @@
+/**
+ * Runs before each test file: points the data directory at a fresh temp dir,
+ * so tests never touch ./data and files don't share state
+ * @filepath src/test/setup.ts
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'synthcollect-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.STORAGE_BACKEND = 'json';
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
@@ -0,0 +1,24 @@
+/**
+ * Test runner configuration
+ * @filepath vitest.config.ts
+ */
+
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+    // Storage and import tests touch the disk and decode images
+    testTimeout: 60_000,
+    // Services log every step; only show that output for failing tests
+    silent: 'passed-only',
+  },
+});